@@ -55,29 +55,32 @@ describe('CounterStore', () => {
   })
 })`
 
-const resetStoreExample = `import { create } from 'zustand-lite'
+const resetStoreExample = `import { create, resetAllStores } from 'zustand-lite'
 import { beforeEach } from 'vitest'
 
-// Store с методом сброса
 interface StoreState {
   count: number
   items: string[]
   increment: () => void
 }
 
-const initialState = {
+const useStore = create<StoreState>((set) => ({
   count: 0,
   items: [],
-}
-
-const useStore = create<StoreState>((set) => ({
-  ...initialState,
   increment: () => set((s) => ({ count: s.count + 1 })),
 }))
 
-// Сброс перед каждым тестом
+// Сброс одного store (действия сохраняются)
+beforeEach(() => {
+  useStore.reset()
+})
+
+// Сброс только части полей
+useStore.reset(['items'])
+
+// Или сброс всех store сразу
 beforeEach(() => {
-  useStore.setState(initialState, true) // true = replace
+  resetAllStores()
 })`
 
 const componentTestExample = `import { describe, it, expect, beforeEach } from 'vitest'
@@ -110,7 +113,7 @@ function Counter() {
 // Тесты
 describe('Counter Component', () => {
   beforeEach(() => {
-    useCounterStore.setState({ count: 0 }, true)
+    useCounterStore.reset()
   })
 
   it('renders count', () => {
@@ -157,7 +160,7 @@ describe('Persist Store', () => {
     // Очистка
     Object.keys(mockStorage).forEach(key => delete mockStorage[key])
     vi.clearAllMocks()
-    useStore.setState({ count: 0 }, true)
+    useStore.reset()
   })
 
   it('should persist state', async () => {
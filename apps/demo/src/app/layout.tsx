@@ -3,6 +3,8 @@ import { Inter } from 'next/font/google'
 import './globals.css'
 import { Header } from '@/components/Header'
 import { Cart } from '@/components/Cart'
+import { ThemeProvider } from '@/components/ThemeProvider'
+import { themeScript } from '@/lib/theme'
 
 const inter = Inter({ subsets: ['latin', 'cyrillic'] })
 
@@ -20,10 +22,16 @@ export default function RootLayout({
 }) {
   return (
     <html lang="ru" suppressHydrationWarning>
+      <head>
+        {/* Static export: apply the saved theme before paint, not during render */}
+        <script dangerouslySetInnerHTML={{ __html: themeScript }} />
+      </head>
       <body className={inter.className}>
-        <Header />
-        <main className="min-h-screen">{children}</main>
-        <Cart />
+        <ThemeProvider>
+          <Header />
+          <main className="min-h-screen">{children}</main>
+          <Cart />
+        </ThemeProvider>
       </body>
     </html>
   )
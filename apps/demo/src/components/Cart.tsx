@@ -1,8 +1,9 @@
 'use client'
 
-import { X, Plus, Minus, Trash2, ShoppingBag } from 'lucide-react'
+import { X, Plus, Minus, Trash2, ShoppingBag, Undo2 } from 'lucide-react'
 import Image from 'next/image'
 import { motion, AnimatePresence } from 'framer-motion'
+import { useStore } from 'zustand-lite'
 import {
   useCartStore,
   selectCartTotal,
@@ -18,6 +19,8 @@ export function Cart() {
   const removeItem = useCartStore((s) => s.removeItem)
   const updateQuantity = useCartStore((s) => s.updateQuantity)
   const clearCart = useCartStore((s) => s.clearCart)
+  const history = useCartStore.temporal
+  const canUndo = useStore(history, (s) => s.canUndo)
 
   return (
     <AnimatePresence>
@@ -48,12 +51,23 @@ export function Cart() {
                   Корзина ({itemCount})
                 </h2>
               </div>
-              <button
-                onClick={closeCart}
-                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
-              >
-                <X className="w-5 h-5 text-gray-500" />
-              </button>
+              <div className="flex items-center gap-1">
+                {canUndo && (
+                  <button
+                    onClick={() => history.undo()}
+                    title="Отменить последнее изменение"
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                  >
+                    <Undo2 className="w-5 h-5 text-gray-500" />
+                  </button>
+                )}
+                <button
+                  onClick={closeCart}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
             </div>
 
             {/* Items */}
@@ -4,7 +4,7 @@ import Link from 'next/link'
 import { ShoppingCart, Moon, Sun, Menu, X } from 'lucide-react'
 import { useState, useEffect } from 'react'
 import { useCartStore, selectCartItemCount } from '@/stores/cart-store'
-import { useThemeStore } from '@/stores/theme-store'
+import { useThemeStore, useThemeStoreApi } from '@/stores/theme-store'
 import { useHydration } from 'zustand-lite/ssr'
 
 const navigation = [
@@ -20,7 +20,8 @@ export function Header() {
 
   // Hydration for SSR
   const cartHydrated = useHydration(useCartStore)
-  const themeHydrated = useHydration(useThemeStore)
+  const themeStore = useThemeStoreApi()
+  const themeHydrated = useHydration(themeStore)
 
   // Cart state
   const itemCount = useCartStore(selectCartItemCount)
@@ -32,10 +33,9 @@ export function Header() {
 
   // Rehydrate stores on client
   useEffect(() => {
-    // Type assertions needed due to middleware type complexity
-    (useCartStore as unknown as { persist: { rehydrate: () => void } }).persist.rehydrate()
-    ;(useThemeStore as unknown as { persist: { rehydrate: () => void } }).persist.rehydrate()
-  }, [])
+    useCartStore.persist.rehydrate()
+    themeStore.persist.rehydrate()
+  }, [themeStore])
 
   return (
     <header className="sticky top-0 z-50 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-800">
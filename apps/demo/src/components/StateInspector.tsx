@@ -3,33 +3,74 @@
 import { useState, useEffect } from 'react'
 import { ChevronDown, ChevronRight, Eye, EyeOff } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { useCartStore } from '@/stores/cart-store'
+import {
+  listStores,
+  onStoreCreated,
+  onStoreRemoved,
+  type RegisteredStore,
+} from 'zustand-lite'
 import { cn } from '@/lib/utils'
 
 interface StateInspectorProps {
   className?: string
+  /** Registry name of the store shown first */
+  storeName?: string
 }
 
-export function StateInspector({ className }: StateInspectorProps) {
+/**
+ * Keeps only data fields: actions are not state worth inspecting.
+ */
+const pickData = (state: unknown): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries((state ?? {}) as Record<string, unknown>).filter(
+      ([, value]) => typeof value !== 'function'
+    )
+  )
+
+export function StateInspector({
+  className,
+  storeName = 'CartStore',
+}: StateInspectorProps) {
   const [isOpen, setIsOpen] = useState(true)
   const [expanded, setExpanded] = useState<Record<string, boolean>>({
     items: true,
   })
   const [updateCount, setUpdateCount] = useState(0)
 
-  // Get entire cart state
-  const state = useCartStore((s) => ({
-    items: s.items,
-    isOpen: s.isOpen,
-  }))
+  // Discover stores from the registry
+  const [entries, setEntries] = useState<RegisteredStore[]>([])
+  const [selectedName, setSelectedName] = useState(storeName)
 
-  // Track updates
   useEffect(() => {
-    const unsubscribe = useCartStore.subscribe(() => {
+    const refresh = () => setEntries(listStores())
+    refresh()
+    // Drop stores that are unregistered or destroyed (e.g. unmounted providers)
+    const unsubscribeCreated = onStoreCreated(refresh)
+    const unsubscribeRemoved = onStoreRemoved(refresh)
+    return () => {
+      unsubscribeCreated()
+      unsubscribeRemoved()
+    }
+  }, [])
+
+  const entry =
+    entries.find((e) => e.name === selectedName) ?? entries[0]
+
+  // Follow the selected store's state and count its updates
+  const [state, setState] = useState<Record<string, unknown>>({})
+
+  useEffect(() => {
+    if (!entry) {
+      setState({})
+      return
+    }
+    setState(pickData(entry.store.getState()))
+    setUpdateCount(0)
+    return entry.store.subscribe((next) => {
+      setState(pickData(next))
       setUpdateCount((c) => c + 1)
     })
-    return unsubscribe
-  }, [])
+  }, [entry])
 
   const toggleExpand = (key: string) => {
     setExpanded((prev) => ({ ...prev, [key]: !prev[key] }))
@@ -176,7 +217,23 @@ export function StateInspector({ className }: StateInspectorProps) {
             className="overflow-hidden"
           >
             <div className="p-4 text-gray-300 max-h-80 overflow-y-auto">
-              <div className="text-cyan-400 mb-2">CartStore</div>
+              {entries.length > 1 ? (
+                <select
+                  value={entry?.name}
+                  onChange={(e) => setSelectedName(e.target.value)}
+                  className="bg-gray-800 text-cyan-400 mb-2 rounded px-1"
+                >
+                  {entries.map((e) => (
+                    <option key={e.name} value={e.name}>
+                      {e.name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <div className="text-cyan-400 mb-2">
+                  {entry?.name ?? 'Нет зарегистрированных store'}
+                </div>
+              )}
               {Object.entries(state).map(([key, value]) => (
                 <div key={key} className="flex">
                   <span className="text-purple-400 mr-2">{key}:</span>
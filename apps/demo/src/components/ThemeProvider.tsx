@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect } from 'react'
+import { ThemeStoreProvider, useThemeStoreApi, applyTheme } from '@/stores/theme-store'
+
+/**
+ * Follows system theme changes while the theme is 'system'.
+ * Runs after mount only, so rendering stays free of media queries.
+ */
+function SystemThemeListener() {
+  const store = useThemeStoreApi()
+
+  useEffect(() => {
+    const media = window.matchMedia('(prefers-color-scheme: dark)')
+    const onChange = (e: MediaQueryListEvent) => {
+      if (store.getState().theme === 'system') {
+        const resolvedTheme = e.matches ? 'dark' : 'light'
+        applyTheme(resolvedTheme)
+        store.setState({ resolvedTheme })
+      }
+    }
+    media.addEventListener('change', onChange)
+    return () => media.removeEventListener('change', onChange)
+  }, [store])
+
+  return null
+}
+
+/**
+ * Provides the theme store. The saved theme is loaded from the cookie
+ * after mount (see Header), never during render.
+ */
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  return (
+    <ThemeStoreProvider>
+      <SystemThemeListener />
+      {children}
+    </ThemeStoreProvider>
+  )
+}
@@ -0,0 +1,29 @@
+/**
+ * Theme constants shared by the theme store and the root layout.
+ *
+ * Kept out of the 'use client' store module so the server layout can
+ * inline the script.
+ */
+
+/** Persist name: the cookie the theme is saved in */
+export const THEME_STORAGE_NAME = 'theme-storage'
+
+/**
+ * Applies the saved theme before the first paint.
+ *
+ * The demo is a static export: the prerendered HTML can't know the
+ * cookie, and React must hydrate the same markup it was rendered with.
+ * This script only sets the `dark` class on `<html>` (which is excluded
+ * from hydration checks); the store itself rehydrates from the cookie
+ * after mount. It reads the value written by `createCookieStorage`.
+ */
+export const themeScript = `(function () {
+  try {
+    var match = document.cookie.match(/(?:^|;\\s*)${THEME_STORAGE_NAME}=([^;]*)/)
+    var theme = match ? JSON.parse(decodeURIComponent(match[1])).state.theme : 'system'
+    var dark =
+      theme === 'dark' ||
+      (theme !== 'light' && window.matchMedia('(prefers-color-scheme: dark)').matches)
+    document.documentElement.classList.toggle('dark', dark)
+  } catch (e) {}
+})()`
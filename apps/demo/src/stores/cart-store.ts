@@ -4,6 +4,9 @@
  * Demonstrates:
  * - Full zustand-lite API usage
  * - Middleware composition (persist + devtools + immer)
+ * - Derived fields with computed
+ * - Undo/redo with temporal
+ * - Update logging with logger
  * - SSR support with skipHydration
  * - SOLID principles in action
  */
@@ -11,7 +14,16 @@
 'use client'
 
 import { create } from 'zustand-lite'
-import { persist, devtools, subscribeWithSelector } from 'zustand-lite/middleware'
+import {
+  persist,
+  devtools,
+  subscribeWithSelector,
+  computed,
+  temporal,
+  logger,
+  consoleSink,
+  type LogSink,
+} from 'zustand-lite/middleware'
 import type { Product } from '@/data/products'
 
 // ============================================================
@@ -28,6 +40,13 @@ export interface CartState {
   isOpen: boolean
 }
 
+export interface CartComputed {
+  /** Total number of items in cart */
+  itemCount: number
+  /** Total price of all items */
+  total: number
+}
+
 export interface CartActions {
   addItem: (product: Product) => void
   removeItem: (productId: string) => void
@@ -38,23 +57,22 @@ export interface CartActions {
   closeCart: () => void
 }
 
-export type CartStore = CartState & CartActions
+export type CartStore = CartState & CartComputed & CartActions
 
 // ============================================================
 // SELECTORS (Single Responsibility - separate computation logic)
 // ============================================================
 
 /**
- * Get total number of items in cart.
+ * Get total number of items in cart (memoized by computed).
  */
 export const selectCartItemCount = (state: CartStore): number =>
-  state.items.reduce((sum, item) => sum + item.quantity, 0)
+  state.itemCount
 
 /**
- * Get total price of all items.
+ * Get total price of all items (memoized by computed).
  */
-export const selectCartTotal = (state: CartStore): number =>
-  state.items.reduce((sum, item) => sum + item.product.price * item.quantity, 0)
+export const selectCartTotal = (state: CartStore): number => state.total
 
 /**
  * Find specific item in cart.
@@ -72,6 +90,30 @@ export const selectIsInCart =
   (state: CartStore): boolean =>
     state.items.some((item) => item.product.id === productId)
 
+// ============================================================
+// LOG SINKS
+// ============================================================
+
+/**
+ * Counts the items of a logged cart state.
+ */
+const countLoggedItems = (state: unknown): number =>
+  ((state as Partial<CartState>).items ?? []).reduce(
+    (sum, item) => sum + item.quantity,
+    0
+  )
+
+/**
+ * Analytics sink: reports cart size changes (stand-in for a tracker).
+ */
+const cartAnalyticsSink: LogSink = (entry) => {
+  const previousCount = countLoggedItems(entry.previousState)
+  const count = countLoggedItems(entry.state)
+  if (count !== previousCount) {
+    console.log(`Cart items changed: ${previousCount} → ${count}`)
+  }
+}
+
 // ============================================================
 // STORE CREATION
 // ============================================================
@@ -80,101 +122,137 @@ export const selectIsInCart =
  * Cart store with full middleware composition.
  *
  * Middleware order (inner to outer):
- * 1. subscribeWithSelector - enables fine-grained subscriptions
- * 2. persist - saves cart to localStorage
- * 3. devtools - enables Redux DevTools debugging
+ * 1. computed - derives itemCount and total from items
+ * 2. temporal - undo history of items
+ * 3. persist - saves cart to localStorage
+ * 4. logger - logs cart updates and cart size changes in development
+ * 5. subscribeWithSelector - enables fine-grained subscriptions
+ * 6. devtools - enables Redux DevTools debugging
  */
 export const useCartStore = create<CartStore>()(
   devtools(
     subscribeWithSelector(
-      persist(
-        (set, _get) => ({
-          // State
-          items: [],
-          isOpen: false,
-
-          // Actions
-          addItem: (product) => {
-            set(
-              (state) => {
-                const existingItem = state.items.find(
-                  (item) => item.product.id === product.id
-                )
-
-                if (existingItem) {
-                  return {
-                    items: state.items.map((item) =>
-                      item.product.id === product.id
-                        ? { ...item, quantity: item.quantity + 1 }
-                        : item
-                    ),
-                  }
-                }
-
-                return {
-                  items: [...state.items, { product, quantity: 1 }],
-                }
-              },
-              false
-            )
-          },
-
-          removeItem: (productId) => {
-            set(
-              (state) => ({
-                items: state.items.filter(
-                  (item) => item.product.id !== productId
-                ),
+      logger(
+        persist(
+          temporal(
+            computed(
+              (set, _get) => ({
+                // State
+                items: [],
+                isOpen: false,
+
+                // Actions
+                addItem: (product) => {
+                  set(
+                    (state) => {
+                      const existingItem = state.items.find(
+                        (item) => item.product.id === product.id
+                      )
+
+                      if (existingItem) {
+                        return {
+                          items: state.items.map((item) =>
+                            item.product.id === product.id
+                              ? { ...item, quantity: item.quantity + 1 }
+                              : item
+                          ),
+                        }
+                      }
+
+                      return {
+                        items: [...state.items, { product, quantity: 1 }],
+                      }
+                    },
+                    false,
+                    'cart/addItem'
+                  )
+                },
+
+                removeItem: (productId) => {
+                  set(
+                    (state) => ({
+                      items: state.items.filter(
+                        (item) => item.product.id !== productId
+                      ),
+                    }),
+                    false,
+                    'cart/removeItem'
+                  )
+                },
+
+                updateQuantity: (productId, quantity) => {
+                  set(
+                    (state) => {
+                      if (quantity <= 0) {
+                        return {
+                          items: state.items.filter(
+                            (item) => item.product.id !== productId
+                          ),
+                        }
+                      }
+
+                      return {
+                        items: state.items.map((item) =>
+                          item.product.id === productId
+                            ? { ...item, quantity }
+                            : item
+                        ),
+                      }
+                    },
+                    false,
+                    'cart/updateQuantity'
+                  )
+                },
+
+                clearCart: () => {
+                  set({ items: [] }, false, 'cart/clearCart')
+                },
+
+                toggleCart: () => {
+                  set((state) => ({ isOpen: !state.isOpen }), false, 'cart/toggleCart')
+                },
+
+                openCart: () => {
+                  set({ isOpen: true }, false, 'cart/openCart')
+                },
+
+                closeCart: () => {
+                  set({ isOpen: false }, false, 'cart/closeCart')
+                },
               }),
-              false
-            )
-          },
-
-          updateQuantity: (productId, quantity) => {
-            set(
-              (state) => {
-                if (quantity <= 0) {
-                  return {
-                    items: state.items.filter(
-                      (item) => item.product.id !== productId
+              {
+                itemCount: {
+                  deps: (state) => [state.items],
+                  compute: (state) =>
+                    state.items.reduce((sum, item) => sum + item.quantity, 0),
+                },
+                total: {
+                  deps: (state) => [state.items],
+                  compute: (state) =>
+                    state.items.reduce(
+                      (sum, item) => sum + item.product.price * item.quantity,
+                      0
                     ),
-                  }
-                }
-
-                return {
-                  items: state.items.map((item) =>
-                    item.product.id === productId
-                      ? { ...item, quantity }
-                      : item
-                  ),
-                }
-              },
-              false
-            )
-          },
-
-          clearCart: () => {
-            set({ items: [] }, false)
-          },
-
-          toggleCart: () => {
-            set((state) => ({ isOpen: !state.isOpen }), false)
-          },
-
-          openCart: () => {
-            set({ isOpen: true }, false)
-          },
-
-          closeCart: () => {
-            set({ isOpen: false }, false)
-          },
-        }),
+                },
+              }
+            ),
+            // Undo covers cart contents only; rapid quantity clicks are one step
+            { partialize: (state) => ({ items: state.items }), limit: 20, groupWithin: 500 }
+          ),
+          {
+            name: 'cart-storage',
+            // Only persist items, not UI state
+            partialize: (state) => ({ items: state.items }),
+            // Skip automatic hydration for SSR
+            skipHydration: true,
+          }
+        ),
+        // Opening and closing the cart is noise in the console
         {
-          name: 'cart-storage',
-          // Only persist items, not UI state
-          partialize: (state) => ({ items: state.items }),
-          // Skip automatic hydration for SSR
-          skipHydration: true,
+          name: 'cart',
+          enabled: process.env.NODE_ENV !== 'production',
+          sink: [consoleSink(), cartAnalyticsSink],
+          filter: (action) => !/^cart\/(toggle|open|close)Cart$/.test(action?.type ?? ''),
         }
       )
     ),
@@ -182,28 +260,7 @@ export const useCartStore = create<CartStore>()(
       name: 'CartStore',
       enabled: process.env.NODE_ENV !== 'production',
     }
-  )
+  ),
+  // Listed in the store registry (see StateInspector); frozen in development
+  { name: 'CartStore', tags: ['demo'], freeze: true }
 )
-
-// ============================================================
-// SUBSCRIPTION EXAMPLES
-// ============================================================
-
-// Subscribe to cart total changes (e.g., for analytics)
-// Type assertion needed due to middleware type complexity
-if (typeof window !== 'undefined') {
-  const store = useCartStore as unknown as {
-    subscribe: <U>(
-      selector: (state: CartStore) => U,
-      listener: (selectedState: U, previousSelectedState: U) => void,
-      options?: { fireImmediately?: boolean }
-    ) => () => void
-  }
-  store.subscribe(
-    selectCartItemCount,
-    (count, prevCount) => {
-      console.log(`Cart items changed: ${prevCount} → ${count}`)
-    },
-    { fireImmediately: false }
-  )
-}
@@ -7,9 +7,9 @@ interface CounterDemoState {
   reset: () => void
 }
 
-export const useCounterDemoStore = create<CounterDemoState>((set) => ({
+export const useCounterDemoStore = create<CounterDemoState>((set, _get, api) => ({
   count: 0,
   increment: () => set((s) => ({ count: s.count + 1 })),
   decrement: () => set((s) => ({ count: s.count - 1 })),
-  reset: () => set({ count: 0 }),
+  reset: () => api.reset(),
 }))
@@ -1,13 +1,20 @@
 /**
  * Theme store for demo application.
  *
- * Demonstrates simple store usage without middleware complexity.
+ * Demonstrates a context store persisted in a cookie, plus validation of
+ * persisted values. The first render always uses the default theme so it
+ * matches the prerendered HTML; the saved theme is applied before paint
+ * by the layout's inline script and loaded into the store after mount.
  */
 
 'use client'
 
 import { create } from 'zustand-lite'
-import { persist } from 'zustand-lite/middleware'
+import { persist, validate } from 'zustand-lite/middleware'
+import type { StorageValue, Validator } from 'zustand-lite/middleware'
+import { createCookieStorage } from 'zustand-lite/storage'
+import { createStoreContext } from 'zustand-lite/ssr'
+import { THEME_STORAGE_NAME } from '@/lib/theme'
 
 // ============================================================
 // TYPES
@@ -27,6 +34,9 @@ export interface ThemeActions {
 
 export type ThemeStore = ThemeState & ThemeActions
 
+/** Part of the state saved in the cookie */
+type PersistedTheme = Pick<ThemeState, 'theme'>
+
 // ============================================================
 // HELPERS
 // ============================================================
@@ -51,10 +61,18 @@ function resolveTheme(theme: Theme): 'light' | 'dark' {
   return theme
 }
 
+/**
+ * Rejects unknown theme strings (e.g. stale values in the cookie).
+ */
+const validateTheme: Validator<ThemeStore> = (state) =>
+  ['light', 'dark', 'system'].includes(state.theme)
+    ? { value: state }
+    : { issues: [{ message: `Unknown theme "${state.theme}"`, path: ['theme'] }] }
+
 /**
  * Apply theme to document.
  */
-function applyTheme(resolvedTheme: 'light' | 'dark'): void {
+export function applyTheme(resolvedTheme: 'light' | 'dark'): void {
   if (typeof document === 'undefined') return
 
   const root = document.documentElement
@@ -69,49 +87,63 @@ function applyTheme(resolvedTheme: 'light' | 'dark'): void {
 // STORE
 // ============================================================
 
-export const useThemeStore = create<ThemeStore>()(
-  persist(
-    (set, get) => ({
-      theme: 'system',
-      resolvedTheme: 'light',
-
-      setTheme: (theme) => {
-        const resolvedTheme = resolveTheme(theme)
-        applyTheme(resolvedTheme)
-        set({ theme, resolvedTheme })
-      },
-
-      toggleTheme: () => {
-        const current = get().resolvedTheme
-        const newTheme = current === 'light' ? 'dark' : 'light'
-        applyTheme(newTheme)
-        set({ theme: newTheme, resolvedTheme: newTheme })
-      },
-    }),
-    {
-      name: 'theme-storage',
-      skipHydration: true,
-      onRehydrateStorage: () => (state) => {
-        if (state) {
-          const resolvedTheme = resolveTheme(state.theme)
-          applyTheme(resolvedTheme)
-          state.resolvedTheme = resolvedTheme
+/**
+ * Creates a theme store. The initial state is fixed (no cookie or media
+ * query reads) so server and client render the same markup.
+ */
+const createThemeStore = () => {
+  const store = create<ThemeStore>()(
+    validate(
+      persist(
+        (set, get) => ({
+          theme: 'system',
+          resolvedTheme: 'light',
+
+          setTheme: (theme) => {
+            const resolvedTheme = resolveTheme(theme)
+            applyTheme(resolvedTheme)
+            set({ theme, resolvedTheme })
+          },
+
+          toggleTheme: () => {
+            const current = get().resolvedTheme
+            const newTheme = current === 'light' ? 'dark' : 'light'
+            applyTheme(newTheme)
+            set({ theme: newTheme, resolvedTheme: newTheme })
+          },
+        }),
+        {
+          name: THEME_STORAGE_NAME,
+          storage: createCookieStorage<StorageValue<PersistedTheme>>(),
+          partialize: (s): PersistedTheme => ({ theme: s.theme }),
+          skipHydration: true,
+          onRehydrateStorage: () => (state) => {
+            if (state) {
+              const resolvedTheme = resolveTheme(state.theme)
+              applyTheme(resolvedTheme)
+              store.setState({ resolvedTheme })
+            }
+          },
         }
-      },
-    }
-  )
-)
-
-// Listen for system theme changes
-if (typeof window !== 'undefined') {
-  window
-    .matchMedia('(prefers-color-scheme: dark)')
-    .addEventListener('change', (e) => {
-      const state = useThemeStore.getState()
-      if (state.theme === 'system') {
-        const resolvedTheme = e.matches ? 'dark' : 'light'
-        applyTheme(resolvedTheme)
-        useThemeStore.setState({ resolvedTheme })
+      ),
+      {
+        schema: validateTheme,
+        // Rehydrated values are checked too: validate wraps persist
+        onInvalid: ({ path, issues }) =>
+          console.warn(`[theme] Rejected ${path}: ${issues[0]?.message}`),
       }
-    })
+    ),
+    { freeze: true }
+  )
+
+  return store
 }
+
+export const {
+  StoreProvider: ThemeStoreProvider,
+  useStoreContext: useThemeStore,
+  useStoreApi: useThemeStoreApi,
+} = createStoreContext<ThemeStore, ReturnType<typeof createThemeStore>>(createThemeStore, {
+  name: 'ThemeStore',
+  tags: ['demo'],
+})
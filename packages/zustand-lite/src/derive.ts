@@ -0,0 +1,348 @@
+/**
+ * Derived read-only stores.
+ *
+ * A derived store exposes a projection of one store (`deriveStore`) or of
+ * several (`combineStores`). It has no state of its own: `getState`
+ * memoizes the projection of the source state, and sources are only
+ * subscribed to while the derived store has listeners.
+ *
+ * @module derive
+ */
+
+import type {
+  ReadonlyStoreApi,
+  Listener,
+  EqualityFn,
+  ActionDescriptor,
+  ExtractState,
+} from './types'
+import type {
+  SubscribeWithSelectorFn,
+  SubscribeWithSelectorOptions,
+  SelectorListener,
+} from './middleware/subscribeWithSelector'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Read-only store whose subscribe also accepts a selector,
+ * like a store with the subscribeWithSelector middleware.
+ *
+ * @template T - State type
+ */
+export type DerivedStoreApi<T> = Omit<ReadonlyStoreApi<T>, 'subscribe'> & {
+  subscribe: SubscribeWithSelectorFn<T>
+}
+
+/**
+ * Stores combined by combineStores, keyed by name.
+ */
+export type StoreMap = Record<string, ReadonlyStoreApi<unknown>>
+
+/**
+ * Snapshot of every store in a store map.
+ *
+ * @template M - Store map
+ */
+export type CombinedState<M extends StoreMap> = {
+  [K in keyof M]: ExtractState<M[K]>
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Calls a listener, keeping the two-argument signature for anonymous updates.
+ */
+const callListener = <T>(
+  listener: Listener<T>,
+  state: T,
+  previousState: T,
+  action: ActionDescriptor | undefined
+): void => {
+  if (action === undefined) {
+    listener(state, previousState)
+  } else {
+    listener(state, previousState, action)
+  }
+}
+
+/**
+ * Notifies every listener, even if one throws.
+ * The first error is rethrown afterwards so the source store reports it.
+ */
+const notifyAll = <T>(
+  listeners: Set<Listener<T>>,
+  state: T,
+  previousState: T,
+  action: ActionDescriptor | undefined
+): void => {
+  let firstError: unknown
+  let hasError = false
+
+  for (const listener of Array.from(listeners)) {
+    try {
+      callListener(listener, state, previousState, action)
+    } catch (error) {
+      if (!hasError) {
+        hasError = true
+        firstError = error
+      }
+    }
+  }
+
+  if (hasError) {
+    throw firstError
+  }
+}
+
+/**
+ * Adds selector support to a plain subscribe function.
+ *
+ * @template T - State type
+ * @param getState - Returns the current state
+ * @param subscribe - Plain subscribe
+ * @returns Subscribe accepting an optional selector
+ */
+const withSelectorSubscribe = <T>(
+  getState: () => T,
+  subscribe: (listener: Listener<T>) => () => void
+): SubscribeWithSelectorFn<T> =>
+  (<U>(
+    selectorOrListener: ((state: T) => U) | Listener<T>,
+    listener?: SelectorListener<U>,
+    options?: SubscribeWithSelectorOptions<U>
+  ) => {
+    if (listener === undefined) {
+      return subscribe(selectorOrListener as Listener<T>)
+    }
+
+    const selector = selectorOrListener as (state: T) => U
+    const { equalityFn = Object.is, fireImmediately = false } = options ?? {}
+    let currentSlice = selector(getState())
+
+    if (fireImmediately) {
+      listener(currentSlice, currentSlice)
+    }
+
+    return subscribe((state, _previousState, action) => {
+      const nextSlice = selector(state)
+      if (equalityFn(currentSlice, nextSlice)) return
+
+      const previousSlice = currentSlice
+      currentSlice = nextSlice
+      callListener(listener as Listener<U>, nextSlice, previousSlice, action)
+    })
+  }) as SubscribeWithSelectorFn<T>
+
+/**
+ * Creates a subscribe that attaches to a source only while it has listeners.
+ *
+ * @template T - State type
+ * @param getState - Returns the current (memoized) state
+ * @param connect - Subscribes to the source; `onChange` is called after
+ *   every source update and returns the function that disconnects
+ * @returns Plain subscribe
+ */
+const createLazySubscribe = <T>(
+  getState: () => T,
+  connect: (onChange: (action: ActionDescriptor | undefined) => void) => () => void
+): ((listener: Listener<T>) => () => void) => {
+  const listeners = new Set<Listener<T>>()
+  let disconnect: (() => void) | undefined
+
+  /** State the listeners last saw */
+  let notifiedState: T
+
+  const onChange = (action: ActionDescriptor | undefined): void => {
+    const state = getState()
+    if (Object.is(state, notifiedState)) return
+
+    const previousState = notifiedState
+    notifiedState = state
+    notifyAll(listeners, state, previousState, action)
+  }
+
+  return (listener) => {
+    if (listeners.size === 0) {
+      notifiedState = getState()
+      disconnect = connect(onChange)
+    }
+    listeners.add(listener)
+
+    return () => {
+      if (!listeners.delete(listener) || listeners.size > 0) return
+      disconnect?.()
+      disconnect = undefined
+    }
+  }
+}
+
+/**
+ * Memoizes a projection: recomputes only for a new input, and keeps the
+ * previous result when the new one is equal to it.
+ */
+const memoizeProjection = <T, U>(
+  project: (input: T) => U,
+  equalityFn: EqualityFn<U>
+): ((input: T) => U) => {
+  let hasResult = false
+  let lastInput: T
+  let result: U
+
+  return (input) => {
+    if (hasResult && Object.is(input, lastInput)) return result
+
+    const next = project(input)
+    lastInput = input
+    if (!hasResult || !equalityFn(result, next)) {
+      result = next
+    }
+    hasResult = true
+    return result
+  }
+}
+
+// ============================================================
+// DERIVE STORE
+// ============================================================
+
+/**
+ * Creates a read-only store exposing a projection of another store.
+ *
+ * `getState` returns the memoized projection (the same reference while
+ * `equalityFn` considers it unchanged), and listeners fire only when the
+ * projection changes. The source is subscribed to lazily and released
+ * when the last listener unsubscribes.
+ *
+ * @template T - Source state type
+ * @template U - Projected state type
+ * @param source - Store to derive from (any read-only store, including
+ *   other derived stores)
+ * @param selector - Projection of the source state
+ * @param equalityFn - Compares projections (defaults to Object.is)
+ * @returns Derived read-only store
+ *
+ * @example
+ * const cartSummary = deriveStore(
+ *   useCartStore,
+ *   (s) => ({ count: s.items.length, total: s.total }),
+ *   shallow
+ * )
+ *
+ * // In a component library that only knows the summary
+ * const count = useStore(cartSummary, (s) => s.count)
+ *
+ * // Selector subscriptions work without the middleware
+ * cartSummary.subscribe((s) => s.total, (total) => console.log(total))
+ */
+export const deriveStore = <T, U>(
+  source: ReadonlyStoreApi<T>,
+  selector: (state: T) => U,
+  equalityFn: EqualityFn<U> = Object.is
+): DerivedStoreApi<U> => {
+  const project = memoizeProjection(selector, equalityFn)
+  const projectInitial = memoizeProjection(selector, equalityFn)
+
+  const getState = (): U => project(source.getState())
+
+  const subscribe = createLazySubscribe(getState, (onChange) =>
+    source.subscribe((_state, _previousState, action) => onChange(action))
+  )
+
+  return {
+    getState,
+    getInitialState: () => projectInitial(source.getInitialState()),
+    subscribe: withSelectorSubscribe(getState, subscribe),
+  }
+}
+
+// ============================================================
+// COMBINE STORES
+// ============================================================
+
+/**
+ * Creates a read-only store combining the state of several stores.
+ *
+ * The state is a snapshot `{ [key]: state }` of every input (optionally
+ * transformed by `compute`). The snapshot keeps its reference until one
+ * of the inputs changes, and listeners are notified once per input update,
+ * only when the combined state changes. Inputs are subscribed to lazily.
+ *
+ * @template M - Store map
+ * @template U - Combined state type
+ * @param stores - Stores keyed by name
+ * @param compute - Transforms the snapshot (defaults to the snapshot itself)
+ * @param equalityFn - Compares computed states (defaults to Object.is)
+ * @returns Combined read-only store
+ *
+ * @example
+ * const app = combineStores({ cart: useCartStore, theme: useThemeStore })
+ * const [count, theme] = useStore(
+ *   app,
+ *   (s) => [s.cart.items.length, s.theme.resolvedTheme] as const,
+ *   shallow
+ * )
+ *
+ * @example
+ * // With compute
+ * const checkout = combineStores(
+ *   { cart: useCartStore, session: useSessionStore },
+ *   ({ cart, session }) => ({ total: cart.total, canPay: session.user !== null }),
+ *   shallow
+ * )
+ */
+export const combineStores = <M extends StoreMap, U = CombinedState<M>>(
+  stores: M,
+  compute: (state: CombinedState<M>) => U = (state) => state as unknown as U,
+  equalityFn: EqualityFn<U> = Object.is
+): DerivedStoreApi<U> => {
+  const keys = Object.keys(stores) as Array<keyof M & string>
+
+  /**
+   * Returns a snapshot builder that keeps the previous snapshot while
+   * every input state is the same.
+   */
+  const createSnapshot = (read: (store: ReadonlyStoreApi<unknown>) => unknown) => {
+    let snapshot: CombinedState<M> | undefined
+
+    return (): CombinedState<M> => {
+      const unchanged =
+        snapshot !== undefined &&
+        keys.every((key) => Object.is(read(stores[key] as M[typeof key]), snapshot?.[key]))
+      if (unchanged) return snapshot as CombinedState<M>
+
+      const next = {} as CombinedState<M>
+      for (const key of keys) {
+        next[key] = read(stores[key] as M[typeof key]) as CombinedState<M>[typeof key]
+      }
+      snapshot = next
+      return next
+    }
+  }
+
+  const snapshot = createSnapshot((store) => store.getState())
+  const initialSnapshot = createSnapshot((store) => store.getInitialState())
+  const project = memoizeProjection(compute, equalityFn)
+  const projectInitial = memoizeProjection(compute, equalityFn)
+
+  const getState = (): U => project(snapshot())
+
+  const subscribe = createLazySubscribe(getState, (onChange) => {
+    const unsubscribes = keys.map((key) =>
+      (stores[key] as M[typeof key]).subscribe((_state, _previousState, action) =>
+        onChange(action)
+      )
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  })
+
+  return {
+    getState,
+    getInitialState: () => projectInitial(initialSnapshot()),
+    subscribe: withSelectorSubscribe(getState, subscribe),
+  }
+}
@@ -34,7 +34,37 @@
  */
 
 // Main exports
-export { create, useStore, createStore, shallow } from './react'
+export {
+  create,
+  useStore,
+  createStore,
+  batch,
+  resetAllStores,
+  shallow,
+} from './react'
+
+// Derived stores
+export { deriveStore, combineStores } from './react'
+export type { DerivedStoreApi, StoreMap, CombinedState } from './react'
+
+// Registry
+export {
+  registerStore,
+  listStores,
+  getStore,
+  onStoreCreated,
+  onStoreRemoved,
+  snapshotAll,
+  resetAll,
+  destroyAll,
+} from './react'
+export type {
+  RegistryOptions,
+  RegisteredStore,
+  RegistryFilter,
+  StoreCreatedListener,
+  StoreRemovedListener,
+} from './react'
 
 // Type exports
 export type {
@@ -51,4 +81,16 @@ export type {
   SetState,
   GetState,
   Subscribe,
+  Batch,
+  ActionDescriptor,
+  ActionInput,
+  UpdateOrigin,
+  StoreOptions,
+  ListenerErrorContext,
+  ListenerErrorHandler,
+  NotificationMode,
+  Reset,
+  ApplyPatches,
+  JsonPatch,
+  JsonPatchOperation,
 } from './types'
@@ -0,0 +1,311 @@
+/**
+ * Async actions for zustand-lite.
+ *
+ * Wraps async work in an action that tracks its status in state,
+ * passes an AbortSignal and applies a concurrency policy.
+ *
+ * @module middleware/asyncAction
+ */
+
+import type { StoreApi, ActionInput } from '../types'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Lifecycle status of an async action.
+ */
+export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error'
+
+/**
+ * Tracked state of an async action.
+ *
+ * @template R - Result type
+ */
+export interface AsyncActionState<R = unknown> {
+  status: AsyncStatus
+  /** Error of the last failed run (cleared when a run starts) */
+  error: unknown
+  /** Result of the last successful run */
+  lastResult: R | undefined
+}
+
+/**
+ * Async action states keyed by action name.
+ */
+export type AsyncStatusMap = Record<string, AsyncActionState>
+
+/**
+ * State shape that holds async action states.
+ * Add it to the store's state type to select statuses.
+ */
+export interface WithAsyncStatus {
+  asyncStatus?: AsyncStatusMap
+}
+
+/**
+ * How calls made while a run is in flight are handled.
+ *
+ * - `takeEvery` - runs every call concurrently
+ * - `takeLatest` - aborts the running call and starts the new one
+ * - `exhaust` - ignores new calls until the running one settles
+ * - `queue` - runs calls one after another
+ */
+export type ConcurrencyPolicy = 'takeEvery' | 'takeLatest' | 'exhaust' | 'queue'
+
+/**
+ * Options for asyncAction.
+ */
+export interface AsyncActionOptions {
+  /**
+   * Concurrency policy.
+   * @default 'takeEvery'
+   */
+  policy?: ConcurrencyPolicy
+}
+
+/**
+ * Context passed to the async effect.
+ */
+export interface AsyncActionContext {
+  /** Aborted when the run is cancelled or superseded */
+  signal: AbortSignal
+}
+
+/**
+ * Async effect wrapped by asyncAction.
+ *
+ * @template A - Argument types
+ * @template R - Result type
+ */
+export type AsyncEffect<A extends unknown[], R> = (
+  context: AsyncActionContext,
+  ...args: A
+) => Promise<R>
+
+/**
+ * Store API accepted by asyncAction.
+ * Only the parts it uses, so APIs changed by middleware (immer) fit too.
+ */
+export type AsyncActionStore = Pick<
+  StoreApi<unknown>,
+  'getState' | 'isDestroyed' | 'onDestroy'
+> & {
+  setState: (partial: never, replace: false, action: ActionInput) => void
+}
+
+/**
+ * Action returned by asyncAction.
+ *
+ * Resolves with the result, or with undefined when the run failed, was
+ * cancelled or was ignored by the policy. It never rejects: failures are
+ * tracked in the action state.
+ *
+ * @template A - Argument types
+ * @template R - Result type
+ */
+export type AsyncAction<A extends unknown[], R> = ((
+  ...args: A
+) => Promise<R | undefined>) & {
+  /** Aborts running calls and drops queued ones */
+  abort: () => void
+}
+
+// ============================================================
+// STATUS HELPERS
+// ============================================================
+
+/** State of an action that has never run */
+const IDLE_STATE: AsyncActionState<never> = Object.freeze({
+  status: 'idle',
+  error: undefined,
+  lastResult: undefined,
+})
+
+/**
+ * Reads the state of an async action.
+ * Returns a stable idle state for actions that have never run, so it is
+ * safe to use in selectors.
+ *
+ * @template R - Result type
+ * @param state - Store state
+ * @param name - Action name
+ * @returns The action state
+ *
+ * @example
+ * const { status, error } = useStore((s) => getAsyncStatus(s, 'fetchProducts'))
+ */
+export const getAsyncStatus = <R = unknown>(
+  state: unknown,
+  name: string
+): AsyncActionState<R> =>
+  ((state as WithAsyncStatus | undefined)?.asyncStatus?.[name] as
+    | AsyncActionState<R>
+    | undefined) ?? IDLE_STATE
+
+// ============================================================
+// IMPLEMENTATION
+// ============================================================
+
+/**
+ * Creates an async action with status tracking and cancellation.
+ *
+ * The action's state lives at `state.asyncStatus[name]` and is updated
+ * through `api.setState` as `<name>/start`, `<name>/success`,
+ * `<name>/failure` and `<name>/abort` actions, so devtools shows each step.
+ * Running calls are aborted when the store is destroyed.
+ *
+ * @template A - Argument types
+ * @template R - Result type
+ * @param api - Store API (third argument of the state creator)
+ * @param name - Action name, used as status key and action prefix
+ * @param effect - Async work; receives `{ signal }` and the call arguments
+ * @param options - Concurrency policy
+ * @returns The async action
+ *
+ * @example
+ * interface ProductsState extends WithAsyncStatus {
+ *   products: Product[]
+ *   fetchProducts: AsyncAction<[query: string], Product[]>
+ * }
+ *
+ * const useProducts = create<ProductsState>()((set, get, api) => ({
+ *   products: [],
+ *   fetchProducts: asyncAction(
+ *     api,
+ *     'fetchProducts',
+ *     async ({ signal }, query) => {
+ *       const response = await fetch(`/api/products?q=${query}`, { signal })
+ *       const products: Product[] = await response.json()
+ *       set({ products })
+ *       return products
+ *     },
+ *     { policy: 'takeLatest' }
+ *   ),
+ * }))
+ *
+ * // In a component
+ * const status = useProducts((s) => getAsyncStatus(s, 'fetchProducts').status)
+ */
+export const asyncAction = <A extends unknown[], R>(
+  api: AsyncActionStore,
+  name: string,
+  effect: AsyncEffect<A, R>,
+  options: AsyncActionOptions = {}
+): AsyncAction<A, R> => {
+  const { policy = 'takeEvery' } = options
+
+  /** Controllers of runs in flight */
+  const running = new Set<AbortController>()
+
+  /** Bumped by abort() so queued calls know they were dropped */
+  let generation = 0
+
+  /** Settles when the last queued call settles */
+  let queueTail: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Merges a patch into this action's state.
+   */
+  const updateState = (
+    patch: Partial<AsyncActionState<R>>,
+    step: string,
+    payload?: unknown
+  ): void => {
+    if (api.isDestroyed()) return
+
+    const state = api.getState() as WithAsyncStatus
+    const nextState: AsyncActionState<R> = {
+      ...getAsyncStatus<R>(state, name),
+      ...patch,
+    }
+
+    const setState = api.setState as StoreApi<WithAsyncStatus>['setState']
+    setState(
+      { asyncStatus: { ...state.asyncStatus, [name]: nextState } },
+      false,
+      { type: `${name}/${step}`, payload }
+    )
+  }
+
+  /**
+   * Runs the effect once. Superseded or aborted runs leave the state
+   * to whichever call replaced them.
+   */
+  const run = async (args: A): Promise<R | undefined> => {
+    const controller = new AbortController()
+    running.add(controller)
+    updateState({ status: 'pending', error: undefined }, 'start', args)
+
+    try {
+      const result = await effect({ signal: controller.signal }, ...args)
+      if (controller.signal.aborted) return undefined
+
+      running.delete(controller)
+      updateState(
+        { status: running.size > 0 ? 'pending' : 'success', lastResult: result },
+        'success',
+        result
+      )
+      return result
+    } catch (error) {
+      if (controller.signal.aborted) return undefined
+
+      running.delete(controller)
+      updateState(
+        { status: running.size > 0 ? 'pending' : 'error', error },
+        'failure',
+        error
+      )
+      return undefined
+    } finally {
+      running.delete(controller)
+    }
+  }
+
+  /**
+   * Aborts every run in flight.
+   */
+  const abortRunning = (): void => {
+    running.forEach((controller) => controller.abort())
+    running.clear()
+  }
+
+  const action = (...args: A): Promise<R | undefined> => {
+    switch (policy) {
+      case 'takeLatest':
+        abortRunning()
+        return run(args)
+
+      case 'exhaust':
+        return running.size > 0 ? Promise.resolve(undefined) : run(args)
+
+      case 'queue': {
+        const queuedGeneration = generation
+        const result = queueTail.then(() =>
+          queuedGeneration === generation ? run(args) : undefined
+        )
+        queueTail = result
+        return result
+      }
+
+      default:
+        return run(args)
+    }
+  }
+
+  action.abort = (): void => {
+    generation++
+    const wasRunning = running.size > 0
+    abortRunning()
+    if (wasRunning) {
+      updateState({ status: 'idle' }, 'abort')
+    }
+  }
+
+  // Nothing should settle into a destroyed store
+  api.onDestroy(action.abort)
+
+  return action
+}
@@ -0,0 +1,351 @@
+/**
+ * Broadcast middleware for zustand-lite.
+ *
+ * Keeps a store in sync across browser tabs (and workers) through
+ * `BroadcastChannel`: local updates are published, remote updates are
+ * applied without being published again, and a new tab asks its peers
+ * for the current state. Without `BroadcastChannel` the store works as
+ * a plain local store.
+ *
+ * @module middleware/broadcast
+ */
+
+import type {
+  StateCreator,
+  StoreMutatorIdentifier,
+  ActionDescriptor,
+  JsonPatch,
+} from '../types'
+import type { PersistApi } from './persist'
+import { omitAccessors } from '../utils/accessors'
+import { applyJsonPatch, createJsonPatch } from '../utils/jsonPatch'
+import { shallow } from '../utils/shallow'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Broadcast middleware options.
+ *
+ * @template T - Store state type
+ * @template P - Shared state type (the result of `partialize`)
+ */
+export interface BroadcastOptions<T, P = Partial<T>> {
+  /** Channel name; stores with the same name share their state */
+  name: string
+
+  /**
+   * Select the state to share (defaults to every data key).
+   * Must be structured-cloneable: no functions.
+   */
+  partialize?: (state: T) => P
+
+  /**
+   * `state` publishes the whole shared state on every update;
+   * `patch` publishes a JSON Patch of the change.
+   * @default 'state'
+   */
+  mode?: 'state' | 'patch'
+
+  /**
+   * Ask peers for their state on startup and apply the first answer.
+   * @default true
+   */
+  syncOnStart?: boolean
+}
+
+/**
+ * API added to store by broadcast middleware.
+ */
+export interface BroadcastApi {
+  broadcast: {
+    /** Whether the store is connected to a channel */
+    isConnected: () => boolean
+    /** Ask peers for their state and apply the first answer */
+    sync: () => void
+    /** Leave the channel; the store keeps working locally */
+    close: () => void
+  }
+}
+
+/**
+ * Message exchanged between peers.
+ */
+type BroadcastMessage =
+  | { kind: 'state'; source: string; state: unknown; action?: string }
+  | { kind: 'patch'; source: string; patch: JsonPatch; action?: string }
+  | { kind: 'request'; source: string }
+  | { kind: 'reply'; source: string; target: string; state: unknown }
+
+// Register mutator type
+declare module '../types' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    'zustand-lite/broadcast': S & BroadcastApi
+  }
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/**
+ * Update origins that are not published: updates received from peers,
+ * and storage rehydration (every tab reads the same storage).
+ */
+const UNSHARED_ORIGINS: ReadonlySet<string> = new Set(['broadcast', 'rehydrate'])
+
+/** Message kinds this middleware sends */
+const MESSAGE_KINDS: ReadonlySet<unknown> = new Set(['state', 'patch', 'request', 'reply'])
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Returns the data of a state: no actions, no getters.
+ */
+const toData = (state: unknown): unknown => {
+  const data = omitAccessors(state)
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return data
+
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value !== 'function') result[key] = value
+  }
+  return result
+}
+
+/**
+ * Checks that channel data is a message of this middleware. Other code
+ * may post anything on a channel with the same name.
+ */
+const isBroadcastMessage = (data: unknown): data is BroadcastMessage =>
+  typeof data === 'object' &&
+  data !== null &&
+  typeof (data as { source?: unknown }).source === 'string' &&
+  MESSAGE_KINDS.has((data as { kind?: unknown }).kind)
+
+/**
+ * Creates an id telling this store's messages apart from its peers'.
+ */
+const createPeerId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+type Broadcast = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+  P = Partial<T>,
+>(
+  initializer: StateCreator<T, [...Mps, ['zustand-lite/broadcast', never]], Mcs>,
+  options: BroadcastOptions<T, P>
+) => StateCreator<T, Mps, [['zustand-lite/broadcast', never], ...Mcs]>
+
+type BroadcastImpl = (
+  initializer: StateCreator<unknown, [], []>,
+  options: BroadcastOptions<unknown, unknown>
+) => StateCreator<unknown, [], []>
+
+/**
+ * Broadcast middleware implementation.
+ */
+const broadcastImpl: BroadcastImpl = (initializer, options) => (set, get, api) => {
+  const { name, partialize = toData, mode = 'state', syncOnStart = true } = options
+  const broadcastApi = api as typeof api & BroadcastApi
+
+  // Without BroadcastChannel (SSR, old browsers) the store stays local
+  if (typeof BroadcastChannel === 'undefined') {
+    broadcastApi.broadcast = {
+      isConnected: () => false,
+      sync: () => {},
+      close: () => {},
+    }
+    return initializer(set, get, api)
+  }
+
+  const channel = new BroadcastChannel(name)
+  const peerId = createPeerId()
+  let connected = true
+  /** Whether an answer to our state request is still expected */
+  let awaitingState = false
+  /** Whether the state was updated (locally, by a peer or by rehydration) */
+  let hasUpdated = false
+  let hasReportedPostError = false
+
+  /**
+   * Posts a message. Failures (DataCloneError for state that cannot be
+   * cloned) are reported once through onError, not on every update.
+   */
+  const post = (message: BroadcastMessage): void => {
+    if (!connected) return
+    try {
+      channel.postMessage(message)
+    } catch (error) {
+      if (hasReportedPostError) return
+      hasReportedPostError = true
+      api.reportError(error)
+    }
+  }
+
+  /**
+   * Whether this store has state worth sharing: a fresh store would
+   * answer a new peer with its initial state.
+   */
+  const canReply = (): boolean =>
+    hasUpdated || ((api as Partial<PersistApi<unknown>>).persist?.hasHydrated() ?? false)
+
+  /**
+   * Applies shared state received from a peer.
+   */
+  const applyRemote = (state: unknown, action: ActionDescriptor): void => {
+    set(state as never, false, action)
+  }
+
+  const onMessage = (event: MessageEvent<unknown>): void => {
+    const message = event.data
+    if (!isBroadcastMessage(message) || message.source === peerId) return
+
+    switch (message.kind) {
+      case 'state':
+        awaitingState = false
+        applyRemote(message.state, {
+          type: 'broadcast/update',
+          payload: message.action,
+          origin: 'broadcast',
+        })
+        break
+
+      case 'patch':
+        awaitingState = false
+        try {
+          applyRemote(applyJsonPatch(partialize(get()), message.patch), {
+            type: 'broadcast/update',
+            payload: message.action,
+            origin: 'broadcast',
+          })
+        } catch {
+          // Out of sync with the sender: fetch the whole state instead
+          sync()
+        }
+        break
+
+      case 'request':
+        if (!canReply()) return
+        post({ kind: 'reply', source: peerId, target: message.source, state: partialize(get()) })
+        break
+
+      case 'reply':
+        if (message.target !== peerId || !awaitingState) return
+        awaitingState = false
+        applyRemote(message.state, { type: 'broadcast/sync', origin: 'broadcast' })
+        break
+    }
+  }
+
+  /**
+   * Asks peers for their state; the first reply is applied.
+   */
+  const sync = (): void => {
+    if (!connected) return
+    awaitingState = true
+    post({ kind: 'request', source: peerId })
+  }
+
+  const close = (): void => {
+    if (!connected) return
+    connected = false
+    awaitingState = false
+    channel.removeEventListener('message', onMessage as EventListener)
+    channel.close()
+  }
+
+  channel.addEventListener('message', onMessage as EventListener)
+
+  // Publish local updates; remote ones are applied without echoing back
+  api.subscribe((state, previousState, action) => {
+    hasUpdated = true
+    if (action?.origin !== undefined && UNSHARED_ORIGINS.has(action.origin)) return
+
+    const shared = partialize(state)
+    const previousShared = partialize(previousState)
+    if (shallow(shared, previousShared)) return
+
+    // A local change is newer than anything a peer could still answer
+    awaitingState = false
+
+    if (mode === 'patch') {
+      const patch = createJsonPatch(previousShared, shared)
+      if (patch.length > 0) {
+        post({ kind: 'patch', source: peerId, patch, action: action?.type })
+      }
+      return
+    }
+
+    post({ kind: 'state', source: peerId, state: shared, action: action?.type })
+  })
+
+  api.onDestroy(close)
+
+  broadcastApi.broadcast = {
+    isConnected: () => connected,
+    sync,
+    close,
+  }
+
+  const initialState = initializer(set, get, api)
+
+  if (syncOnStart) {
+    sync()
+  }
+
+  return initialState
+}
+
+/**
+ * Broadcast middleware.
+ *
+ * Publishes every local update over a `BroadcastChannel` named `name`
+ * and applies updates from other tabs as `broadcast/update`. Remote
+ * updates and rehydration are not published again. On startup the store
+ * asks its peers for their state and applies the first reply as
+ * `broadcast/sync`. A store answers only once it has been updated or
+ * rehydrated, so a fresh tab never overwrites a peer with its initial
+ * state. Messages that are not from this middleware are ignored, and a
+ * failure to post (state that cannot be cloned) is reported once
+ * through `onError`.
+ *
+ * By default every data key is shared; `partialize` narrows it (keep UI
+ * state like open dialogs per tab). In `patch` mode only JSON Patch
+ * diffs are sent; a peer that cannot apply one requests the full state.
+ *
+ * Combine with persist so a reload starts from storage and a new tab
+ * from its peers.
+ *
+ * @example
+ * const useCartStore = create<CartState>()(
+ *   broadcast(
+ *     persist(
+ *       (set) => ({
+ *         items: [],
+ *         isOpen: false,
+ *         addItem: (item) => set((s) => ({ items: [...s.items, item] })),
+ *       }),
+ *       { name: 'cart-storage' }
+ *     ),
+ *     { name: 'cart', partialize: (s) => ({ items: s.items }) }
+ *   )
+ * )
+ *
+ * @example
+ * // Large states: send diffs only
+ * broadcast(creator, { name: 'board', mode: 'patch' })
+ */
+export const broadcast = broadcastImpl as unknown as Broadcast
+
+export type { Broadcast }
@@ -0,0 +1,171 @@
+/**
+ * Computed middleware for zustand-lite.
+ *
+ * Declares derived fields that are recomputed only when their
+ * dependencies change. Fields are memoized getters on the state, so they
+ * are read like any other field and kept out of persist and DevTools.
+ *
+ * @module middleware/computed
+ */
+
+import type { StateCreator, StoreMutatorIdentifier } from '../types'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Definition of a single derived field.
+ *
+ * @template T - Full state type (including derived fields)
+ * @template V - Derived value type
+ */
+export interface ComputedField<T, V> {
+  /**
+   * Returns the inputs of the field. The value is recomputed only when
+   * one of them changes (compared with Object.is).
+   */
+  deps: (state: T) => ReadonlyArray<unknown>
+  /** Computes the value. Should read only what `deps` returns. */
+  compute: (state: T) => V
+}
+
+/**
+ * Derived field definitions, keyed by field name.
+ *
+ * @template T - Full state type (including derived fields)
+ * @template K - Keys of the derived fields
+ */
+export type ComputedDefinitions<T, K extends keyof T = keyof T> = {
+  [P in K]: ComputedField<T, T[P]>
+}
+
+/**
+ * Computed middleware type.
+ * The initializer returns the state without the derived fields.
+ *
+ * @template T - Full state type (including derived fields)
+ * @template K - Keys of the derived fields
+ * @template Mps - Middleware input mutators
+ * @template Mcs - Middleware output mutators
+ */
+type Computed = <
+  T,
+  K extends keyof T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, Mps, Mcs, Omit<T, K>>,
+  definitions: ComputedDefinitions<T, K>
+) => StateCreator<T, Mps, Mcs>
+
+type ComputedImpl = (
+  initializer: StateCreator<object, [], [], object>,
+  definitions: Record<string, ComputedField<object, unknown>>
+) => StateCreator<object, [], []>
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+/**
+ * Checks whether two dependency lists are equal item by item.
+ */
+const depsEqual = (
+  a: ReadonlyArray<unknown>,
+  b: ReadonlyArray<unknown>
+): boolean => a.length === b.length && a.every((dep, i) => Object.is(dep, b[i]))
+
+/**
+ * Creates a memoized getter for a derived field.
+ * The getter reads `this`, so it works on whichever state object the
+ * store copies it to.
+ */
+const createMemoizedGetter = (
+  field: ComputedField<object, unknown>
+): ((this: object) => unknown) => {
+  let lastDeps: ReadonlyArray<unknown> | undefined
+  let lastValue: unknown
+
+  return function (this: object) {
+    const deps = field.deps(this)
+    if (lastDeps === undefined || !depsEqual(lastDeps, deps)) {
+      lastValue = field.compute(this)
+      lastDeps = deps
+    }
+    return lastValue
+  }
+}
+
+/**
+ * Computed middleware implementation.
+ */
+const computedImpl: ComputedImpl = (initializer, definitions) =>
+  (set, get, api) => {
+    const state = initializer(set, get, api)
+
+    // Copy descriptors so getters written in the initializer survive too
+    const stateWithComputed = Object.defineProperties(
+      {},
+      Object.getOwnPropertyDescriptors(state)
+    ) as object
+
+    for (const key of Object.keys(definitions)) {
+      Object.defineProperty(stateWithComputed, key, {
+        get: createMemoizedGetter(definitions[key] as ComputedField<object, unknown>),
+        enumerable: true,
+        configurable: true,
+      })
+    }
+
+    return stateWithComputed
+  }
+
+/**
+ * Computed middleware.
+ *
+ * Adds derived fields declared from their dependencies. Each field is
+ * recomputed only when a dependency changes and is read like regular state:
+ * `getState().total`, `useStore((s) => s.total)`.
+ *
+ * Derived fields are getters, so the store keeps them across every update,
+ * writes to them are ignored, and persist and devtools leave them out.
+ *
+ * @example
+ * interface CartState {
+ *   items: CartItem[]
+ *   addItem: (item: CartItem) => void
+ * }
+ * interface CartComputed {
+ *   total: number
+ * }
+ *
+ * const useCartStore = create<CartState & CartComputed>()(
+ *   computed(
+ *     (set) => ({
+ *       items: [],
+ *       addItem: (item) => set((s) => ({ items: [...s.items, item] })),
+ *     }),
+ *     {
+ *       total: {
+ *         deps: (s) => [s.items],
+ *         compute: (s) => s.items.reduce((sum, i) => sum + i.price, 0),
+ *       },
+ *     }
+ *   )
+ * )
+ *
+ * const total = useCartStore((s) => s.total)
+ *
+ * @example
+ * // With persist: derived fields are never written to storage
+ * const useStore = create<CartState & CartComputed>()(
+ *   persist(
+ *     computed((set) => ({ ... }), { total: { ... } }),
+ *     { name: 'cart' }
+ *   )
+ * )
+ */
+export const computed = computedImpl as unknown as Computed
+
+export type { Computed }
@@ -12,6 +12,8 @@ import type {
   StoreApi,
   StoreMutatorIdentifier,
 } from '../types'
+import { omitAccessors } from '../utils/accessors'
+import type { JSONCodec } from '../utils/codec'
 
 // ============================================================
 // TYPES
@@ -51,10 +53,16 @@ export interface DevtoolsOptions {
   /** Action type for anonymous state changes */
   anonymousActionType?: string
 
-  /** Custom serialization options */
+  /**
+   * Custom serialization options. `replacer` is used by the extension
+   * when it serializes states; `reviver` when time travel restores them.
+   * Pass `taggedCodec` to keep `Date`, `Map`, `Set` and friends intact.
+   */
   serialize?:
     | boolean
     | {
+        replacer?: JSONCodec['replacer']
+        reviver?: JSONCodec['reviver']
         options?:
           | boolean
           | {
@@ -158,8 +166,12 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
     latency = DEFAULT_LATENCY,
     stateSanitizer,
     actionSanitizer,
+    serialize,
   } = options
 
+  /** Reviver for states sent back by time travel */
+  const reviver = typeof serialize === 'object' ? serialize.reviver : undefined
+
   // Get extension
   const extension = enabled ? getExtension() : undefined
 
@@ -206,7 +218,8 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
       action = actionSanitizer(action)
     }
 
-    let state = get()
+    // Derived fields (getters) would only add noise to diffs
+    let state = omitAccessors(get())
     if (stateSanitizer) {
       state = stateSanitizer(state) as typeof state
     }
@@ -214,8 +227,9 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
     devtools.send(action as { type: string; payload: unknown }, state)
   }
 
-  // Track unsubscribe function for cleanup
+  // Track unsubscribe functions for cleanup
   let devtoolsUnsubscribe: (() => void) | undefined
+  let storeUnsubscribe: (() => void) | undefined
 
   // DevTools API
   const devtoolsApi: DevtoolsApi = {
@@ -227,8 +241,8 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
         devtoolsUnsubscribe?.()
         // Disconnect from DevTools extension
         devtools.unsubscribe()
-        // Restore original setState to prevent memory leaks
-        api.setState = originalSetState
+        // Stop reporting state changes to prevent memory leaks
+        storeUnsubscribe?.()
       },
     },
   }
@@ -237,22 +251,21 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
   const storeWithDevtools = api as StoreApi<unknown> & DevtoolsApi
   Object.assign(storeWithDevtools, devtoolsApi)
 
-  // Wrap setState to track actions
+  // Disconnect when the store is destroyed
+  api.onDestroy(devtoolsApi.devtools.disconnect)
+
+  // Report state changes as they reach listeners.
+  // Subscribing (instead of wrapping setState) also covers updates made
+  // through `set` inside the initializer, and a batch arrives here as a
+  // single notification, so it shows up as a single action.
   const originalSetState = api.setState.bind(api)
-  api.setState = ((partial: unknown, replace?: boolean) => {
-    if (replace === true) {
-      const setStateReplace = originalSetState as (state: unknown, replace: true) => void
-      setStateReplace(partial, true)
-    } else {
-      const setStatePartial = originalSetState as (partial: unknown, replace?: false) => void
-      setStatePartial(partial, replace as false | undefined)
-    }
+  storeUnsubscribe = api.subscribe((_state, _previousState, action) => {
+    // Time-travel updates are already reflected in DevTools
+    if (isUpdatingFromDevtools || action?.origin === 'devtools') return
 
-    if (!isUpdatingFromDevtools) {
-      // Use anonymousActionType for all unnamed setState calls
-      sendAction(anonymousActionType)
-    }
-  }) as typeof api.setState
+    // Use anonymousActionType for unnamed state changes
+    sendAction(action?.type ?? anonymousActionType, action?.payload)
+  })
 
   // Subscribe to DevTools messages (time-travel, etc.)
   // Store unsubscribe to prevent memory leaks
@@ -261,14 +274,19 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
     if (message.type === 'DISPATCH') {
       switch (message.payload?.type) {
         case 'RESET':
-          // Reset to initial state
-          originalSetState(api.getInitialState() as never, true)
-          devtools.init(api.getState())
+          // Reset to initial state, keeping the current actions
+          try {
+            isUpdatingFromDevtools = true
+            api.reset()
+          } finally {
+            isUpdatingFromDevtools = false
+          }
+          devtools.init(omitAccessors(api.getState()))
           break
 
         case 'COMMIT':
           // Commit current state
-          devtools.init(api.getState())
+          devtools.init(omitAccessors(api.getState()))
           break
 
         case 'ROLLBACK':
@@ -276,8 +294,11 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
           if (message.state) {
             try {
               isUpdatingFromDevtools = true
-              const state = JSON.parse(message.state)
-              originalSetState(state, true)
+              const state = JSON.parse(message.state, reviver)
+              originalSetState(state, true, {
+                type: message.payload.type,
+                origin: 'devtools',
+              })
             } catch (error) {
               devtools.error(`Failed to parse state: ${error instanceof Error ? error.message : 'Unknown error'}`)
             } finally {
@@ -292,8 +313,11 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
           if (message.state) {
             try {
               isUpdatingFromDevtools = true
-              const state = JSON.parse(message.state)
-              originalSetState(state, true)
+              const state = JSON.parse(message.state, reviver)
+              originalSetState(state, true, {
+                type: message.payload.type,
+                origin: 'devtools',
+              })
             } catch (error) {
               devtools.error(`Failed to parse state: ${error instanceof Error ? error.message : 'Unknown error'}`)
             } finally {
@@ -311,7 +335,7 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
   // Send initial state to DevTools
   if (!isInitialized) {
     isInitialized = true
-    let state = get()
+    let state = omitAccessors(get())
     if (stateSanitizer) {
       state = stateSanitizer(state) as typeof state
     }
@@ -338,14 +362,16 @@ const devtoolsImpl: DevtoolsImpl = (initializer, options = {}) => (set, get, api
  * )
  *
  * @example
- * // Sending named actions
+ * // Naming actions through set
  * const useStore = create(
- *   devtools((set, get, api) => ({
+ *   devtools((set) => ({
  *     count: 0,
- *     increment: () => {
- *       set((s) => ({ count: s.count + 1 }))
- *       api.devtools.send('increment', { amount: 1 })
- *     },
+ *     increment: () => set((s) => ({ count: s.count + 1 }), false, 'increment'),
+ *     add: (amount: number) =>
+ *       set((s) => ({ count: s.count + amount }), false, {
+ *         type: 'add',
+ *         payload: { amount },
+ *       }),
  *   }))
  * )
  */
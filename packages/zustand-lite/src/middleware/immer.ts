@@ -10,11 +10,11 @@
 import { produce, type Draft } from 'immer'
 import type {
   StateCreator,
-  StoreApi,
   StoreMutatorIdentifier,
   Write,
   Cast,
   Get,
+  ActionInput,
 } from '../types'
 
 // ============================================================
@@ -32,11 +32,13 @@ type SetStateImmer<T> = {
       | T
       | Partial<T>
       | ((draft: Draft<T>) => void | T | Partial<T>),
-    replace?: false
+    replace?: false,
+    action?: ActionInput
   ): void
   (
     state: T | ((draft: Draft<T>) => T),
-    replace: true
+    replace: true,
+    action?: ActionInput
   ): void
 }
 
@@ -45,7 +47,7 @@ declare module '../types' {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   interface StoreMutators<S, A> {
     'zustand-lite/immer': Write<
-      Cast<S, StoreApi<unknown>>,
+      S,
       {
         setState: SetStateImmer<Cast<Get<S, 'getState', never> extends () => infer T ? T : never, object>>
       }
@@ -76,7 +78,7 @@ const immerImpl: ImmerImpl = (initializer) => (set, get, api) => {
   /**
    * Wrapped setState that uses Immer's produce for function updaters.
    */
-  const setWithImmer: typeof set = (partial, replace) => {
+  const setWithImmer: typeof set = (partial, replace, action) => {
     // If partial is a function, wrap with produce
     if (typeof partial === 'function') {
       const updater = partial as (draft: Draft<unknown>) => void | unknown
@@ -89,11 +91,12 @@ const immerImpl: ImmerImpl = (initializer) => (set, get, api) => {
             return result as never
           }
         }) as never,
-        replace as never
+        replace as never,
+        action
       )
     } else {
       // Non-function partials are passed through
-      set(partial, replace as never)
+      set(partial, replace as never, action)
     }
   }
 
@@ -4,11 +4,19 @@
  * @module middleware
  *
  * @example
- * import { persist, devtools, immer, combine, subscribeWithSelector } from 'zustand-lite/middleware'
+ * import { persist, devtools, immer, combine, computed, subscribeWithSelector } from 'zustand-lite/middleware'
  */
 
-export { persist, createJSONStorage } from './persist'
-export type { PersistOptions, PersistStorage, StorageValue, PersistApi } from './persist'
+export { persist, createJSONStorage, taggedCodec } from './persist'
+export type {
+  PersistOptions,
+  PersistStorage,
+  StorageValue,
+  PersistApi,
+  PersistTransform,
+  JSONStorageOptions,
+  JSONCodec,
+} from './persist'
 
 export { devtools } from './devtools'
 export type { DevtoolsOptions, DevtoolsApi } from './devtools'
@@ -19,8 +27,100 @@ export type { SetStateImmer } from './immer'
 export { combine } from './combine'
 export type { Combine } from './combine'
 
+export { computed } from './computed'
+export type { Computed, ComputedField, ComputedDefinitions } from './computed'
+
+export { createSlice, withSlices, persistSlices } from './slices'
+export type {
+  Slice,
+  SliceCreator,
+  SliceOptions,
+  SliceSetState,
+  SliceMap,
+  SlicesState,
+  WithSlices,
+} from './slices'
+
+export { asyncAction, getAsyncStatus } from './asyncAction'
+export type {
+  AsyncAction,
+  AsyncActionContext,
+  AsyncActionOptions,
+  AsyncActionState,
+  AsyncActionStore,
+  AsyncEffect,
+  AsyncStatus,
+  AsyncStatusMap,
+  ConcurrencyPolicy,
+  WithAsyncStatus,
+} from './asyncAction'
+
+export { patches, applyJsonPatch, createJsonPatch } from './patches'
+export type { Patches, PatchesApi, PatchListener } from './patches'
+
+export { temporal } from './temporal'
+export type {
+  Temporal,
+  TemporalActions,
+  TemporalApi,
+  TemporalOptions,
+  TemporalState,
+  TemporalStoreApi,
+} from './temporal'
+
+export { validate } from './validate'
+export type {
+  InferSchemaState,
+  StandardSchemaIssue,
+  StandardSchemaPathSegment,
+  StandardSchemaResult,
+  StandardSchemaV1,
+  Validate,
+  ValidateOptions,
+  ValidationFailure,
+  ValidationIssue,
+  ValidationSchema,
+  Validator,
+} from './validate'
+
+export { logger, consoleSink, createRingBufferSink, diffState } from './logger'
+export type {
+  ConsoleSinkOptions,
+  LogDiffEntry,
+  LogEntry,
+  Logger,
+  LoggerOptions,
+  LogSink,
+  RingBufferSink,
+} from './logger'
+
+export { scheduler, throttle } from './scheduler'
+export type {
+  Schedule,
+  ScheduleMode,
+  Scheduler,
+  SchedulerApi,
+  SchedulerOptions,
+} from './scheduler'
+
+export { redux } from './redux'
+export type {
+  DispatchFn,
+  Reducer,
+  Redux,
+  ReduxAction,
+  ReduxApi,
+  ReduxEnhancer,
+  ReduxOptions,
+  ReduxState,
+} from './redux'
+
+export { broadcast } from './broadcast'
+export type { Broadcast, BroadcastApi, BroadcastOptions } from './broadcast'
+
 export { subscribeWithSelector } from './subscribeWithSelector'
 export type {
   SubscribeWithSelectorOptions,
   SubscribeWithSelectorFn,
+  SelectorListener,
 } from './subscribeWithSelector'
@@ -0,0 +1,391 @@
+/**
+ * Logger middleware for zustand-lite.
+ *
+ * Logs every update with its action, duration, previous and next state
+ * and a key-level diff, to one or more sinks: the console, an in-memory
+ * ring buffer or any function. Disabled in production by default.
+ *
+ * @module middleware/logger
+ */
+
+import type {
+  StateCreator,
+  StoreApi,
+  StoreMutatorIdentifier,
+  ActionInput,
+  ActionDescriptor,
+  UpdateOrigin,
+} from '../types'
+import { omitAccessors } from '../utils/accessors'
+import { normalizeAction } from '../utils/notify'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Change of one top-level key.
+ */
+export interface LogDiffEntry {
+  /** Changed key */
+  key: string
+  /** Kind of change */
+  kind: 'added' | 'removed' | 'changed'
+  /** Value before the update (undefined when added) */
+  previous: unknown
+  /** Value after the update (undefined when removed) */
+  next: unknown
+}
+
+/**
+ * One logged update.
+ */
+export interface LogEntry {
+  /** Store name from the options */
+  store: string
+  /** Action type (`anonymousActionType` for unnamed updates) */
+  action: string
+  /** Action payload */
+  payload: unknown
+  /** Where the update came from */
+  origin: UpdateOrigin | undefined
+  /** Time of the update (ms since epoch) */
+  timestamp: number
+  /** Time spent in setState, including listeners (ms) */
+  duration: number
+  /** State before the update (redacted, without actions and getters) */
+  previousState: unknown
+  /** State after the update (redacted, without actions and getters) */
+  state: unknown
+  /** Top-level keys that changed */
+  diff: LogDiffEntry[]
+}
+
+/**
+ * Receives logged updates.
+ */
+export type LogSink = (entry: LogEntry) => void
+
+/**
+ * Logger middleware options.
+ *
+ * @template T - State type
+ */
+export interface LoggerOptions<T> {
+  /** Store name shown in log entries */
+  name?: string
+
+  /** Enable/disable logging (defaults to true in development) */
+  enabled?: boolean
+
+  /** Action type for anonymous state changes */
+  anonymousActionType?: string
+
+  /** Log only the updates for which this returns true */
+  filter?: (action: ActionDescriptor | undefined, state: T, previousState: T) => boolean
+
+  /**
+   * Transforms states (without getters) before they are diffed and
+   * logged, e.g. to hide tokens or personal data.
+   */
+  redact?: (state: T) => unknown
+
+  /**
+   * Where entries go.
+   * @default consoleSink()
+   */
+  sink?: LogSink | ReadonlyArray<LogSink>
+}
+
+/**
+ * Console sink options.
+ */
+export interface ConsoleSinkOptions {
+  /**
+   * Collapse each entry's group.
+   * @default true
+   */
+  collapsed?: boolean
+
+  /** Console to write to (defaults to the global console) */
+  console?: Pick<Console, 'log'> & Partial<Pick<Console, 'group' | 'groupCollapsed' | 'groupEnd'>>
+}
+
+/**
+ * Sink keeping the latest entries in memory.
+ */
+export interface RingBufferSink extends LogSink {
+  /** Stored entries, oldest first */
+  entries: () => LogEntry[]
+  /** Drop all stored entries */
+  clear: () => void
+}
+
+// Register mutator type
+declare module '../types' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    'zustand-lite/logger': S
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Returns the data of a redacted state: no actions.
+ */
+const toData = (data: unknown): unknown => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return data
+
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value !== 'function') result[key] = value
+  }
+  return result
+}
+
+/**
+ * Computes the top-level changes between two states.
+ */
+export const diffState = (previous: unknown, next: unknown): LogDiffEntry[] => {
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+  if (!isRecord(previous) || !isRecord(next)) {
+    return Object.is(previous, next)
+      ? []
+      : [{ key: '', kind: 'changed', previous, next }]
+  }
+
+  const diff: LogDiffEntry[] = []
+  for (const key of Object.keys(previous)) {
+    if (!(key in next)) {
+      diff.push({ key, kind: 'removed', previous: previous[key], next: undefined })
+    } else if (!Object.is(previous[key], next[key])) {
+      diff.push({ key, kind: 'changed', previous: previous[key], next: next[key] })
+    }
+  }
+  for (const key of Object.keys(next)) {
+    if (!(key in previous)) {
+      diff.push({ key, kind: 'added', previous: undefined, next: next[key] })
+    }
+  }
+  return diff
+}
+
+/**
+ * Formats a timestamp as `HH:MM:SS.mmm`.
+ */
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp)
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  return (
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `.${pad(date.getMilliseconds(), 3)}`
+  )
+}
+
+/**
+ * Current time in ms, with sub-millisecond precision where available.
+ */
+const now = (): number =>
+  typeof performance !== 'undefined' ? performance.now() : Date.now()
+
+// ============================================================
+// SINKS
+// ============================================================
+
+/**
+ * Creates a sink writing each entry as a console group:
+ * previous state, action, next state and the diff.
+ *
+ * @param options - Console sink options
+ * @returns Console sink
+ *
+ * @example
+ * logger(creator, { sink: consoleSink({ collapsed: false }) })
+ */
+export const consoleSink = (options: ConsoleSinkOptions = {}): LogSink => {
+  const { collapsed = true, console: output = globalThis.console } = options
+
+  return (entry) => {
+    const title =
+      `${entry.store} ${entry.action} @ ${formatTime(entry.timestamp)} ` +
+      `(${entry.duration.toFixed(2)} ms)`
+    const openGroup = collapsed ? output.groupCollapsed : output.group
+    const grouped = openGroup !== undefined && output.groupEnd !== undefined
+
+    if (grouped) {
+      openGroup.call(output, title)
+    } else {
+      output.log(title)
+    }
+
+    output.log('prev state', entry.previousState)
+    output.log('action', { type: entry.action, payload: entry.payload, origin: entry.origin })
+    output.log('next state', entry.state)
+    for (const change of entry.diff) {
+      output.log(`${change.kind} ${change.key}`, change.previous, '→', change.next)
+    }
+
+    if (grouped) {
+      output.groupEnd?.call(output)
+    }
+  }
+}
+
+/**
+ * Creates a sink keeping the latest `capacity` entries in memory,
+ * for tests, bug reports or an in-app log viewer.
+ *
+ * @param capacity - Maximum number of entries (default 100)
+ * @returns Ring buffer sink
+ *
+ * @example
+ * const history = createRingBufferSink(50)
+ * const useStore = create(logger(creator, { sink: history }))
+ *
+ * // Attach to a bug report
+ * report.log = history.entries()
+ */
+export const createRingBufferSink = (capacity = 100): RingBufferSink => {
+  const buffer: LogEntry[] = []
+  /** Index of the oldest entry once the buffer is full */
+  let start = 0
+
+  const sink = ((entry: LogEntry) => {
+    if (capacity <= 0) return
+    if (buffer.length < capacity) {
+      buffer.push(entry)
+    } else {
+      buffer[start] = entry
+      start = (start + 1) % capacity
+    }
+  }) as RingBufferSink
+
+  sink.entries = () => [...buffer.slice(start), ...buffer.slice(0, start)]
+  sink.clear = () => {
+    buffer.length = 0
+    start = 0
+  }
+
+  return sink
+}
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+type Logger = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, [...Mps, ['zustand-lite/logger', never]], Mcs>,
+  options?: LoggerOptions<T>
+) => StateCreator<T, Mps, [['zustand-lite/logger', never], ...Mcs]>
+
+type LoggerImpl = (
+  initializer: StateCreator<unknown, [], []>,
+  options?: LoggerOptions<unknown>
+) => StateCreator<unknown, [], []>
+
+/**
+ * Logger middleware implementation.
+ */
+const loggerImpl: LoggerImpl = (initializer, options = {}) => (set, get, api) => {
+  const {
+    name = 'zustand-lite',
+    enabled = process.env['NODE_ENV'] !== 'production',
+    anonymousActionType = 'anonymous',
+    filter,
+    redact = (state) => state,
+    sink = consoleSink(),
+  } = options
+
+  if (!enabled) {
+    return initializer(set, get, api)
+  }
+
+  const sinks: ReadonlyArray<LogSink> = typeof sink === 'function' ? [sink] : sink
+
+  /**
+   * setState that logs the update after it is applied.
+   */
+  const loggedSet = ((partial: unknown, replace?: boolean, action?: ActionInput) => {
+    const previousState = get()
+    const startedAt = now()
+    set(partial as never, replace as never, action)
+    const duration = now() - startedAt
+    const state = get()
+
+    if (Object.is(previousState, state)) return
+
+    const descriptor = normalizeAction(action)
+    if (filter && !filter(descriptor, state, previousState)) return
+
+    // Getters are dropped first, so they are neither evaluated nor logged
+    const previousData = toData(redact(omitAccessors(previousState)))
+    const data = toData(redact(omitAccessors(state)))
+    const entry: LogEntry = {
+      store: name,
+      action: descriptor?.type ?? anonymousActionType,
+      payload: descriptor?.payload,
+      origin: descriptor?.origin,
+      timestamp: Date.now(),
+      duration,
+      previousState: previousData,
+      state: data,
+      diff: diffState(previousData, data),
+    }
+
+    // The update is already committed: a failing sink must not escape
+    // setState or keep the other sinks from running
+    for (const write of sinks) {
+      try {
+        write(entry)
+      } catch (error) {
+        api.reportError(error, { state, previousState, action: descriptor })
+      }
+    }
+  }) as StoreApi<unknown>['setState']
+
+  api.setState = loggedSet
+
+  return initializer(loggedSet, get, api)
+}
+
+/**
+ * Logger middleware.
+ *
+ * Logs each update made through `set` or `setState` with its action,
+ * duration, previous and next state and a key-level diff. Actions and
+ * getters are left out. Like devtools, it is disabled in production
+ * unless `enabled` is set; a disabled logger adds nothing to the store.
+ *
+ * Place it outside persist to log rehydration too.
+ *
+ * @example
+ * const useCartStore = create<CartState>()(
+ *   logger(
+ *     (set) => ({ ... }),
+ *     {
+ *       name: 'cart',
+ *       filter: (action) => action?.type.startsWith('cart/') ?? false,
+ *       redact: ({ token, ...state }) => state,
+ *     }
+ *   )
+ * )
+ *
+ * @example
+ * // Several sinks
+ * const recent = createRingBufferSink(200)
+ * logger(creator, {
+ *   sink: [consoleSink({ collapsed: true }), recent, (entry) => analytics.track(entry.action)],
+ * })
+ */
+export const logger = loggerImpl as unknown as Logger
+
+export type { Logger }
@@ -0,0 +1,158 @@
+/**
+ * Patches middleware for zustand-lite.
+ *
+ * Emits every state update as a JSON Patch (RFC 6902) computed from the
+ * previous and next state, so any setState style works (no immer needed).
+ * Recorded patches can be replayed with `api.applyPatches` or
+ * `applyJsonPatch`.
+ *
+ * @module middleware/patches
+ */
+
+import type {
+  StateCreator,
+  StoreMutatorIdentifier,
+  ActionDescriptor,
+  JsonPatch,
+} from '../types'
+import { createJsonPatch } from '../utils/jsonPatch'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Listener for the patch stream.
+ * Receives the action behind the update, like a plain listener
+ * (undefined for anonymous updates).
+ *
+ * @param patches - Operations turning the previous state into the new one
+ * @param action - Action that caused the update
+ */
+export type PatchListener = (patches: JsonPatch, action?: ActionDescriptor) => void
+
+/**
+ * API added to store by patches middleware.
+ */
+export interface PatchesApi {
+  patches: {
+    /** Subscribe to the patches of every update */
+    subscribe: (listener: PatchListener) => () => void
+  }
+}
+
+// Register mutator type
+declare module '../types' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    'zustand-lite/patches': S & PatchesApi
+  }
+}
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+type Patches = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, [...Mps, ['zustand-lite/patches', never]], Mcs>
+) => StateCreator<T, Mps, [['zustand-lite/patches', never], ...Mcs]>
+
+type PatchesImpl = <T>(
+  initializer: StateCreator<T, [], []>
+) => StateCreator<T, [], []>
+
+/**
+ * Patches middleware implementation.
+ */
+const patchesImpl: PatchesImpl = (initializer) => (set, get, api) => {
+  const listeners = new Set<PatchListener>()
+  let unsubscribeStore: (() => void) | undefined
+
+  /**
+   * Diffs each update once and hands the patch to every listener.
+   * Updates that change no data (only actions or getters) are skipped.
+   */
+  const onUpdate = (
+    state: unknown,
+    previousState: unknown,
+    action?: ActionDescriptor
+  ): void => {
+    const patches = createJsonPatch(previousState, state)
+    if (patches.length === 0) return
+
+    for (const listener of Array.from(listeners)) {
+      if (action === undefined) {
+        listener(patches)
+      } else {
+        listener(patches, action)
+      }
+    }
+  }
+
+  const subscribe = (listener: PatchListener): (() => void) => {
+    // The store is only diffed while someone listens
+    if (listeners.size === 0) {
+      unsubscribeStore = api.subscribe(onUpdate)
+    }
+    listeners.add(listener)
+
+    return () => {
+      if (!listeners.delete(listener) || listeners.size > 0) return
+      unsubscribeStore?.()
+      unsubscribeStore = undefined
+    }
+  }
+
+  ;(api as typeof api & PatchesApi).patches = { subscribe }
+
+  return initializer(set, get, api)
+}
+
+/**
+ * Patches middleware.
+ *
+ * Adds `api.patches.subscribe`, which streams the JSON Patch (RFC 6902)
+ * of every update: the operations turning `previousState` into `state`.
+ * Unchanged branches (same reference) are not walked, and actions and
+ * getters never appear in patches.
+ *
+ * The store is only diffed while a listener is subscribed, so a log
+ * starts from the state at subscription time: replaying it on that
+ * state (or on `getInitialState()` when subscribed right after creation)
+ * reproduces the current state.
+ *
+ * @example
+ * const useStore = create(
+ *   patches((set) => ({
+ *     todos: [] as string[],
+ *     add: (todo: string) => set((s) => ({ todos: [...s.todos, todo] })),
+ *   }))
+ * )
+ *
+ * const log: JsonPatch[] = []
+ * useStore.patches.subscribe((ops) => log.push(ops))
+ *
+ * useStore.getState().add('write docs')
+ * // log: [[{ op: 'add', path: '/todos/0', value: 'write docs' }]]
+ *
+ * @example
+ * // Replay on another store (e.g. a peer or a test)
+ * useStore.patches.subscribe((ops, action) => otherStore.applyPatches(ops, action))
+ *
+ * @example
+ * // Rebuild the state from the log and the state it started from
+ * const base = useStore.getState()
+ * const log: JsonPatch[] = []
+ * useStore.patches.subscribe((ops) => log.push(ops))
+ * // ...
+ * const replayed = log.reduce(applyJsonPatch, base)
+ */
+export const patches = patchesImpl as unknown as Patches
+
+export { applyJsonPatch, createJsonPatch } from '../utils/jsonPatch'
+
+export type { Patches }
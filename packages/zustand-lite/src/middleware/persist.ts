@@ -12,6 +12,8 @@ import type {
   StoreApi,
   StoreMutatorIdentifier,
 } from '../types'
+import { omitAccessors } from '../utils/accessors'
+import type { JSONCodec } from '../utils/codec'
 
 // ============================================================
 // CONSTANTS
@@ -35,6 +37,12 @@ export interface PersistStorage<T> {
   getItem: (name: string) => T | null | Promise<T | null>
   setItem: (name: string, value: T) => void | Promise<void>
   removeItem: (name: string) => void | Promise<void>
+  /**
+   * Optional: calls `callback` when the stored value changes outside
+   * this store (another process, another tab). Persist rehydrates on
+   * each call. Returns an unsubscribe function.
+   */
+  subscribe?: (name: string, callback: () => void) => () => void
 }
 
 /**
@@ -47,6 +55,30 @@ export interface StorageValue<T> {
   version?: number
 }
 
+/**
+ * Step of the persist transform pipeline: `encode` runs on the persisted
+ * state before it is written, `decode` undoes it after it is read. Both
+ * may be async.
+ *
+ * @template In - Value the transform receives on write
+ * @template Out - Value it hands to the next transform (or the storage)
+ *
+ * @example
+ * const obfuscate: PersistTransform<unknown, string> = {
+ *   encode: (state) => btoa(JSON.stringify(state)),
+ *   decode: (text) => JSON.parse(atob(text)),
+ * }
+ */
+export interface PersistTransform<In = unknown, Out = unknown> {
+  encode(value: In): Out | Promise<Out>
+  decode(value: Out): In | Promise<In>
+}
+
+/**
+ * Options for `createJSONStorage`.
+ */
+export type JSONStorageOptions = Partial<JSONCodec>
+
 /**
  * Configuration options for persist middleware.
  *
@@ -59,19 +91,36 @@ export interface PersistOptions<T, PersistedState = T> {
 
   /**
    * Storage implementation.
-   * Defaults to localStorage wrapper.
+   * Defaults to localStorage wrapper. Failed writes are reported through
+   * the store's `onError`, failed reads to `onRehydrateStorage`.
    */
   storage?: PersistStorage<StorageValue<PersistedState>>
 
   /**
    * Filter which parts of state to persist.
    * Useful for excluding transient state like loading flags.
+   * Receives the state without derived fields (getters).
    *
    * @example
    * partialize: (state) => ({ items: state.items }) // Only persist items
    */
   partialize?: (state: T) => PersistedState
 
+  /**
+   * Transforms applied in order to the persisted state before it is
+   * written (after `partialize`), and in reverse order after it is read
+   * (before `migrate`). The stored `version` is left as is.
+   * A failing `decode` (e.g. a wrong decryption key) is reported to the
+   * `onRehydrateStorage` callback, and writes are skipped until a later
+   * rehydrate decodes the stored value, so it is not overwritten. Errors
+   * from `migrate` or `merge` don't skip writes. A failing `encode` is
+   * reported through the store's `onError`.
+   *
+   * @example
+   * transforms: [compressTransform(), encryptTransform({ key })]
+   */
+  transforms?: ReadonlyArray<PersistTransform>
+
   /**
    * Called when rehydration starts.
    * Returns callback for when rehydration finishes.
@@ -117,6 +166,13 @@ export interface PersistOptions<T, PersistedState = T> {
    * @default 100
    */
   debounceMs?: number
+
+  /**
+   * Remove the stored value on a full `api.reset()` instead of writing
+   * the initial state back. Partial resets are always persisted.
+   * @default false
+   */
+  clearStorageOnReset?: boolean
 }
 
 /**
@@ -157,12 +213,22 @@ declare module '../types' {
 /**
  * Creates a JSON storage wrapper for Web Storage API.
  *
+ * Plain JSON turns `Date`s into strings and `Map`s into `{}`: pass
+ * `taggedCodec` (or your own `replacer`/`reviver`) to keep them.
+ *
  * @param getStorage - Function returning storage (localStorage, sessionStorage)
+ * @param options - `JSON.stringify` replacer and `JSON.parse` reviver
  * @returns PersistStorage implementation
+ *
+ * @example
+ * createJSONStorage(() => localStorage, taggedCodec)
  */
 export function createJSONStorage<T>(
-  getStorage: () => Storage | undefined
+  getStorage: () => Storage | undefined,
+  options: JSONStorageOptions = {}
 ): PersistStorage<T> {
+  const { replacer, reviver } = options
+
   return {
     getItem: (name) => {
       try {
@@ -170,7 +236,7 @@ export function createJSONStorage<T>(
         if (!storage) return null
 
         const str = storage.getItem(name)
-        return str ? (JSON.parse(str) as T) : null
+        return str ? (JSON.parse(str, reviver) as T) : null
       } catch {
         return null
       }
@@ -178,7 +244,7 @@ export function createJSONStorage<T>(
     setItem: (name, value) => {
       try {
         const storage = getStorage()
-        storage?.setItem(name, JSON.stringify(value))
+        storage?.setItem(name, JSON.stringify(value, replacer))
       } catch {
         // Ignore storage errors (quota exceeded, etc.)
       }
@@ -268,6 +334,7 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
       typeof window !== 'undefined' ? localStorage : undefined
     ) as PersistStorage<StorageValue<unknown>>,
     partialize = (state: State) => state as unknown,
+    transforms = [],
     onRehydrateStorage,
     version = 0,
     migrate,
@@ -279,21 +346,82 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
     }),
     skipHydration = false,
     debounceMs = DEFAULT_DEBOUNCE_MS,
+    clearStorageOnReset = false,
   } = options as PersistOptions<State, unknown>
 
+  /**
+   * Runs the persisted state through the transforms, first to last.
+   */
+  const encode = async (value: unknown): Promise<unknown> => {
+    for (const transform of transforms) {
+      value = await transform.encode(value)
+    }
+    return value
+  }
+
+  /**
+   * Undoes the transforms on a stored state, last to first.
+   */
+  const decode = async (value: unknown): Promise<unknown> => {
+    for (let index = transforms.length - 1; index >= 0; index--) {
+      value = await transforms[index]!.decode(value)
+    }
+    return value
+  }
+
   // Hydration state
   let hasHydrated = false
   const hydrateListeners = new Set<(state: unknown) => void>()
   const finishHydrationListeners = new Set<(state: unknown) => void>()
 
+  /** Transformed writes in progress, kept in order */
+  let pendingWrite: Promise<void> = Promise.resolve()
+  /**
+   * Set when stored state could not be read back (e.g. a wrong
+   * decryption key): writing would overwrite it, so transformed writes
+   * wait for a rehydrate that decodes it.
+   */
+  let isWriteBlocked = false
+
+  /**
+   * Runs a storage write, reporting a failure (quota exceeded, aborted
+   * transaction) through the store's onError instead of rejecting.
+   */
+  const settleWrite = (write: () => void | Promise<void>): Promise<void> => {
+    try {
+      return Promise.resolve(write()).catch((error: unknown) => api.reportError(error))
+    } catch (error) {
+      api.reportError(error)
+      return Promise.resolve()
+    }
+  }
+
   // Debounced persist function
   const debouncedSetItem = debounce(
     (state: unknown) => {
-      const persistedValue: StorageValue<unknown> = {
-        state: partialize(state as State),
-        version,
+      // Derived fields (getters) are recomputed, never stored. They are
+      // dropped before partialize, since spreading the state (`({ open,
+      // ...rest }) => rest`) would turn them into plain values
+      const persistedState = partialize(omitAccessors(state as State))
+
+      if (transforms.length === 0) {
+        void settleWrite(() => storage.setItem(name, { state: persistedState, version }))
+        return
       }
-      void storage.setItem(name, persistedValue as StorageValue<unknown>)
+
+      if (isWriteBlocked) return
+
+      pendingWrite = pendingWrite
+        .then(async () => {
+          let encoded: unknown
+          try {
+            encoded = await encode(persistedState)
+          } catch (error) {
+            api.reportError(error)
+            return
+          }
+          await settleWrite(() => storage.setItem(name, { state: encoded, version }))
+        })
     },
     debounceMs
   )
@@ -306,12 +434,23 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
     hydrateListeners.forEach((fn) => fn(get()))
 
     const onRehydrateCallback = onRehydrateStorage?.(get())
+    /** Only an unreadable stored value blocks writes, not migrate or merge */
+    let decodeFailed = false
 
     try {
       const storedValue = await storage.getItem(name)
 
-      if (storedValue) {
+      // The store may have been destroyed while storage was being read
+      if (storedValue && !api.isDestroyed()) {
         let persistedState = storedValue.state
+        if (transforms.length > 0) {
+          try {
+            persistedState = await decode(storedValue.state)
+          } catch (error) {
+            decodeFailed = true
+            throw error
+          }
+        }
 
         // Run migration if version changed
         if (storedValue.version !== version && migrate) {
@@ -323,11 +462,16 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
 
         // Merge persisted state with current state
         const mergedState = merge(persistedState, get())
-        set(mergedState as never, true)
+        set(mergedState as never, true, {
+          type: 'persist/rehydrate',
+          origin: 'rehydrate',
+        })
       }
 
+      isWriteBlocked = false
       onRehydrateCallback?.(get(), undefined)
     } catch (error) {
+      isWriteBlocked = decodeFailed
       onRehydrateCallback?.(undefined, error as Error)
     } finally {
       hasHydrated = true
@@ -335,8 +479,9 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
     }
   }
 
-  // Track unsubscribe function (will be set after subscription)
+  // Track unsubscribe functions (will be set after subscription)
   let storeUnsubscribe: (() => void) | null = null
+  let storageUnsubscribe: (() => void) | null = null
 
   // Persist API
   const persistApi: PersistApi<unknown>['persist'] = {
@@ -356,12 +501,14 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
     clearStorage: () => Promise.resolve(storage.removeItem(name)),
     flush: async () => {
       debouncedSetItem.flush()
+      await pendingWrite
     },
     destroy: () => {
       // Cancel pending debounced writes
       debouncedSetItem.cancel()
-      // Unsubscribe from state changes
+      // Unsubscribe from state and storage changes
       storeUnsubscribe?.()
+      storageUnsubscribe?.()
       // Clear hydration listeners
       hydrateListeners.clear()
       finishHydrationListeners.clear()
@@ -372,14 +519,36 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
   const storeWithPersist = api as StoreApi<unknown> & PersistApi<unknown>
   storeWithPersist.persist = persistApi
 
+  // Cancel pending writes when the store is destroyed
+  api.onDestroy(persistApi.destroy)
+
   // Subscribe to state changes and persist
   // Store unsubscribe to prevent memory leaks
-  storeUnsubscribe = api.subscribe((state) => {
-    if (hasHydrated) {
-      debouncedSetItem(state)
+  storeUnsubscribe = api.subscribe((state, _previousState, action) => {
+    if (!hasHydrated) return
+    // State restored from storage doesn't need to be written back
+    if (action?.origin === 'rehydrate') return
+
+    // A full reset drops the stored value rather than persisting defaults
+    if (
+      clearStorageOnReset &&
+      action?.origin === 'reset' &&
+      action.payload === undefined
+    ) {
+      debouncedSetItem.cancel()
+      void settleWrite(() => storage.removeItem(name))
+      return
     }
+
+    debouncedSetItem(state)
   })
 
+  // Reload when the stored value is changed from outside
+  storageUnsubscribe =
+    storage.subscribe?.(name, () => {
+      void rehydrate()
+    }) ?? null
+
   // Initialize state
   const initialState = initializer(set, get, api)
 
@@ -426,4 +595,6 @@ const persistImpl: PersistImpl = (initializer, options) => (set, get, api) => {
  */
 export const persist = persistImpl as unknown as Persist
 
+export { taggedCodec } from '../utils/codec'
+export type { JSONCodec } from '../utils/codec'
 export type { Persist }
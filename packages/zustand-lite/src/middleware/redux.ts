@@ -0,0 +1,227 @@
+/**
+ * Redux middleware for zustand-lite.
+ *
+ * Drives a store with a Redux reducer: `api.dispatch(action)` (also
+ * available as `dispatch` in state) runs the action through the reducer.
+ * Eases migration from Redux, keeping reducers and Redux middleware
+ * such as thunks and loggers.
+ *
+ * @module middleware/redux
+ */
+
+import type {
+  StateCreator,
+  StoreMutatorIdentifier,
+} from '../types'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Redux action: any object with a string `type`.
+ */
+export interface ReduxAction {
+  type: string
+}
+
+/**
+ * Reducer computing the next state from the current state and an action.
+ *
+ * @template T - State type (without `dispatch`)
+ * @template A - Action type
+ */
+export type Reducer<T, A extends ReduxAction> = (state: T, action: A) => T
+
+/**
+ * Dispatch function in the enhancer chain. Enhancers may accept other
+ * values than actions (e.g. thunks) and return anything.
+ */
+export type DispatchFn = (action: unknown) => unknown
+
+/**
+ * Redux-style middleware wrapping dispatch: receives `getState` and the
+ * full `dispatch`, then the next dispatch in the chain. Compatible with
+ * Redux middleware such as redux-thunk and redux-logger.
+ *
+ * @template T - State type
+ *
+ * @example
+ * const thunk: ReduxEnhancer<CounterState> = ({ dispatch, getState }) => (next) => (action) =>
+ *   typeof action === 'function' ? action(dispatch, getState) : next(action)
+ */
+export type ReduxEnhancer<T> = (api: {
+  getState: () => T
+  dispatch: DispatchFn
+}) => (next: DispatchFn) => DispatchFn
+
+/**
+ * Redux middleware options.
+ *
+ * @template T - State type
+ */
+export interface ReduxOptions<T> {
+  /**
+   * Enhancers wrapping dispatch, outermost first
+   * (like Redux `applyMiddleware`).
+   */
+  enhancers?: ReadonlyArray<ReduxEnhancer<T>>
+}
+
+/**
+ * API added to store by redux middleware.
+ *
+ * @template A - Action type
+ */
+export interface ReduxApi<A> {
+  /**
+   * Run an action through the enhancers and the reducer. Returns the
+   * action with its own type, like Redux `Dispatch`; values handled by
+   * enhancers (e.g. thunks) need a cast.
+   */
+  dispatch: <T extends A>(action: T) => T
+}
+
+/**
+ * Store state created by redux middleware: the reducer state plus `dispatch`.
+ *
+ * @template T - Reducer state type
+ * @template A - Action type
+ */
+export type ReduxState<T, A> = T & ReduxApi<A>
+
+// Register mutator type
+declare module '../types' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    'zustand-lite/redux': S & ReduxApi<A>
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Checks that a value reaching the reducer is a Redux action.
+ */
+const assertAction = (action: unknown): ReduxAction => {
+  if (
+    typeof action !== 'object' ||
+    action === null ||
+    typeof (action as Partial<ReduxAction>).type !== 'string'
+  ) {
+    throw new Error(
+      '[zustand-lite] redux: actions must be objects with a string "type". ' +
+        'Dispatch functions through an enhancer such as a thunk.'
+    )
+  }
+  return action as ReduxAction
+}
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+type Redux = <
+  T,
+  A extends ReduxAction,
+  Cms extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  reducer: Reducer<T, A>,
+  initialState: T,
+  options?: ReduxOptions<T>
+) => StateCreator<ReduxState<T, A>, Cms, [['zustand-lite/redux', A]]>
+
+type ReduxImpl = (
+  reducer: Reducer<unknown, ReduxAction>,
+  initialState: unknown,
+  options?: ReduxOptions<unknown>
+) => StateCreator<unknown, [], []>
+
+/**
+ * Redux middleware implementation.
+ */
+const reduxImpl: ReduxImpl = (reducer, initialState, options = {}) => (set, get, api) => {
+  const { enhancers = [] } = options
+
+  /**
+   * Runs an action through the reducer. The update is labelled with the
+   * action type, and the other action fields are its payload.
+   */
+  const reduce: DispatchFn = (input) => {
+    const action = assertAction(input)
+    const { type, ...fields } = action
+    const descriptor =
+      Object.keys(fields).length > 0 ? { type, payload: fields } : { type }
+
+    set((state: unknown) => reducer(state, action), false, descriptor)
+    return action
+  }
+
+  let dispatch: DispatchFn = () => {
+    throw new Error(
+      '[zustand-lite] redux: dispatching while the enhancers are being set up is not allowed.'
+    )
+  }
+
+  const enhancerApi = {
+    getState: get,
+    dispatch: (action: unknown) => dispatch(action),
+  }
+  dispatch = enhancers
+    .map((enhancer) => enhancer(enhancerApi))
+    .reduceRight<DispatchFn>((next, wrap) => wrap(next), reduce)
+
+  const storeDispatch = enhancerApi.dispatch as ReduxApi<unknown>['dispatch']
+  ;(api as typeof api & ReduxApi<unknown>).dispatch = storeDispatch
+
+  return { ...(initialState as object), dispatch: storeDispatch }
+}
+
+/**
+ * Redux middleware.
+ *
+ * Creates the state from a reducer and its initial state, and adds
+ * `dispatch` to the store and to the state. Every dispatched action goes
+ * through the enhancers, then the reducer, and reaches listeners and
+ * devtools as a named update: the action type is the update type, the
+ * other action fields its payload.
+ *
+ * @example
+ * type CounterAction = { type: 'increment' } | { type: 'add'; amount: number }
+ *
+ * const counterReducer = (state: { count: number }, action: CounterAction) => {
+ *   switch (action.type) {
+ *     case 'increment':
+ *       return { count: state.count + 1 }
+ *     case 'add':
+ *       return { count: state.count + action.amount }
+ *   }
+ * }
+ *
+ * const useCounterStore = create(
+ *   devtools(redux(counterReducer, { count: 0 }), { name: 'counter' })
+ * )
+ *
+ * useCounterStore.dispatch({ type: 'add', amount: 5 })
+ * // DevTools: add { amount: 5 }
+ *
+ * const dispatch = useStore(useCounterStore, (s) => s.dispatch)
+ *
+ * @example
+ * // Thunks and logging through enhancers
+ * redux(reducer, initialState, {
+ *   enhancers: [
+ *     ({ dispatch, getState }) => (next) => (action) =>
+ *       typeof action === 'function' ? action(dispatch, getState) : next(action),
+ *     () => (next) => (action) => {
+ *       console.log('dispatch', action)
+ *       return next(action)
+ *     },
+ *   ],
+ * })
+ */
+export const redux = reduxImpl as unknown as Redux
+
+export type { Redux }
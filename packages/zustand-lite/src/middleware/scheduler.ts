@@ -0,0 +1,319 @@
+/**
+ * Scheduler middleware for zustand-lite.
+ *
+ * Controls when listeners hear about updates. State is still written
+ * immediately, so `getState()` always returns the latest state, but
+ * notifications are coalesced and delivered on a microtask, an animation
+ * frame or a throttle interval.
+ *
+ * @module middleware/scheduler
+ */
+
+import type {
+  StateCreator,
+  StoreMutatorIdentifier,
+  ActionDescriptor,
+  Listener,
+} from '../types'
+import { combineBatchActions, notifyListeners } from '../utils/notify'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Schedules a flush of the pending notification.
+ * Called once per pending notification; returns a function cancelling it.
+ *
+ * @param flush - Delivers the pending notification to listeners
+ * @returns Cancel function
+ */
+export type Schedule = (flush: () => void) => () => void
+
+/**
+ * How notifications are delivered:
+ * - `sync` — on every setState, as without the middleware
+ * - `microtask` — once after the current task
+ * - `animationFrame` — once per frame (falls back to a 16 ms timer)
+ * - a `Schedule`, e.g. `throttle(ms)`
+ */
+export type ScheduleMode = 'sync' | 'microtask' | 'animationFrame' | Schedule
+
+/**
+ * Scheduler middleware options.
+ */
+export interface SchedulerOptions {
+  /**
+   * When listeners are notified.
+   * @default 'microtask'
+   */
+  schedule?: ScheduleMode
+}
+
+/**
+ * API added to store by scheduler middleware.
+ */
+export interface SchedulerApi {
+  scheduler: {
+    /** Deliver the pending notification now */
+    flush: () => void
+    /** Whether a notification is waiting to be delivered */
+    isPending: () => boolean
+  }
+}
+
+// Register mutator type
+declare module '../types' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    'zustand-lite/scheduler': S & SchedulerApi
+  }
+}
+
+// ============================================================
+// SCHEDULES
+// ============================================================
+
+/**
+ * Flushes after the current task, so every synchronous update
+ * is delivered as one notification.
+ */
+const microtaskSchedule: Schedule = (flush) => {
+  let cancelled = false
+  queueMicrotask(() => {
+    if (!cancelled) flush()
+  })
+  return () => {
+    cancelled = true
+  }
+}
+
+/**
+ * Flushes before the next repaint. Outside browsers (SSR, tests
+ * without a stand-in) a 16 ms timer is used instead.
+ */
+const animationFrameSchedule: Schedule = (flush) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(() => flush())
+    return () => cancelAnimationFrame(id)
+  }
+  const id = setTimeout(flush, 16)
+  return () => clearTimeout(id)
+}
+
+/**
+ * Creates a schedule delivering at most one notification per `ms`.
+ * The first update after a quiet period is delivered immediately; later
+ * ones are coalesced into a trailing notification at the end of the
+ * interval.
+ *
+ * Keeps its own timing, so create one per store.
+ *
+ * @param ms - Minimum interval between notifications
+ * @returns Throttling schedule
+ *
+ * @example
+ * scheduler(creator, { schedule: throttle(100) })
+ */
+export const throttle = (ms: number): Schedule => {
+  let lastFlushAt = -Infinity
+
+  return (flush) => {
+    const run = () => {
+      lastFlushAt = Date.now()
+      flush()
+    }
+
+    const wait = lastFlushAt + ms - Date.now()
+    if (wait <= 0) {
+      run()
+      return () => {}
+    }
+
+    const id = setTimeout(run, wait)
+    return () => clearTimeout(id)
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Resolves a mode to its schedule.
+ */
+const toSchedule = (mode: Exclude<ScheduleMode, 'sync'>): Schedule => {
+  if (mode === 'microtask') return microtaskSchedule
+  if (mode === 'animationFrame') return animationFrameSchedule
+  return mode
+}
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+type Scheduler = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, [...Mps, ['zustand-lite/scheduler', never]], Mcs>,
+  options?: SchedulerOptions
+) => StateCreator<T, Mps, [['zustand-lite/scheduler', never], ...Mcs]>
+
+type SchedulerImpl = (
+  initializer: StateCreator<unknown, [], []>,
+  options?: SchedulerOptions
+) => StateCreator<unknown, [], []>
+
+/**
+ * A notification waiting to be delivered.
+ */
+interface PendingNotification {
+  /** State before the first coalesced update */
+  previousState: unknown
+  /** Actions of every coalesced update */
+  actions: Array<ActionDescriptor | undefined>
+  /** Cancels the scheduled flush */
+  cancel: () => void
+}
+
+/**
+ * Scheduler middleware implementation.
+ */
+const schedulerImpl: SchedulerImpl = (initializer, options = {}) => (set, get, api) => {
+  const { schedule: mode = 'microtask' } = options
+  const schedulerApi = api as typeof api & SchedulerApi
+
+  if (mode === 'sync') {
+    schedulerApi.scheduler = {
+      flush: () => {},
+      isPending: () => false,
+    }
+    return initializer(set, get, api)
+  }
+
+  const schedule = toSchedule(mode)
+  const originalSubscribe = api.subscribe
+  const listeners = new Set<Listener<unknown>>()
+  let unsubscribeStore: (() => void) | undefined
+  let pending: PendingNotification | undefined
+
+  /**
+   * Delivers the pending notification with the latest state.
+   * Skipped if the updates ended on the state they started from.
+   * Listener errors go to the store's `onError`, like unscheduled ones:
+   * the flush runs outside setState, so nothing could catch a rethrow.
+   */
+  const flush = (): void => {
+    if (!pending) return
+
+    const { previousState, actions, cancel } = pending
+    pending = undefined
+    cancel()
+
+    const state = get()
+    if (Object.is(state, previousState)) return
+
+    notifyListeners(
+      listeners,
+      state,
+      previousState,
+      combineBatchActions(actions),
+      api.reportError
+    )
+  }
+
+  /**
+   * Records an update from the store and schedules its delivery.
+   */
+  const onUpdate = (
+    _state: unknown,
+    previousState: unknown,
+    action?: ActionDescriptor
+  ): void => {
+    if (pending) {
+      pending.actions.push(action)
+      return
+    }
+
+    pending = { previousState, actions: [action], cancel: () => {} }
+    const current = pending
+    const cancel = schedule(flush)
+    // The schedule may have flushed synchronously
+    if (pending === current) current.cancel = cancel
+  }
+
+  /**
+   * Subscribes to scheduled notifications. The store is only observed
+   * while someone listens.
+   */
+  api.subscribe = (listener) => {
+    if (listeners.size === 0) {
+      unsubscribeStore = originalSubscribe(onUpdate)
+    }
+    listeners.add(listener)
+
+    return () => {
+      if (!listeners.delete(listener) || listeners.size > 0) return
+      unsubscribeStore?.()
+      unsubscribeStore = undefined
+      pending?.cancel()
+      pending = undefined
+    }
+  }
+
+  api.onDestroy(() => {
+    pending?.cancel()
+    pending = undefined
+    listeners.clear()
+  })
+
+  schedulerApi.scheduler = {
+    flush,
+    isPending: () => pending !== undefined,
+  }
+
+  return initializer(set, get, api)
+}
+
+/**
+ * Scheduler middleware.
+ *
+ * Coalesces the notifications of rapid updates (drag positions,
+ * websocket ticks) and delivers them on the chosen schedule. Listeners
+ * receive the latest state, the state from before the first coalesced
+ * update and a `batch` action when several named updates were merged.
+ * `getState()` is never delayed, and `useStore` stays tear-free because
+ * every component reads the same latest snapshot.
+ *
+ * Middleware inside the scheduler (persist, temporal, devtools) hear
+ * about updates on the schedule too; place the scheduler inside those
+ * that must see every update. Put subscribeWithSelector inside the
+ * scheduler, so selector subscriptions are coalesced as well.
+ *
+ * @example
+ * const usePointerStore = create<PointerState>()(
+ *   scheduler(
+ *     (set) => ({
+ *       x: 0,
+ *       y: 0,
+ *       move: (x, y) => set({ x, y }, false, 'pointer/move'),
+ *     }),
+ *     { schedule: 'animationFrame' }
+ *   )
+ * )
+ *
+ * // Components re-render at most once per frame
+ * const x = useStore(usePointerStore, (s) => s.x)
+ *
+ * @example
+ * // Websocket ticks: at most one notification per 100 ms
+ * scheduler(creator, { schedule: throttle(100) })
+ *
+ * // Deliver the pending notification now, e.g. before navigation
+ * useTickerStore.scheduler.flush()
+ */
+export const scheduler = schedulerImpl as unknown as Scheduler
+
+export type { Scheduler }
@@ -0,0 +1,305 @@
+/**
+ * Slices for zustand-lite.
+ *
+ * Splits a store into namespaced slices. Each slice owns a nested key
+ * (`state.cart`, `state.ui`) and receives a `set`/`get` scoped to it.
+ *
+ * @module middleware/slices
+ */
+
+import type {
+  StateCreator,
+  StoreApi,
+  StoreMutatorIdentifier,
+  ActionInput,
+} from '../types'
+import type { PersistOptions } from './persist'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * setState scoped to a slice.
+ * Merges into (or replaces) the slice's subtree only.
+ *
+ * Updaters may also mutate the slice and return nothing when the store
+ * uses the immer middleware.
+ *
+ * @template S - Slice state type
+ */
+export type SliceSetState<S> = {
+  (
+    partial: S | Partial<S> | ((state: S) => S | Partial<S> | void),
+    replace?: false,
+    action?: ActionInput
+  ): void
+  (
+    state: S | ((state: S) => S | void),
+    replace: true,
+    action?: ActionInput
+  ): void
+}
+
+/**
+ * Creator function for a slice.
+ *
+ * @template S - Slice state type
+ */
+export type SliceCreator<S> = (
+  set: SliceSetState<S>,
+  get: () => S,
+  store: StoreApi<unknown>
+) => S
+
+/**
+ * Slice options.
+ *
+ * @template S - Slice state type
+ */
+export interface SliceOptions<S> {
+  /**
+   * Picks what `persistSlices` stores for this slice.
+   * Defaults to the whole slice.
+   */
+  partialize?: (state: S) => Partial<S>
+
+  /**
+   * Whether `persistSlices` stores this slice at all.
+   * @default true
+   */
+  persist?: boolean
+}
+
+/**
+ * Slice definition created by `createSlice`.
+ *
+ * @template S - Slice state type
+ */
+export interface Slice<S> {
+  initializer: SliceCreator<S>
+  options: SliceOptions<S>
+}
+
+/**
+ * Slices keyed by the name they are mounted under.
+ *
+ * Slice<S> is invariant in S, so the constraint only describes the shape
+ * every slice has; SlicesState recovers each slice's state type.
+ */
+export type SliceMap = Record<
+  string,
+  { initializer: (...args: never[]) => unknown; options: object }
+>
+
+/**
+ * Store state combined from a slice map.
+ *
+ * @template M - Slice map
+ */
+export type SlicesState<M extends SliceMap> = {
+  [K in keyof M]: M[K] extends Slice<infer S> ? S : never
+}
+
+/**
+ * withSlices function type.
+ *
+ * @template M - Slice map
+ * @template Mps - Middleware input mutators
+ * @template Mcs - Middleware output mutators
+ */
+type WithSlices = <
+  M extends SliceMap,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  slices: M
+) => StateCreator<SlicesState<M>, Mps, Mcs>
+
+type WithSlicesImpl = (slices: SliceMap) => StateCreator<unknown, [], []>
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Prefixes an action with the slice name.
+ * Unnamed updates are reported as `<slice>/anonymous`.
+ *
+ * @param name - Slice name
+ * @param action - Action name, descriptor, or undefined
+ * @returns Prefixed action
+ */
+const prefixAction = (
+  name: string,
+  action: ActionInput | undefined
+): ActionInput => {
+  if (action === undefined) return `${name}/anonymous`
+  if (typeof action === 'string') return `${name}/${action}`
+  return { ...action, type: `${name}/${action.type}` }
+}
+
+/**
+ * Creates a setState scoped to one slice.
+ *
+ * Goes through the store's `set` with an updater, so middleware wrapping
+ * `set` (immer) sees the update: under immer `root` is a draft and the
+ * slice updater may mutate `root[name]` in place.
+ *
+ * @param name - Slice name
+ * @param set - The store's setState
+ * @returns Scoped setState
+ */
+const createSliceSetState = (
+  name: string,
+  set: StoreApi<unknown>['setState']
+): SliceSetState<unknown> =>
+  ((partial: unknown, replace?: boolean, action?: ActionInput) => {
+    set(
+      (root: unknown) => {
+        const rootState = root as Record<string, unknown>
+        const current = rootState[name]
+        const next =
+          typeof partial === 'function'
+            ? (partial as (state: unknown) => unknown)(current)
+            : partial
+
+        // Mutated in place (immer draft): keep the root as is
+        if (next === undefined) return root
+
+        return {
+          [name]: replace ? next : { ...(current as object), ...(next as object) },
+        }
+      },
+      false,
+      prefixAction(name, action)
+    )
+  }) as SliceSetState<unknown>
+
+// ============================================================
+// IMPLEMENTATION
+// ============================================================
+
+/**
+ * Defines a slice.
+ *
+ * @template S - Slice state type
+ * @param initializer - Slice creator receiving scoped set/get
+ * @param options - Slice options
+ * @returns Slice definition for `withSlices`
+ *
+ * @example
+ * interface CartSlice {
+ *   items: Item[]
+ *   addItem: (item: Item) => void
+ * }
+ *
+ * const cartSlice = createSlice<CartSlice>((set) => ({
+ *   items: [],
+ *   addItem: (item) =>
+ *     set((s) => ({ items: [...s.items, item] }), false, 'addItem'),
+ * }))
+ */
+export const createSlice = <S>(
+  initializer: SliceCreator<S>,
+  options: SliceOptions<S> = {}
+): Slice<S> => ({ initializer, options })
+
+const withSlicesImpl: WithSlicesImpl = (slices) => (set, get, api) => {
+  const state: Record<string, unknown> = {}
+
+  for (const name of Object.keys(slices)) {
+    const slice = slices[name] as Slice<unknown>
+    state[name] = slice.initializer(
+      createSliceSetState(name, set),
+      () => (get() as Record<string, unknown>)[name],
+      api
+    )
+  }
+
+  return state
+}
+
+/**
+ * Combines slices into a store, mounting each under its key.
+ * The store type is inferred from the slices.
+ *
+ * Actions sent through a slice's `set` are prefixed with the slice
+ * name (`cart/addItem`), so devtools shows which slice changed.
+ *
+ * @example
+ * const useStore = create(
+ *   withSlices({ cart: cartSlice, ui: uiSlice })
+ * )
+ *
+ * useStore.getState().cart.addItem(item)
+ * const isOpen = useStore((s) => s.ui.isOpen)
+ *
+ * @example
+ * // With middleware
+ * const slices = { cart: cartSlice, ui: uiSlice }
+ *
+ * const useStore = create(
+ *   devtools(
+ *     persist(withSlices(slices), { name: 'app', ...persistSlices(slices) })
+ *   )
+ * )
+ *
+ * @example
+ * // With immer, slice updaters can mutate their subtree
+ * const cartSlice = createSlice<CartSlice>((set) => ({
+ *   items: [],
+ *   addItem: (item) => set((s) => { s.items.push(item) }, false, 'addItem'),
+ * }))
+ *
+ * const useStore = create(immer(withSlices({ cart: cartSlice })))
+ */
+export const withSlices = withSlicesImpl as unknown as WithSlices
+
+/**
+ * Builds persist options for a sliced store: `partialize` applies each
+ * slice's own partialize, and `merge` restores each slice into its
+ * subtree so slice actions are kept.
+ *
+ * @template M - Slice map
+ * @param slices - The slices passed to `withSlices`
+ * @returns `partialize` and `merge` for persist options
+ *
+ * @example
+ * persist(withSlices(slices), { name: 'app', ...persistSlices(slices) })
+ */
+export const persistSlices = <M extends SliceMap>(
+  slices: M
+): Required<
+  Pick<PersistOptions<SlicesState<M>, Partial<SlicesState<M>>>, 'partialize' | 'merge'>
+> => ({
+  partialize: (state) => {
+    const persisted: Record<string, unknown> = {}
+    for (const name of Object.keys(slices)) {
+      const { partialize, persist = true } = (slices[name] as Slice<unknown>).options
+      if (!persist) continue
+      const sliceState = (state as Record<string, unknown>)[name]
+      persisted[name] = partialize ? partialize(sliceState) : sliceState
+    }
+    return persisted as Partial<SlicesState<M>>
+  },
+  merge: (persistedState, currentState) => {
+    if (persistedState === null || typeof persistedState !== 'object') {
+      return currentState
+    }
+
+    const persisted = persistedState as Record<string, unknown>
+    const merged: Record<string, unknown> = { ...currentState }
+    for (const name of Object.keys(slices)) {
+      const sliceState = persisted[name]
+      if (sliceState === null || typeof sliceState !== 'object') continue
+      merged[name] = {
+        ...(currentState as Record<string, object>)[name],
+        ...sliceState,
+      }
+    }
+    return merged as SlicesState<M>
+  },
+})
+
+export type { WithSlices }
@@ -9,11 +9,11 @@
 
 import type {
   StateCreator,
-  StoreApi,
   StoreMutatorIdentifier,
   Write,
   Cast,
   Listener,
+  ActionDescriptor,
 } from '../types'
 
 // ============================================================
@@ -30,6 +30,19 @@ export interface SubscribeWithSelectorOptions<U> {
   fireImmediately?: boolean
 }
 
+/**
+ * Listener for a selected slice of state.
+ * Receives the action behind the update, like a plain listener
+ * (undefined for anonymous updates and `fireImmediately` calls).
+ *
+ * @template U - Selected slice type
+ */
+export type SelectorListener<U> = (
+  selectedState: U,
+  previousSelectedState: U,
+  action?: ActionDescriptor
+) => void
+
 /**
  * Enhanced subscribe function that supports selectors.
  *
@@ -42,7 +55,7 @@ export type SubscribeWithSelectorFn<T> = {
   /** Subscribe with selector */
   <U>(
     selector: (state: T) => U,
-    listener: (selectedState: U, previousSelectedState: U) => void,
+    listener: SelectorListener<U>,
     options?: SubscribeWithSelectorOptions<U>
   ): () => void
 }
@@ -52,7 +65,7 @@ declare module '../types' {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   interface StoreMutators<S, A> {
     'zustand-lite/subscribeWithSelector': Write<
-      Cast<S, StoreApi<unknown>>,
+      S,
       {
         subscribe: SubscribeWithSelectorFn<
           Cast<
@@ -98,7 +111,7 @@ const subscribeWithSelectorImpl: SubscribeWithSelectorImpl =
      */
     const subscribeWithSelector: SubscribeWithSelectorFn<unknown> = <U>(
       selectorOrListener: ((state: unknown) => U) | Listener<unknown>,
-      listener?: (selectedState: U, previousSelectedState: U) => void,
+      listener?: SelectorListener<U>,
       options?: SubscribeWithSelectorOptions<U>
     ) => {
       // If no listener provided, it's the original subscribe pattern
@@ -119,14 +132,18 @@ const subscribeWithSelectorImpl: SubscribeWithSelectorImpl =
       }
 
       // Subscribe to state changes
-      return originalSubscribe((state, _previousState) => {
+      return originalSubscribe((state, _previousState, action) => {
         const nextSlice = selector(state)
 
         // Only fire if selected value changed
         if (!equalityFn(currentSlice, nextSlice)) {
           const previousSlice = currentSlice
           currentSlice = nextSlice
-          listener(nextSlice, previousSlice)
+          if (action === undefined) {
+            listener(nextSlice, previousSlice)
+          } else {
+            listener(nextSlice, previousSlice, action)
+          }
         }
       })
     }
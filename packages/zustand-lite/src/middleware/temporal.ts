@@ -0,0 +1,310 @@
+/**
+ * Temporal (undo/redo) middleware for zustand-lite.
+ *
+ * Records the state before each update in a history store exposed as
+ * `api.temporal`. The history is an ordinary read-only store, so
+ * components can select `canUndo`/`canRedo` with useStore.
+ *
+ * @module middleware/temporal
+ */
+
+import type {
+  StateCreator,
+  StoreMutatorIdentifier,
+  ReadonlyStoreApi,
+  ActionDescriptor,
+  EqualityFn,
+} from '../types'
+import { createStore } from '../vanilla'
+import { shallow } from '../utils/shallow'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * History actions, available on `api.temporal` and in the history state.
+ */
+export interface TemporalActions {
+  /** Restore the previous entry (or go back `steps` entries) */
+  undo: (steps?: number) => void
+  /** Re-apply an undone entry (or go forward `steps` entries) */
+  redo: (steps?: number) => void
+  /** Drop all past and future entries */
+  clear: () => void
+  /** Stop recording updates */
+  pause: () => void
+  /** Resume recording updates */
+  resume: () => void
+}
+
+/**
+ * History state.
+ *
+ * @template P - Tracked state type (the result of `partialize`)
+ */
+export interface TemporalState<P> extends TemporalActions {
+  /** Tracked states before each recorded update, oldest first */
+  pastStates: P[]
+  /** Undone tracked states, next redo first */
+  futureStates: P[]
+  /** Whether there is an entry to undo */
+  canUndo: boolean
+  /** Whether there is an entry to redo */
+  canRedo: boolean
+  /** Whether updates are being recorded */
+  isTracking: boolean
+}
+
+/**
+ * History store added as `api.temporal`.
+ *
+ * @template P - Tracked state type
+ */
+export type TemporalStoreApi<P> = ReadonlyStoreApi<TemporalState<P>> & TemporalActions
+
+/**
+ * API added to store by temporal middleware.
+ */
+export interface TemporalApi<P> {
+  temporal: TemporalStoreApi<P>
+}
+
+/**
+ * Temporal middleware options.
+ *
+ * @template T - Store state type
+ * @template P - Tracked state type
+ */
+export interface TemporalOptions<T, P = T> {
+  /** Maximum number of past entries (oldest are dropped). Unlimited by default. */
+  limit?: number
+
+  /**
+   * Select the keys to track (defaults to the whole state).
+   * Undo and redo merge the tracked object back into the state.
+   */
+  partialize?: (state: T) => P
+
+  /**
+   * Compares tracked states: updates that leave them equal are not recorded.
+   * @default shallow
+   */
+  equality?: EqualityFn<P>
+
+  /**
+   * Updates within this many milliseconds of the previous recorded update
+   * join its history entry, so one undo reverts them all.
+   * @default 0
+   */
+  groupWithin?: number
+}
+
+// Register mutator type
+declare module '../types' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    'zustand-lite/temporal': S & TemporalApi<A>
+  }
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/**
+ * Update origins that are never recorded: history navigation itself,
+ * storage rehydration and DevTools time travel.
+ */
+const UNTRACKED_ORIGINS: ReadonlySet<string> = new Set([
+  'temporal',
+  'rehydrate',
+  'devtools',
+])
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+type Temporal = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+  P = T,
+>(
+  initializer: StateCreator<T, [...Mps, ['zustand-lite/temporal', unknown]], Mcs>,
+  options?: TemporalOptions<T, P>
+) => StateCreator<T, Mps, [['zustand-lite/temporal', P], ...Mcs]>
+
+type TemporalImpl = <T, P = T>(
+  initializer: StateCreator<T, [], []>,
+  options?: TemporalOptions<T, P>
+) => StateCreator<T, [], []>
+
+/**
+ * Temporal middleware implementation.
+ */
+const temporalImpl: TemporalImpl = (initializer, options) => (set, get, api) => {
+  const {
+    limit = Infinity,
+    partialize = (state: unknown) => state,
+    equality = shallow,
+    groupWithin = 0,
+  } = (options ?? {}) as TemporalOptions<unknown>
+
+  /** Time of the last recorded update, for grouping */
+  let lastRecordedAt = -Infinity
+
+  /**
+   * Moves `steps` entries from one stack to the other and applies the
+   * last one to the store.
+   */
+  const travel = (direction: 'undo' | 'redo', steps: number): void => {
+    const { pastStates, futureStates } = history.getState()
+    const past = pastStates.slice()
+    const future = futureStates.slice()
+    const from = direction === 'undo' ? past : future
+    const count = Math.min(Math.max(Math.floor(steps), 0), from.length)
+    if (count === 0) return
+
+    let current = partialize(get())
+    for (let i = 0; i < count; i++) {
+      if (direction === 'undo') {
+        future.unshift(current)
+        current = past.pop()
+      } else {
+        past.push(current)
+        current = future.shift()
+      }
+    }
+
+    lastRecordedAt = -Infinity
+    setHistory(past, future)
+    api.setState(current as never, false, {
+      type: `temporal/${direction}`,
+      payload: count,
+      origin: 'temporal',
+    })
+  }
+
+  const actions: TemporalActions = {
+    undo: (steps = 1) => travel('undo', steps),
+    redo: (steps = 1) => travel('redo', steps),
+    clear: () => {
+      lastRecordedAt = -Infinity
+      setHistory([], [])
+    },
+    pause: () => history.setState({ isTracking: false }),
+    resume: () => history.setState({ isTracking: true }),
+  }
+
+  const history = createStore<TemporalState<unknown>>()(() => ({
+    pastStates: [],
+    futureStates: [],
+    canUndo: false,
+    canRedo: false,
+    isTracking: true,
+    ...actions,
+  }))
+
+  const setHistory = (pastStates: unknown[], futureStates: unknown[]): void => {
+    history.setState({
+      pastStates,
+      futureStates,
+      canUndo: pastStates.length > 0,
+      canRedo: futureStates.length > 0,
+    })
+  }
+
+  /**
+   * Records the state before an update.
+   */
+  const record = (
+    state: unknown,
+    previousState: unknown,
+    action?: ActionDescriptor
+  ): void => {
+    if (action?.origin !== undefined && UNTRACKED_ORIGINS.has(action.origin)) return
+
+    // A full reset returns the history to its initial (empty) state too
+    if (action?.origin === 'reset' && action.payload === undefined) {
+      actions.clear()
+      return
+    }
+
+    const { isTracking, pastStates } = history.getState()
+    if (!isTracking) return
+
+    const previous = partialize(previousState)
+    if (equality(previous, partialize(state))) return
+
+    const now = Date.now()
+    const grouped = pastStates.length > 0 && now - lastRecordedAt < groupWithin
+    lastRecordedAt = now
+
+    // A grouped update keeps the entry from before the group started
+    if (grouped) {
+      setHistory(pastStates, [])
+      return
+    }
+
+    const past = [...pastStates, previous]
+    if (past.length > limit) {
+      past.splice(0, past.length - limit)
+    }
+    setHistory(past, [])
+  }
+
+  api.subscribe(record)
+  api.onDestroy(history.destroy)
+
+  ;(api as typeof api & TemporalApi<unknown>).temporal = {
+    getState: history.getState,
+    getInitialState: history.getInitialState,
+    subscribe: history.subscribe,
+    ...actions,
+  }
+
+  return initializer(set, get, api)
+}
+
+/**
+ * Temporal middleware.
+ *
+ * Adds undo/redo history as `api.temporal`: a read-only store with
+ * `pastStates`, `futureStates`, `canUndo`, `canRedo` and `isTracking`,
+ * plus `undo`, `redo`, `clear`, `pause` and `resume`.
+ *
+ * Every update records the tracked state from before it. Undo and redo
+ * go through `setState` as `temporal/undo` and `temporal/redo`, so
+ * persist and devtools see them. Rehydration and DevTools time travel are
+ * not recorded, and `reset()` without keys clears the history.
+ *
+ * @example
+ * const useCartStore = create<CartState>()(
+ *   temporal(
+ *     (set) => ({
+ *       items: [],
+ *       removeItem: (id) => set((s) => ({ items: s.items.filter((i) => i.id !== id) })),
+ *     }),
+ *     { partialize: (s) => ({ items: s.items }), limit: 50 }
+ *   )
+ * )
+ *
+ * // "Undo remove" button
+ * const canUndo = useStore(useCartStore.temporal, (s) => s.canUndo)
+ * <button disabled={!canUndo} onClick={() => useCartStore.temporal.undo()} />
+ *
+ * @example
+ * // Typing in a field: one entry per pause in typing
+ * temporal(creator, { groupWithin: 500 })
+ *
+ * @example
+ * // Apply several updates without recording them
+ * useStore.temporal.pause()
+ * loadDraft()
+ * useStore.temporal.resume()
+ */
+export const temporal = temporalImpl as unknown as Temporal
+
+export type { Temporal }
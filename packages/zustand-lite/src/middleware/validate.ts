@@ -0,0 +1,391 @@
+/**
+ * Validate middleware for zustand-lite.
+ *
+ * Checks the next state of every update against a validator function or
+ * a Standard Schema (zod, valibot, arktype, ...) before it reaches the
+ * store. Invalid updates are rejected; in `coerce` mode the schema output
+ * (defaults, transforms) is stored instead of the input.
+ *
+ * @module middleware/validate
+ */
+
+import type {
+  StateCreator,
+  StoreMutatorIdentifier,
+  StoreApi,
+  ActionInput,
+  ActionDescriptor,
+} from '../types'
+import type { DevtoolsApi } from './devtools'
+import { normalizeAction } from '../utils/notify'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Segment of an issue path in the Standard Schema format.
+ */
+export interface StandardSchemaPathSegment {
+  readonly key: PropertyKey
+}
+
+/**
+ * Validation issue in the Standard Schema format.
+ */
+export interface StandardSchemaIssue {
+  /** Human-readable description of the problem */
+  readonly message: string
+  /** Location of the problem in the validated value */
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment> | undefined
+}
+
+/**
+ * Validation result in the Standard Schema format.
+ *
+ * @template Output - Validated (possibly coerced) value type
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+/**
+ * Standard Schema v1 interface (https://standardschema.dev), implemented
+ * by zod, valibot, arktype and others. Declared here so no schema
+ * library is required.
+ *
+ * @template Input - Accepted value type
+ * @template Output - Validated value type
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined
+  }
+}
+
+/**
+ * Validator function. Returns `{ value }` for valid state (the value is
+ * stored in `coerce` mode) or `{ issues }` for invalid state.
+ *
+ * @template T - State type
+ */
+export type Validator<T> = (state: T) => StandardSchemaResult<T>
+
+/**
+ * Validator function or Standard Schema for a store state.
+ * A schema may describe only the data: its output must match the
+ * corresponding keys of the state.
+ *
+ * @template T - State type
+ */
+export type ValidationSchema<T> = Validator<T> | StandardSchemaV1<unknown, Partial<T>>
+
+/**
+ * State type described by a schema or validator function.
+ *
+ * @example
+ * type CartData = InferSchemaState<typeof cartSchema>
+ */
+export type InferSchemaState<S> =
+  S extends StandardSchemaV1<unknown, infer Output>
+    ? Output
+    : S extends Validator<infer T>
+      ? T
+      : never
+
+/**
+ * Issue with its path resolved to plain keys.
+ */
+export interface ValidationIssue {
+  /** Human-readable description of the problem */
+  message: string
+  /** Keys from the state root to the invalid value */
+  path: PropertyKey[]
+}
+
+/**
+ * Details of a rejected update, passed to `onInvalid`.
+ */
+export interface ValidationFailure {
+  /** Every issue reported by the schema */
+  issues: ValidationIssue[]
+  /** Path of the first issue, formatted as `state.items[0].quantity` */
+  path: string
+  /** Rejected next state */
+  state: unknown
+  /** Action of the rejected update (undefined for anonymous updates) */
+  action: ActionDescriptor | undefined
+}
+
+/**
+ * Validate middleware options.
+ *
+ * @template T - State type
+ */
+export interface ValidateOptions<T> {
+  /** Validator function or Standard Schema checking every next state */
+  schema: ValidationSchema<T>
+
+  /**
+   * `reject` checks the next state and stores it unchanged;
+   * `coerce` stores the schema output instead.
+   * @default 'reject'
+   */
+  mode?: 'reject' | 'coerce'
+
+  /**
+   * Called instead of throwing when an update is rejected.
+   * The state is left unchanged either way. An invalid initial state
+   * always throws, since there is no previous state to keep.
+   */
+  onInvalid?: (failure: ValidationFailure) => void
+}
+
+// Register mutator type
+declare module '../types' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface StoreMutators<S, A> {
+    'zustand-lite/validate': S
+  }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Converts Standard Schema issues to plain-key issues.
+ */
+const toIssues = (issues: ReadonlyArray<StandardSchemaIssue>): ValidationIssue[] =>
+  issues.map((issue) => ({
+    message: issue.message,
+    path: (issue.path ?? []).map((segment) =>
+      typeof segment === 'object' ? segment.key : segment
+    ),
+  }))
+
+/**
+ * Formats a path like the freeze errors: `state.items[0].quantity`.
+ */
+const formatPath = (path: ReadonlyArray<PropertyKey>): string =>
+  path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`
+    if (typeof key === 'symbol') return `${result}[${String(key)}]`
+    return `${result}.${key}`
+  }, 'state')
+
+/**
+ * Applies a schema output to the validated state. Schemas usually
+ * describe only the data, so keys missing from the output (actions,
+ * derived fields) are kept.
+ */
+const coerce = (state: unknown, output: unknown): unknown =>
+  typeof state === 'object' && state !== null && typeof output === 'object' && output !== null
+    ? Object.assign({}, state, output)
+    : output
+
+/**
+ * Returns the validate function of a schema or validator.
+ */
+const toValidateFn = (
+  schema: ValidationSchema<unknown>
+): StandardSchemaV1<unknown, unknown>['~standard']['validate'] =>
+  typeof schema === 'function'
+    ? schema
+    : (value) => schema['~standard'].validate(value)
+
+// ============================================================
+// MIDDLEWARE IMPLEMENTATION
+// ============================================================
+
+/**
+ * Blocks inference from an argument (NoInfer before TS 5.4), so the
+ * state type comes from the store, the initializer or the schema output
+ * as each signature intends.
+ */
+type NoInferState<T> = [T][T extends unknown ? 0 : never]
+
+type Validate = {
+  // Standard Schema: the state type comes from create<T>(), or else from
+  // the schema output. The schema output must match the state.
+  <
+    S extends StandardSchemaV1,
+    T = InferSchemaState<S>,
+    Mps extends [StoreMutatorIdentifier, unknown][] = [],
+    Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+  >(
+    initializer: StateCreator<
+      NoInferState<T>,
+      [...Mps, ['zustand-lite/validate', never]],
+      Mcs
+    >,
+    options: ValidateOptions<NoInferState<T>> & {
+      schema: S & (InferSchemaState<S> extends Partial<T> ? unknown : never)
+    }
+  ): StateCreator<T, Mps, [['zustand-lite/validate', never], ...Mcs]>
+
+  // Validator function: the state type comes from create<T>() or the
+  // initializer
+  <
+    T,
+    Mps extends [StoreMutatorIdentifier, unknown][] = [],
+    Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+  >(
+    initializer: StateCreator<T, [...Mps, ['zustand-lite/validate', never]], Mcs>,
+    options: ValidateOptions<NoInferState<T>>
+  ): StateCreator<T, Mps, [['zustand-lite/validate', never], ...Mcs]>
+}
+
+type ValidateImpl = (
+  initializer: StateCreator<unknown, [], []>,
+  options: ValidateOptions<unknown>
+) => StateCreator<unknown, [], []>
+
+/**
+ * Validate middleware implementation.
+ */
+const validateImpl: ValidateImpl = (initializer, options) => (set, get, api) => {
+  const { schema, mode = 'reject', onInvalid } = options
+  const validateFn = toValidateFn(schema)
+
+  /**
+   * Validates a next state. Returns the state to store,
+   * or undefined when the update is rejected.
+   */
+  const check = (
+    nextState: unknown,
+    action: ActionDescriptor | undefined,
+    isInitial = false
+  ): { state: unknown } | undefined => {
+    const result = validateFn(nextState)
+    if (result instanceof Promise) {
+      throw new Error(
+        '[zustand-lite] validate: asynchronous schemas are not supported, ' +
+          'because setState is synchronous.'
+      )
+    }
+
+    if (!result.issues) {
+      return { state: mode === 'coerce' ? coerce(nextState, result.value) : nextState }
+    }
+
+    const resolvedIssues = toIssues(result.issues)
+    const failure: ValidationFailure = {
+      issues: resolvedIssues,
+      path: formatPath(resolvedIssues[0]?.path ?? []),
+      state: nextState,
+      action,
+    }
+
+    // Show the rejected update in DevTools when they are connected
+    ;(api as Partial<DevtoolsApi>).devtools?.send(
+      `${action?.type ?? 'anonymous'}/rejected`,
+      { issues: failure.issues }
+    )
+
+    if (onInvalid && !isInitial) {
+      onInvalid(failure)
+      return undefined
+    }
+
+    const message = resolvedIssues[0]?.message ?? 'Invalid state'
+    const actionInfo = action ? ` (action "${action.type}")` : ''
+    const what = isInitial ? 'initial state' : `update${actionInfo}`
+    throw new Error(`[zustand-lite] Rejected invalid ${what}: ${failure.path}: ${message}`)
+  }
+
+  /**
+   * setState that validates the merged next state before applying it.
+   */
+  const validatedSet = ((
+    partial: unknown,
+    replace?: boolean,
+    action?: ActionInput
+  ) => {
+    const current = get()
+    const nextPartial =
+      typeof partial === 'function'
+        ? (partial as (state: unknown) => unknown)(current)
+        : partial
+    const nextState =
+      replace || typeof nextPartial !== 'object' || nextPartial === null
+        ? nextPartial
+        : Object.assign({}, current, nextPartial)
+
+    const checked = check(nextState, normalizeAction(action))
+    if (!checked) return
+
+    // Unchanged updates pass through as given; coerced ones as the full state
+    const update = checked.state === nextState ? nextPartial : checked.state
+    set(update as never, replace as never, action)
+  }) as StoreApi<unknown>['setState']
+
+  api.setState = validatedSet
+
+  // The initial state has nothing to fall back to, so it always throws
+  const initialState = initializer(validatedSet, get, api)
+  return check(initialState, undefined, true)?.state
+}
+
+/**
+ * Validate middleware.
+ *
+ * Every update (through `set`, `setState`, `reset`, `applyPatches`, ...)
+ * is checked after merging, so the schema always sees the whole next
+ * state. Invalid updates are dropped: `onInvalid` is called with the
+ * issues and the failing path, or an error is thrown. When devtools are
+ * enabled, rejected updates appear there as `<action>/rejected`.
+ *
+ * Without explicit generics, a store holding only the schema's data gets
+ * its state type from the schema output. With actions, pass the state
+ * to `create<T>()` (the schema output must match it), deriving the data
+ * part with `InferSchemaState`. An invalid initial state throws even with
+ * `onInvalid`. Put validate outside immer so it sees the finished state.
+ *
+ * @example
+ * import { z } from 'zod'
+ *
+ * const cartSchema = z.object({
+ *   items: z.array(z.object({ id: z.string(), quantity: z.number().int().positive() })),
+ * })
+ *
+ * type CartState = InferSchemaState<typeof cartSchema> & {
+ *   setQuantity: (id: string, quantity: number) => void
+ * }
+ *
+ * const useCartStore = create<CartState>()(
+ *   validate(
+ *     (set) => ({
+ *       items: [],
+ *       setQuantity: (id, quantity) =>
+ *         set((s) => ({ items: s.items.map((i) => (i.id === id ? { ...i, quantity } : i)) })),
+ *     }),
+ *     { schema: cartSchema }
+ *   )
+ * )
+ *
+ * useCartStore.getState().setQuantity('a', -1)
+ * // Error: [zustand-lite] Rejected invalid update: state.items[0].quantity: ...
+ *
+ * @example
+ * // State type inferred from the schema: { items: { id: string; quantity: number }[] }
+ * const cartData = createStore(validate(() => ({ items: [] }), { schema: cartSchema }))
+ *
+ * @example
+ * // Validator function, reporting instead of throwing
+ * validate(creator, {
+ *   schema: (s) =>
+ *     ['light', 'dark'].includes(s.theme)
+ *       ? { value: s }
+ *       : { issues: [{ message: 'Unknown theme', path: ['theme'] }] },
+ *   onInvalid: ({ path, issues }) => console.warn(path, issues),
+ * })
+ */
+export const validate = validateImpl as unknown as Validate
+
+export type { Validate }
@@ -18,6 +18,7 @@ import type {
   Selector,
   EqualityFn,
   ReadonlyStoreApi,
+  StoreOptions,
 } from './types'
 
 // ============================================================
@@ -106,13 +107,15 @@ export function useStore<T, U = T>(
  * @template T - Store state type
  * @template Mos - Middleware output mutators
  * @param createState - State creator function
+ * @param options - Store options
  * @returns Bound store hook
  */
 function createImpl<T, Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-  createState: StateCreator<T, [], Mos>
+  createState: StateCreator<T, [], Mos>,
+  options?: StoreOptions<T>
 ): UseBoundStore<Mutate<StoreApi<T>, Mos>> {
   // Create the vanilla store
-  const api = createVanillaStore(createState) as Mutate<StoreApi<T>, Mos>
+  const api = createVanillaStore(createState, options) as Mutate<StoreApi<T>, Mos>
 
   // Create the bound hook
   const useBoundStore = <U = T>(
@@ -188,12 +191,14 @@ function createImpl<T, Mos extends [StoreMutatorIdentifier, unknown][] = []>(
 type Create = {
   // Direct form - type inference from initializer
   <T, Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-    initializer: StateCreator<T, [], Mos>
+    initializer: StateCreator<T, [], Mos>,
+    options?: StoreOptions<T>
   ): UseBoundStore<Mutate<StoreApi<T>, Mos>>
 
   // Curried form - explicit type parameter
   <T>(): <Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-    initializer: StateCreator<T, [], Mos>
+    initializer: StateCreator<T, [], Mos>,
+    options?: StoreOptions<T>
   ) => UseBoundStore<Mutate<StoreApi<T>, Mos>>
 }
 
@@ -203,22 +208,49 @@ type Create = {
  * @see Create for detailed documentation
  */
 export const create = (<T>(
-  createState?: StateCreator<T, [], []>
+  createState?: StateCreator<T, [], []>,
+  options?: StoreOptions<T>
 ): UseBoundStore<StoreApi<T>> | (<Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-    initializer: StateCreator<T, [], Mos>
+    initializer: StateCreator<T, [], Mos>,
+    options?: StoreOptions<T>
   ) => UseBoundStore<Mutate<StoreApi<T>, Mos>>) => {
   // If no createState, return curried function
   if (createState === undefined) {
     return <Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-      initializer: StateCreator<T, [], Mos>
-    ) => createImpl(initializer)
+      initializer: StateCreator<T, [], Mos>,
+      curriedOptions?: StoreOptions<T>
+    ) => createImpl(initializer, curriedOptions)
   }
 
-  return createImpl(createState)
+  return createImpl(createState, options)
 }) as Create
 
 // Re-export types and utilities
-export { createStore } from './vanilla'
+export {
+  createStore,
+  batch,
+  resetAllStores,
+  deriveStore,
+  combineStores,
+  registerStore,
+  listStores,
+  getStore,
+  onStoreCreated,
+  onStoreRemoved,
+  snapshotAll,
+  resetAll,
+  destroyAll,
+} from './vanilla'
+export type {
+  DerivedStoreApi,
+  StoreMap,
+  CombinedState,
+  RegistryOptions,
+  RegisteredStore,
+  RegistryFilter,
+  StoreCreatedListener,
+  StoreRemovedListener,
+} from './vanilla'
 export { shallow } from './utils/shallow'
 export type {
   StateCreator,
@@ -234,4 +266,16 @@ export type {
   SetState,
   GetState,
   Subscribe,
+  Batch,
+  ActionDescriptor,
+  ActionInput,
+  UpdateOrigin,
+  StoreOptions,
+  ListenerErrorContext,
+  ListenerErrorHandler,
+  NotificationMode,
+  Reset,
+  ApplyPatches,
+  JsonPatch,
+  JsonPatchOperation,
 } from './types'
@@ -0,0 +1,358 @@
+/**
+ * Global store registry.
+ *
+ * Opt-in discovery of stores for tooling and bulk operations. Stores join
+ * by passing `name` (and optionally `tags`) in their options, or through
+ * `registerStore`. Destroyed stores leave the registry automatically.
+ *
+ * Separately, every store is tracked weakly for `resetAllStores`: a store
+ * that is never destroyed can still be garbage-collected.
+ *
+ * The registry lives on `globalThis`, so every entry point (`zustand-lite`,
+ * `zustand-lite/ssr`, ...) shares the same one.
+ *
+ * @module registry
+ */
+
+import type { StoreApi } from './types'
+import { batch } from './vanilla'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Options for registering a store.
+ */
+export interface RegistryOptions {
+  /** Name the store is listed under */
+  name: string
+  /** Tags for grouping and filtering */
+  tags?: ReadonlyArray<string>
+}
+
+/**
+ * A registered store.
+ */
+export interface RegisteredStore {
+  name: string
+  tags: ReadonlyArray<string>
+  store: StoreApi<unknown>
+}
+
+/**
+ * Narrows bulk operations to part of the registry.
+ */
+export interface RegistryFilter {
+  /** Only stores with this tag */
+  tag?: string
+}
+
+/**
+ * Called when a store is registered.
+ */
+export type StoreCreatedListener = (entry: RegisteredStore) => void
+
+/**
+ * Called when a store leaves the registry (unregistered or destroyed).
+ */
+export type StoreRemovedListener = (entry: RegisteredStore) => void
+
+interface Registry {
+  entries: Set<RegisteredStore>
+  listeners: Set<StoreCreatedListener>
+  removedListeners: Set<StoreRemovedListener>
+  /** Every live store, named or not, held weakly */
+  liveStores: Set<WeakRef<StoreApi<unknown>>>
+  /** Drops the refs of stores collected without being destroyed */
+  liveStoreFinalizer: FinalizationRegistry<WeakRef<StoreApi<unknown>>>
+  /** Sets collecting the stores created during captureCreatedStores */
+  captures: Set<Set<StoreApi<unknown>>>
+}
+
+// ============================================================
+// REGISTRY STATE
+// ============================================================
+
+const REGISTRY_KEY = Symbol.for('zustand-lite/registry')
+
+/**
+ * Returns the shared registry, creating it on first use.
+ */
+const getRegistry = (): Registry => {
+  const holder = globalThis as typeof globalThis & {
+    [REGISTRY_KEY]?: Registry
+  }
+  if (!holder[REGISTRY_KEY]) {
+    const liveStores = new Set<WeakRef<StoreApi<unknown>>>()
+    holder[REGISTRY_KEY] = {
+      entries: new Set(),
+      listeners: new Set(),
+      removedListeners: new Set(),
+      liveStores,
+      liveStoreFinalizer: new FinalizationRegistry((ref) => {
+        liveStores.delete(ref)
+      }),
+      captures: new Set(),
+    }
+  }
+  return holder[REGISTRY_KEY]
+}
+
+/**
+ * Calls registry listeners with an entry. Each call is isolated: an error
+ * goes to the store's `onError` and the other listeners still run.
+ */
+const notifyRegistryListeners = (
+  listeners: Set<(entry: RegisteredStore) => void>,
+  entry: RegisteredStore
+): void => {
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(entry)
+    } catch (error) {
+      entry.store.reportError(error)
+    }
+  }
+}
+
+/**
+ * Returns the entries matching a filter, in registration order.
+ */
+const matchEntries = (filter: RegistryFilter = {}): RegisteredStore[] =>
+  Array.from(getRegistry().entries).filter(
+    (entry) => filter.tag === undefined || entry.tags.includes(filter.tag)
+  )
+
+// ============================================================
+// REGISTRATION
+// ============================================================
+
+/**
+ * Adds a store to the registry.
+ * The store is removed when it is destroyed or when the returned
+ * function is called.
+ *
+ * Names don't have to be unique (several providers may register the same
+ * name); `getStore` returns the most recently registered one.
+ *
+ * @param store - Store to register
+ * @param options - Name and tags
+ * @returns Function removing the store from the registry
+ *
+ * @example
+ * const unregister = registerStore(store, { name: 'cart', tags: ['shop'] })
+ */
+export const registerStore = (
+  store: StoreApi<unknown>,
+  { name, tags = [] }: RegistryOptions
+): (() => void) => {
+  // A destroyed store can't be used, so there is nothing to list
+  if (store.isDestroyed()) return () => {}
+
+  const registry = getRegistry()
+  const entry: RegisteredStore = { name, tags: [...tags], store }
+
+  registry.entries.add(entry)
+
+  let removeOnDestroy: (() => void) | undefined
+  const unregister = () => {
+    if (!registry.entries.delete(entry)) return
+    removeOnDestroy?.()
+    notifyRegistryListeners(registry.removedListeners, entry)
+  }
+  removeOnDestroy = store.onDestroy(unregister)
+
+  notifyRegistryListeners(registry.listeners, entry)
+
+  return unregister
+}
+
+/**
+ * Lists registered stores.
+ *
+ * @param filter - Optional tag filter
+ * @returns Registered stores in registration order
+ *
+ * @example
+ * listStores().map((entry) => entry.name) // ['cart', 'theme']
+ * listStores({ tag: 'shop' })
+ */
+export const listStores = (filter?: RegistryFilter): RegisteredStore[] =>
+  matchEntries(filter)
+
+/**
+ * Finds a registered store by name.
+ *
+ * @template T - State type
+ * @param name - Store name
+ * @returns The most recently registered store with this name
+ *
+ * @example
+ * const cart = getStore<CartState>('cart')
+ * cart?.getState().items
+ */
+export const getStore = <T = unknown>(name: string): StoreApi<T> | undefined => {
+  const entries = matchEntries()
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i]?.name === name) {
+      return entries[i]?.store as StoreApi<T>
+    }
+  }
+  return undefined
+}
+
+/**
+ * Subscribes to store registrations.
+ * A listener that throws does not affect store creation: its error goes
+ * to the new store's `onError`.
+ *
+ * @param listener - Called with each newly registered store
+ * @returns Unsubscribe function
+ *
+ * @example
+ * onStoreCreated(({ name, store }) => {
+ *   store.subscribe(() => console.log(`${name} changed`))
+ * })
+ */
+export const onStoreCreated = (listener: StoreCreatedListener): (() => void) => {
+  const { listeners } = getRegistry()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Subscribes to stores leaving the registry, whether unregistered or
+ * destroyed.
+ *
+ * @param listener - Called with each removed store
+ * @returns Unsubscribe function
+ *
+ * @example
+ * onStoreRemoved(({ name }) => console.log(`${name} is gone`))
+ */
+export const onStoreRemoved = (listener: StoreRemovedListener): (() => void) => {
+  const { removedListeners } = getRegistry()
+  removedListeners.add(listener)
+  return () => {
+    removedListeners.delete(listener)
+  }
+}
+
+// ============================================================
+// BULK OPERATIONS
+// ============================================================
+
+/**
+ * Captures the current state of registered stores, keyed by name.
+ * When names repeat, the most recently registered store wins.
+ *
+ * @param filter - Optional tag filter
+ * @returns State of each store by name
+ *
+ * @example
+ * console.log(JSON.stringify(snapshotAll()))
+ */
+export const snapshotAll = (filter?: RegistryFilter): Record<string, unknown> => {
+  const snapshot: Record<string, unknown> = {}
+  for (const { name, store } of matchEntries(filter)) {
+    snapshot[name] = store.getState()
+  }
+  return snapshot
+}
+
+/**
+ * Resets registered stores to their initial state.
+ * Runs inside a batch, so listeners observing several stores see
+ * all of them reset at once.
+ *
+ * @param filter - Optional tag filter
+ *
+ * @example
+ * resetAll({ tag: 'session' }) // on logout
+ */
+export const resetAll = (filter?: RegistryFilter): void => {
+  batch(() => {
+    for (const { store } of matchEntries(filter)) {
+      store.reset()
+    }
+  })
+}
+
+// ============================================================
+// LIVE STORES
+// ============================================================
+
+/**
+ * Tracks a store for `resetAllStores`. Called for every store on
+ * creation; the returned function stops tracking it (on destroy).
+ *
+ * The store is held through a WeakRef, so tracking never keeps it alive.
+ *
+ * @internal
+ */
+export const trackStore = (store: StoreApi<unknown>): (() => void) => {
+  const { liveStores, liveStoreFinalizer, captures } = getRegistry()
+  const ref = new WeakRef(store)
+  liveStores.add(ref)
+  liveStoreFinalizer.register(store, ref, ref)
+  captures.forEach((created) => created.add(store))
+
+  return () => {
+    liveStores.delete(ref)
+    liveStoreFinalizer.unregister(ref)
+  }
+}
+
+/**
+ * Calls a function and collects the stores created while it runs.
+ * StoreProvider uses it to destroy only the stores it created.
+ *
+ * @internal
+ */
+export const captureCreatedStores = <R>(
+  fn: () => R
+): [result: R, created: Set<StoreApi<unknown>>] => {
+  const { captures } = getRegistry()
+  const created = new Set<StoreApi<unknown>>()
+  captures.add(created)
+  try {
+    return [fn(), created]
+  } finally {
+    captures.delete(created)
+  }
+}
+
+/**
+ * Resets every live store to its initial state, named or not.
+ * Runs inside a batch, so listeners observing several stores see
+ * all of them reset at once.
+ *
+ * Useful for test setup and logout flows. Destroyed stores are skipped.
+ * Use `resetAll` to reset only registered stores, or a tag.
+ *
+ * @example
+ * beforeEach(() => {
+ *   resetAllStores()
+ * })
+ */
+export const resetAllStores = (): void => {
+  batch(() => {
+    for (const ref of Array.from(getRegistry().liveStores)) {
+      ref.deref()?.reset()
+    }
+  })
+}
+
+/**
+ * Destroys registered stores (which also removes them from the registry).
+ *
+ * @param filter - Optional tag filter
+ */
+export const destroyAll = (filter?: RegistryFilter): void => {
+  for (const { store } of matchEntries(filter)) {
+    store.destroy()
+  }
+}
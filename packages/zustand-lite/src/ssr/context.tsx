@@ -12,11 +12,17 @@
 import {
   createContext,
   useContext,
+  useEffect,
   useRef,
   type ReactNode,
 } from 'react'
 import { useStore } from '../react'
-import type { StoreApi, Selector, EqualityFn } from '../types'
+import {
+  registerStore,
+  captureCreatedStores,
+  type RegistryOptions,
+} from '../registry'
+import type { StoreApi, ReadonlyStoreApi, Selector, EqualityFn } from '../types'
 
 // ============================================================
 // TYPES
@@ -39,7 +45,7 @@ export interface StoreProviderProps<T> {
  * @template T - State type
  * @template Store - Store API type
  */
-export interface StoreContextValue<T, Store extends StoreApi<T>> {
+export interface StoreContextValue<T, Store extends ReadonlyStoreApi<T>> {
   /** Provider component */
   StoreProvider: (props: StoreProviderProps<T>) => ReactNode
   /** Hook to use store with selector */
@@ -54,6 +60,18 @@ export interface StoreContextValue<T, Store extends StoreApi<T>> {
   StoreContext: React.Context<Store | null>
 }
 
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Checks whether a store is a full (writable, destroyable) store.
+ */
+const isStoreApi = <T,>(
+  store: ReadonlyStoreApi<T> | undefined
+): store is StoreApi<T> =>
+  store !== undefined && typeof (store as Partial<StoreApi<T>>).destroy === 'function'
+
 // ============================================================
 // IMPLEMENTATION
 // ============================================================
@@ -67,6 +85,8 @@ export interface StoreContextValue<T, Store extends StoreApi<T>> {
  * @template T - State type
  * @template Store - Store API type
  * @param createStoreFn - Function that creates the store
+ * @param registryOptions - Registers each provider's store in the global
+ *   registry under this name while the provider is mounted
  * @returns Object with Provider, hooks, and Context
  *
  * @example
@@ -99,6 +119,10 @@ export interface StoreContextValue<T, Store extends StoreApi<T>> {
  * } = createStoreContext(createCartStore)
  *
  * @example
+ * // Listed in the registry while each provider is mounted
+ * createStoreContext(createCartStore, { name: 'cart', tags: ['shop'] })
+ *
+ * @example
  * // app/layout.tsx
  * import { CartProvider } from '@/stores/cart-store'
  *
@@ -125,9 +149,17 @@ export interface StoreContextValue<T, Store extends StoreApi<T>> {
  *
  *   return <div>{items.length} items</div>
  * }
+ *
+ * @example
+ * // Read-only stores work too: the provider hands out a projection
+ * const { StoreProvider: SummaryProvider, useStoreContext: useSummary } =
+ *   createStoreContext<CartSummary, DerivedStoreApi<CartSummary>>(() =>
+ *     deriveStore(useCartStore, (s) => ({ count: s.items.length }), shallow)
+ *   )
  */
-export function createStoreContext<T, Store extends StoreApi<T> = StoreApi<T>>(
-  createStoreFn: (initialState?: Partial<T>) => Store
+export function createStoreContext<T, Store extends ReadonlyStoreApi<T> = StoreApi<T>>(
+  createStoreFn: (initialState?: Partial<T>) => Store,
+  registryOptions?: RegistryOptions
 ): StoreContextValue<T, Store> {
   // Create React Context
   const StoreContext = createContext<Store | null>(null)
@@ -135,7 +167,9 @@ export function createStoreContext<T, Store extends StoreApi<T> = StoreApi<T>>(
   /**
    * Provider component that creates store on mount.
    * On server: creates new store per request
-   * On client: creates store once and reuses it
+   * On client: creates store once and reuses it, destroying it on unmount
+   * if the provider created it (shared stores returned by createStoreFn
+   * outlive the provider)
    */
   function StoreProvider({
     children,
@@ -143,11 +177,48 @@ export function createStoreContext<T, Store extends StoreApi<T> = StoreApi<T>>(
   }: StoreProviderProps<T>): ReactNode {
     // Use ref to ensure store is created only once
     const storeRef = useRef<Store>()
+    const ownedRef = useRef(false)
+    const mountedRef = useRef(false)
 
     if (!storeRef.current) {
-      storeRef.current = createStoreFn(initialState)
+      const [store, created] = captureCreatedStores(() => createStoreFn(initialState))
+      storeRef.current = store
+      // Compared by destroy, since bound hooks from create() carry the
+      // methods of their store
+      ownedRef.current =
+        isStoreApi(store) &&
+        Array.from(created).some((createdStore) => createdStore.destroy === store.destroy)
     }
 
+    // Destroy the store (and its middleware) when the provider unmounts,
+    // unless createStoreFn returned a store created elsewhere.
+    // Destruction is deferred to a microtask so StrictMode's simulated
+    // unmount/remount keeps the same store alive.
+    useEffect(() => {
+      // Read-only stores (deriveStore, combineStores) have nothing to
+      // destroy and can't be registered
+      const store = isStoreApi(storeRef.current) ? storeRef.current : undefined
+      const owned = ownedRef.current
+      mountedRef.current = true
+
+      // Register this provider's store; effects don't run on the server,
+      // so per-request stores never reach the global registry
+      const unregister =
+        store && registryOptions
+          ? registerStore(store as StoreApi<unknown>, registryOptions)
+          : undefined
+
+      return () => {
+        unregister?.()
+        mountedRef.current = false
+        queueMicrotask(() => {
+          if (!mountedRef.current && owned) {
+            store?.destroy()
+          }
+        })
+      }
+    }, [])
+
     return (
       <StoreContext.Provider value={storeRef.current}>
         {children}
@@ -0,0 +1,304 @@
+/**
+ * Cookie storage for zustand-lite persist middleware.
+ *
+ * Persisted state travels with every request, so the server can render
+ * it right away: read the request's `Cookie` header with
+ * `getCookieState` and pass the result to a `StoreProvider` as
+ * `initialState`. Values larger than a cookie allows are split into
+ * several cookies.
+ *
+ * @module storage/cookie
+ */
+
+import type { PersistStorage } from '../middleware/persist'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Cookie storage options.
+ */
+export interface CookieStorageOptions {
+  /**
+   * Cookie path.
+   * @default '/'
+   */
+  path?: string
+
+  /** Cookie domain (defaults to the current host) */
+  domain?: string
+
+  /**
+   * Cookie lifetime in seconds.
+   * @default 31536000 (one year)
+   */
+  maxAge?: number
+
+  /**
+   * `SameSite` attribute.
+   * @default 'Lax'
+   */
+  sameSite?: 'Strict' | 'Lax' | 'None'
+
+  /**
+   * `Secure` attribute. Always set with `sameSite: 'None'`.
+   * @default true on https pages
+   */
+  secure?: boolean
+
+  /**
+   * Maximum encoded length of one cookie value; longer values are split
+   * into `name.0`, `name.1`, ... cookies. Browsers limit a cookie to
+   * about 4KB including its name.
+   * @default 3800
+   */
+  chunkSize?: number
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const DEFAULT_MAX_AGE = 60 * 60 * 24 * 365
+const DEFAULT_CHUNK_SIZE = 3800
+
+/**
+ * Prefix of the main cookie value when the value is split into chunks:
+ * `chunks:3` means `name.0` to `name.2` hold the value. Never clashes
+ * with a value, which always starts with an encoded JSON character.
+ */
+const CHUNKS_PREFIX = 'chunks:'
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Parses a `Cookie` header (or `document.cookie`) into a map of
+ * decoded names to raw values.
+ */
+const parseCookies = (header: string): Map<string, string> => {
+  const cookies = new Map<string, string>()
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=')
+    if (index === -1) continue
+    try {
+      cookies.set(decodeURIComponent(pair.slice(0, index).trim()), pair.slice(index + 1).trim())
+    } catch {
+      // Skip cookies with malformed names
+    }
+  }
+
+  return cookies
+}
+
+/**
+ * Returns the number of chunks a stored value is split into (0 when it
+ * is stored in a single cookie or not at all).
+ */
+const getChunkCount = (cookies: Map<string, string>, name: string): number => {
+  const value = cookies.get(name)
+  return value?.startsWith(CHUNKS_PREFIX) ? Number(value.slice(CHUNKS_PREFIX.length)) || 0 : 0
+}
+
+/**
+ * Reads a value stored by cookie storage, joining its chunks.
+ */
+const readValue = <T>(cookies: Map<string, string>, name: string): T | null => {
+  const value = cookies.get(name)
+  if (value === undefined) return null
+
+  let encoded = value
+  const count = getChunkCount(cookies, name)
+  if (count > 0) {
+    const chunks: string[] = []
+    for (let index = 0; index < count; index++) {
+      const chunk = cookies.get(`${name}.${index}`)
+      // A partially written or expired value is unusable
+      if (chunk === undefined) return null
+      chunks.push(chunk)
+    }
+    encoded = chunks.join('')
+  }
+
+  try {
+    return JSON.parse(decodeURIComponent(encoded)) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Splits an encoded value into chunks of at most `size` characters,
+ * never cutting a `%XX` escape in half.
+ */
+const splitChunks = (encoded: string, size: number): string[] => {
+  const chunks: string[] = []
+  let start = 0
+
+  while (start < encoded.length) {
+    let end = Math.min(start + size, encoded.length)
+    const escape = encoded.lastIndexOf('%', end - 1)
+    if (escape > end - 3 && escape > start && end < encoded.length) end = escape
+    chunks.push(encoded.slice(start, end))
+    start = end
+  }
+
+  return chunks
+}
+
+// ============================================================
+// STORAGE IMPLEMENTATION
+// ============================================================
+
+/**
+ * Creates a persist storage backed by cookies.
+ *
+ * Values are stored as URI-encoded JSON. A value longer than
+ * `chunkSize` is split into several cookies; stale chunks of a previous,
+ * longer value are removed. Outside the browser (no `document`) the
+ * storage reads nothing and writes nothing: on the server, read the
+ * request's `Cookie` header with `getCookieState` instead.
+ *
+ * Keep persisted cookie state small: every cookie is sent with every
+ * request to the domain.
+ *
+ * @param options - Cookie attributes and chunk size
+ * @returns PersistStorage implementation
+ *
+ * @example
+ * const createThemeStore = (initialState?: Partial<ThemeState>) =>
+ *   create<ThemeState>()(
+ *     persist(
+ *       (set) => ({
+ *         theme: 'system',
+ *         ...initialState,
+ *         setTheme: (theme) => set({ theme }),
+ *       }),
+ *       {
+ *         name: 'theme',
+ *         storage: createCookieStorage({ sameSite: 'Lax', maxAge: 60 * 60 * 24 * 365 }),
+ *         partialize: (s) => ({ theme: s.theme }),
+ *       }
+ *     )
+ *   )
+ */
+export function createCookieStorage<T>(options: CookieStorageOptions = {}): PersistStorage<T> {
+  const {
+    path = '/',
+    domain,
+    maxAge = DEFAULT_MAX_AGE,
+    sameSite = 'Lax',
+    chunkSize = DEFAULT_CHUNK_SIZE,
+  } = options
+
+  const secure =
+    sameSite === 'None' ||
+    (options.secure ?? (typeof location !== 'undefined' && location.protocol === 'https:'))
+
+  const writeCookie = (name: string, value: string, age: number): void => {
+    let cookie = `${encodeURIComponent(name)}=${value}; Path=${path}; Max-Age=${age}; SameSite=${sameSite}`
+    if (domain) cookie += `; Domain=${domain}`
+    if (secure) cookie += '; Secure'
+    document.cookie = cookie
+  }
+
+  const removeChunks = (name: string, from: number, to: number): void => {
+    for (let index = from; index < to; index++) {
+      writeCookie(`${name}.${index}`, '', 0)
+    }
+  }
+
+  return {
+    getItem: (name) => {
+      if (typeof document === 'undefined') return null
+      return readValue<T>(parseCookies(document.cookie), name)
+    },
+    setItem: (name, value) => {
+      if (typeof document === 'undefined') return
+      try {
+        const previousCount = getChunkCount(parseCookies(document.cookie), name)
+        const encoded = encodeURIComponent(JSON.stringify(value))
+
+        if (encoded.length <= chunkSize) {
+          writeCookie(name, encoded, maxAge)
+          removeChunks(name, 0, previousCount)
+          return
+        }
+
+        const chunks = splitChunks(encoded, chunkSize)
+        chunks.forEach((chunk, index) => writeCookie(`${name}.${index}`, chunk, maxAge))
+        writeCookie(name, `${CHUNKS_PREFIX}${chunks.length}`, maxAge)
+        removeChunks(name, chunks.length, previousCount)
+      } catch {
+        // Ignore storage errors (unserializable values, etc.)
+      }
+    },
+    removeItem: (name) => {
+      if (typeof document === 'undefined') return
+      const count = getChunkCount(parseCookies(document.cookie), name)
+      writeCookie(name, '', 0)
+      removeChunks(name, 0, count)
+    },
+  }
+}
+
+// ============================================================
+// SERVER
+// ============================================================
+
+/**
+ * Reads a value written by `createCookieStorage` from a `Cookie` header:
+ * the whole stored value (`{ state, version }` for persist).
+ *
+ * @param cookieHeader - The request's `Cookie` header
+ * @param name - Persist `name` of the store
+ * @returns The stored value, or null when missing or unreadable
+ */
+export function parseCookieStorage<T>(
+  cookieHeader: string | null | undefined,
+  name: string
+): T | null {
+  if (!cookieHeader) return null
+  return readValue<T>(parseCookies(cookieHeader), name)
+}
+
+/**
+ * Reads the state a persisted store saved with `createCookieStorage`
+ * from a request's `Cookie` header, ready to pass to `StoreProvider` as
+ * `initialState`. The first server render then matches what the client
+ * rehydrates, with no flash of default state.
+ *
+ * Stored versions are not migrated: check `parseCookieStorage` when
+ * `version` matters.
+ *
+ * @param cookieHeader - The request's `Cookie` header
+ * @param name - Persist `name` of the store
+ * @returns Persisted state, or undefined when there is none
+ *
+ * @example
+ * // app/layout.tsx (server component)
+ * import { headers } from 'next/headers'
+ * import { getCookieState } from 'zustand-lite/storage'
+ *
+ * export default function RootLayout({ children }) {
+ *   const initialState = getCookieState<ThemeState>(headers().get('cookie'), 'theme')
+ *
+ *   return (
+ *     <html className={initialState?.theme === 'dark' ? 'dark' : undefined}>
+ *       <body>
+ *         <ThemeProvider initialState={initialState}>{children}</ThemeProvider>
+ *       </body>
+ *     </html>
+ *   )
+ * }
+ */
+export function getCookieState<T>(
+  cookieHeader: string | null | undefined,
+  name: string
+): Partial<T> | undefined {
+  const value = parseCookieStorage<{ state?: Partial<T> }>(cookieHeader, name)
+  return value?.state ?? undefined
+}
@@ -0,0 +1,301 @@
+/**
+ * Filesystem storage for zustand-lite persist middleware (Node only).
+ *
+ * Persists vanilla stores in CLIs, scripts and test harnesses, where
+ * the default localStorage wrapper stores nothing. Each store is one
+ * JSON file; writes are atomic and serialized across processes.
+ *
+ * @module storage/file
+ */
+
+import { promises as fs, watch as watchDirectory, type FSWatcher } from 'node:fs'
+import { join } from 'node:path'
+import type { PersistStorage } from '../middleware/persist'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * File storage options.
+ */
+export interface FileStorageOptions {
+  /**
+   * Watch the files for changes made by other processes; persist
+   * rehydrates the store when its file changes.
+   * @default false
+   */
+  watch?: boolean
+
+  /**
+   * How long a write waits for another process's lock (ms) before it
+   * is given up.
+   * @default 5000
+   */
+  lockTimeout?: number
+
+  /**
+   * Age (ms) after which a lock is considered left behind by a crashed
+   * process and is removed.
+   * @default 10000
+   */
+  staleLockMs?: number
+
+  /**
+   * Indentation of the JSON files (`JSON.stringify` `space`).
+   * @default 2
+   */
+  space?: number
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const DEFAULT_LOCK_TIMEOUT = 5000
+const DEFAULT_STALE_LOCK_MS = 10000
+
+/** Delay between attempts to take a held lock (ms) */
+const LOCK_RETRY_MS = 20
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Returns the file name of a store: its name made safe for any
+ * filesystem.
+ */
+const toFileName = (name: string): string => `${encodeURIComponent(name)}.json`
+
+/**
+ * Whether an error is a Node filesystem error with the given code.
+ */
+const hasCode = (error: unknown, code: string): boolean =>
+  (error as NodeJS.ErrnoException | null)?.code === code
+
+/** Resolves after `ms` milliseconds */
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Takes an exclusive lock by creating `lockPath`, waiting while another
+ * process holds it. Locks older than `staleMs` are broken. Returns the
+ * function releasing the lock.
+ */
+const acquireLock = async (
+  lockPath: string,
+  timeout: number,
+  staleMs: number
+): Promise<() => Promise<void>> => {
+  const deadline = Date.now() + timeout
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx')
+      await handle.close()
+      return () => fs.rm(lockPath, { force: true })
+    } catch (error) {
+      if (!hasCode(error, 'EEXIST')) throw error
+    }
+
+    try {
+      const { mtimeMs } = await fs.stat(lockPath)
+      if (Date.now() - mtimeMs > staleMs) {
+        await fs.rm(lockPath, { force: true })
+        continue
+      }
+    } catch (error) {
+      // Released between our attempts: try again right away
+      if (hasCode(error, 'ENOENT')) continue
+      throw error
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`[zustand-lite] file storage: timed out waiting for lock "${lockPath}"`)
+    }
+    await sleep(LOCK_RETRY_MS)
+  }
+}
+
+// ============================================================
+// STORAGE IMPLEMENTATION
+// ============================================================
+
+/**
+ * Creates a persist storage writing each store to `<dir>/<name>.json`.
+ *
+ * Writes go to a temporary file that is then renamed over the store's
+ * file, so readers never see a half-written file. Writes and removals
+ * take a `<name>.json.lock` file first, so concurrent processes never
+ * interleave; a lock left by a crashed process is broken after
+ * `staleLockMs`. The directory is created on first write.
+ *
+ * With `watch: true`, the storage watches `dir` and persist rehydrates
+ * a store whenever another process changes its file. The watcher does
+ * not keep the process alive and is closed when the last store using it
+ * is destroyed.
+ *
+ * Errors are swallowed like in `createJSONStorage`: a missing or
+ * unreadable file rehydrates nothing.
+ *
+ * @param dir - Directory holding the files
+ * @param options - Watch mode, locking and formatting
+ * @returns PersistStorage implementation
+ *
+ * @example
+ * import { createStore } from 'zustand-lite/vanilla'
+ * import { persist } from 'zustand-lite/middleware'
+ * import { createFileStorage } from 'zustand-lite/storage/file'
+ *
+ * const configStore = createStore<ConfigState>()(
+ *   persist(
+ *     (set) => ({
+ *       token: null,
+ *       setToken: (token) => set({ token }),
+ *     }),
+ *     { name: 'config', storage: createFileStorage('.cli-state', { watch: true }) }
+ *   )
+ * )
+ *
+ * await configStore.persist.rehydrate()
+ */
+export function createFileStorage<T>(
+  dir: string,
+  options: FileStorageOptions = {}
+): PersistStorage<T> {
+  const {
+    watch = false,
+    lockTimeout = DEFAULT_LOCK_TIMEOUT,
+    staleLockMs = DEFAULT_STALE_LOCK_MS,
+    space = 2,
+  } = options
+
+  /**
+   * Last content read or written per store. Watch events for content we
+   * already know (our own writes) are ignored.
+   */
+  const knownContent = new Map<string, string | null>()
+
+  const withLock = async (name: string, operation: (path: string) => Promise<void>) => {
+    const path = join(dir, toFileName(name))
+    await fs.mkdir(dir, { recursive: true })
+    const release = await acquireLock(`${path}.lock`, lockTimeout, staleLockMs)
+    try {
+      await operation(path)
+    } finally {
+      await release()
+    }
+  }
+
+  const readContent = async (name: string): Promise<string | null> => {
+    try {
+      return await fs.readFile(join(dir, toFileName(name)), 'utf8')
+    } catch (error) {
+      if (hasCode(error, 'ENOENT')) return null
+      throw error
+    }
+  }
+
+  const storage: PersistStorage<T> = {
+    getItem: async (name) => {
+      try {
+        const content = await readContent(name)
+        knownContent.set(name, content)
+        return content === null ? null : (JSON.parse(content) as T)
+      } catch {
+        return null
+      }
+    },
+    setItem: async (name, value) => {
+      try {
+        const content = JSON.stringify(value, null, space)
+        await withLock(name, async (path) => {
+          const temporaryPath = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+          knownContent.set(name, content)
+          try {
+            await fs.writeFile(temporaryPath, content, 'utf8')
+            await fs.rename(temporaryPath, path)
+          } catch (error) {
+            await fs.rm(temporaryPath, { force: true })
+            throw error
+          }
+        })
+      } catch {
+        // Ignore storage errors (lock timeout, permissions, etc.)
+      }
+    },
+    removeItem: async (name) => {
+      try {
+        await withLock(name, async (path) => {
+          knownContent.set(name, null)
+          await fs.rm(path, { force: true })
+        })
+      } catch {
+        // Ignore storage errors
+      }
+    },
+  }
+
+  if (!watch) return storage
+
+  /** Change callbacks by store name */
+  const listeners = new Map<string, Set<() => void>>()
+  let watcher: FSWatcher | null = null
+
+  /**
+   * Notifies a store's listeners if its file holds content we have not
+   * read or written ourselves.
+   */
+  const checkForChanges = async (name: string): Promise<void> => {
+    const content = await readContent(name).catch(() => undefined)
+    if (content === undefined || content === knownContent.get(name)) return
+    knownContent.set(name, content)
+    listeners.get(name)?.forEach((callback) => callback())
+  }
+
+  const startWatching = (): void => {
+    try {
+      // The directory is watched, not the files: renames replace them
+      watcher = watchDirectory(dir, { persistent: false }, (_event, fileName) => {
+        const changed = fileName?.toString()
+        for (const name of listeners.keys()) {
+          if (changed === undefined || changed === toFileName(name)) void checkForChanges(name)
+        }
+      })
+      watcher.on('error', () => {})
+    } catch {
+      // Directory missing or not watchable: changes are not reported
+      watcher = null
+    }
+  }
+
+  storage.subscribe = (name, callback) => {
+    let callbacks = listeners.get(name)
+    if (!callbacks) {
+      callbacks = new Set()
+      listeners.set(name, callbacks)
+    }
+    callbacks.add(callback)
+
+    if (!watcher) {
+      // The watcher needs the directory to exist before the first write
+      void fs
+        .mkdir(dir, { recursive: true })
+        .catch(() => {})
+        .then(() => {
+          if (!watcher && listeners.size > 0) startWatching()
+        })
+    }
+
+    return () => {
+      callbacks.delete(callback)
+      if (callbacks.size === 0) listeners.delete(name)
+      if (listeners.size === 0) {
+        watcher?.close()
+        watcher = null
+      }
+    }
+  }
+
+  return storage
+}
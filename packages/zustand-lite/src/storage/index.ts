@@ -0,0 +1,22 @@
+/**
+ * Storage implementations for zustand-lite persist middleware.
+ *
+ * @module storage
+ *
+ * @example
+ * import { persist } from 'zustand-lite/middleware'
+ * import { createIndexedDBStorage, createCookieStorage } from 'zustand-lite/storage'
+ */
+
+export { createIndexedDBStorage } from './indexedDB'
+export type { IndexedDBStorageOptions, IndexedDBUpgrade } from './indexedDB'
+
+export { createCookieStorage, getCookieState, parseCookieStorage } from './cookie'
+export type { CookieStorageOptions } from './cookie'
+
+export { compressTransform, encryptTransform } from './transforms'
+export type {
+  CompressTransformOptions,
+  EncryptTransformOptions,
+  TransformCodecOptions,
+} from './transforms'
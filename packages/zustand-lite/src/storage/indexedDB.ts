@@ -0,0 +1,312 @@
+/**
+ * IndexedDB storage for zustand-lite persist middleware.
+ *
+ * Stores values with the structured clone algorithm instead of JSON, so
+ * `Date`, `Map`, `Set`, `Blob` and typed arrays survive a reload, and
+ * writes are not limited by the ~5MB Web Storage quota. Storages sharing
+ * a database share one connection.
+ *
+ * @module storage/indexedDB
+ */
+
+import type { PersistStorage } from '../middleware/persist'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Called while the database is being upgraded to a new version, before
+ * the storage's object store is created. Runs inside the `versionchange`
+ * transaction: create indexes, move or delete old object stores here.
+ */
+export type IndexedDBUpgrade = (
+  db: IDBDatabase,
+  oldVersion: number,
+  newVersion: number,
+  transaction: IDBTransaction
+) => void
+
+/**
+ * IndexedDB storage options.
+ *
+ * @template T - Type of stored value
+ */
+export interface IndexedDBStorageOptions<T> {
+  /**
+   * Database name; storages with the same name share one connection.
+   * @default 'zustand-lite'
+   */
+  dbName?: string
+
+  /**
+   * Object store holding the values, one record per persisted store.
+   * Created on first use.
+   * @default 'state'
+   */
+  storeName?: string
+
+  /**
+   * Minimum database version. Raise it together with `upgrade` to
+   * migrate the database. Missing object stores bump the version
+   * automatically.
+   */
+  version?: number
+
+  /** Runs when this storage upgrades the database */
+  upgrade?: IndexedDBUpgrade
+
+  /**
+   * Storage used when IndexedDB is unavailable (SSR, private modes,
+   * blocked by the browser). Defaults to no storage at all.
+   *
+   * @example
+   * fallback: createJSONStorage(() => localStorage)
+   */
+  fallback?: PersistStorage<T>
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const DEFAULT_DB_NAME = 'zustand-lite'
+const DEFAULT_STORE_NAME = 'state'
+
+/**
+ * Open connections by database name. Each entry chains on the previous
+ * one, so concurrent storages never open the same database twice.
+ */
+const connections = new Map<string, Promise<IDBDatabase>>()
+
+/**
+ * Storage used when IndexedDB is unavailable and no fallback is given.
+ */
+const noopStorage: PersistStorage<unknown> = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Returns a copy of a value the structured clone algorithm accepts:
+ * functions (store actions) are dropped, as `JSON.stringify` would.
+ * Only plain objects and arrays are walked; class instances such as
+ * `Date` or `Map` are kept as they are.
+ */
+const toCloneable = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === 'function' ? null : toCloneable(item)))
+  }
+  if (typeof value !== 'object' || value === null) return value
+
+  const prototype = Object.getPrototypeOf(value)
+  if (prototype !== Object.prototype && prototype !== null) return value
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== 'function') result[key] = toCloneable(item)
+  }
+  return result
+}
+
+/**
+ * Wraps an `IDBRequest` in a promise.
+ */
+const promisify = <R>(request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Waits for a transaction to commit and resolves with the result of its
+ * request. Rejects with the transaction's error when it aborts, e.g.
+ * when a write exceeds the quota after the request succeeded.
+ */
+const complete = <R>(transaction: IDBTransaction, request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onabort = () =>
+      reject(
+        transaction.error ??
+          request.error ??
+          new Error('[zustand-lite] IndexedDB transaction was aborted')
+      )
+  })
+
+/**
+ * Opens a database, running the upgrade and creating the object store
+ * when the version changes.
+ */
+const openDatabase = (
+  dbName: string,
+  storeName: string,
+  version: number | undefined,
+  upgrade: IndexedDBUpgrade | undefined
+): Promise<IDBDatabase> => {
+  const request = indexedDB.open(dbName, version)
+
+  request.onupgradeneeded = (event) => {
+    const db = request.result
+    upgrade?.(db, event.oldVersion, event.newVersion ?? db.version, request.transaction!)
+    if (!db.objectStoreNames.contains(storeName)) {
+      db.createObjectStore(storeName)
+    }
+  }
+
+  return promisify(request)
+}
+
+/**
+ * Returns the shared connection to `dbName`, reopening it at a higher
+ * version when the object store is missing or `version` is newer.
+ */
+const connect = (
+  dbName: string,
+  storeName: string,
+  version: number | undefined,
+  upgrade: IndexedDBUpgrade | undefined
+): Promise<IDBDatabase> => {
+  const isReady = (db: IDBDatabase): boolean =>
+    db.objectStoreNames.contains(storeName) && (version === undefined || db.version >= version)
+
+  const ensure = async (db: IDBDatabase | null): Promise<IDBDatabase> => {
+    if (db && isReady(db)) return db
+
+    // Only a version change can add an object store
+    const target = db ? Math.max(db.version + 1, version ?? 0) : version
+    db?.close()
+
+    const opened = await openDatabase(dbName, storeName, target, upgrade)
+    // An existing database opened at its current version may still lack the store
+    return isReady(opened) ? opened : ensure(opened)
+  }
+
+  const previous = connections.get(dbName) ?? Promise.resolve(null)
+  const pending = previous.catch(() => null).then(ensure)
+
+  /** Drops this connection, so the next call opens a new one */
+  const forget = (): void => {
+    if (connections.get(dbName) === pending) connections.delete(dbName)
+  }
+
+  pending.then(
+    (db) => {
+      // Another tab upgrades the database: let it, and reconnect on next use
+      db.onversionchange = () => {
+        db.close()
+        forget()
+      }
+      // Closed by the browser (database deleted, storage cleared)
+      db.onclose = forget
+    },
+    forget
+  )
+
+  connections.set(dbName, pending)
+  return pending
+}
+
+// ============================================================
+// STORAGE IMPLEMENTATION
+// ============================================================
+
+/**
+ * Creates a persist storage backed by IndexedDB.
+ *
+ * Values are stored as they are (structured clone), one record per
+ * persisted store keyed by its `name`; store actions are dropped. The
+ * connection is opened on first use and shared by every storage on the
+ * same database. When IndexedDB is unavailable or cannot be opened, the
+ * storage uses `fallback` (by default it stores nothing); a database that
+ * failed to open, closed or was upgraded elsewhere is reopened on the
+ * next call.
+ *
+ * Failed reads and writes reject with the transaction's error (quota
+ * exceeded, aborted transaction). persist reports them: reads through
+ * `onRehydrateStorage`, writes through the store's `onError`.
+ *
+ * @param options - Database, object store, version and fallback
+ * @returns PersistStorage implementation
+ *
+ * @example
+ * const useBoardStore = create<BoardState>()(
+ *   persist(
+ *     (set) => ({
+ *       cards: new Map(),
+ *       updatedAt: new Date(),
+ *       addCard: (card) => set((s) => ({ cards: new Map(s.cards).set(card.id, card) })),
+ *     }),
+ *     { name: 'board', storage: createIndexedDBStorage({ dbName: 'app' }) }
+ *   )
+ * )
+ *
+ * @example
+ * // Versioned upgrade: drop an object store from a previous release
+ * createIndexedDBStorage({
+ *   dbName: 'app',
+ *   version: 3,
+ *   upgrade: (db, oldVersion) => {
+ *     if (oldVersion < 3 && db.objectStoreNames.contains('legacy')) {
+ *       db.deleteObjectStore('legacy')
+ *     }
+ *   },
+ * })
+ */
+export function createIndexedDBStorage<T>(
+  options: IndexedDBStorageOptions<T> = {}
+): PersistStorage<T> {
+  const {
+    dbName = DEFAULT_DB_NAME,
+    storeName = DEFAULT_STORE_NAME,
+    version,
+    upgrade,
+    fallback = noopStorage as PersistStorage<T>,
+  } = options
+
+  /** IndexedDB is missing altogether (SSR, old browsers) */
+  const unsupported = typeof indexedDB === 'undefined'
+
+  /**
+   * Runs one request in its own transaction; resolves with `null` when
+   * IndexedDB is unavailable so callers can use the fallback.
+   */
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<{ result: R } | null> => {
+    if (unsupported) return null
+
+    let db: IDBDatabase
+    try {
+      db = await connect(dbName, storeName, version, upgrade)
+    } catch {
+      // The failed connection is dropped, so the next call tries again
+      return null
+    }
+
+    const transaction = db.transaction(storeName, mode)
+    const request = operation(transaction.objectStore(storeName))
+    return { result: await complete(transaction, request) }
+  }
+
+  return {
+    getItem: async (name) => {
+      const value = await run('readonly', (store) => store.get(name) as IDBRequest<T | undefined>)
+      return value ? (value.result ?? null) : fallback.getItem(name)
+    },
+    setItem: async (name, value) => {
+      const done = await run('readwrite', (store) => store.put(toCloneable(value), name))
+      if (!done) await fallback.setItem(name, value)
+    },
+    removeItem: async (name) => {
+      const done = await run('readwrite', (store) => store.delete(name))
+      if (!done) await fallback.removeItem(name)
+    },
+  }
+}
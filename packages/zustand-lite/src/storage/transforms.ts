@@ -0,0 +1,231 @@
+/**
+ * Built-in persist transforms: compression and encryption.
+ *
+ * Both serialize their input to JSON and produce a base64 string, so
+ * they work with any storage, including `createJSONStorage`. Combine
+ * them in this order, compressing before encrypting (ciphertext does
+ * not compress):
+ *
+ * @example
+ * transforms: [compressTransform(), encryptTransform({ key })]
+ *
+ * @module storage/transforms
+ */
+
+import type { PersistTransform } from '../middleware/persist'
+import type { JSONCodec } from '../utils/codec'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Options shared by the built-in transforms.
+ */
+export interface TransformCodecOptions {
+  /**
+   * Replacer and reviver used to serialize the state, e.g. `taggedCodec`
+   * to keep `Date`, `Map` and `Set`. Only matters for the first
+   * transform of the pipeline, which receives the state itself.
+   */
+  codec?: Partial<JSONCodec>
+}
+
+/**
+ * Compression transform options.
+ */
+export type CompressTransformOptions = TransformCodecOptions
+
+/**
+ * Encryption transform options.
+ */
+export interface EncryptTransformOptions extends TransformCodecOptions {
+  /**
+   * AES-GCM key, or a function resolving it (e.g. derived from a
+   * password, or fetched after login). Called on every read and write.
+   *
+   * @example
+   * key: () => crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt', 'decrypt'])
+   */
+  key: CryptoKey | (() => CryptoKey | Promise<CryptoKey>)
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** AES-GCM initialization vector length (bytes), as recommended */
+const IV_LENGTH = 12
+
+/** Characters converted per `String.fromCharCode` call */
+const BASE64_CHUNK = 0x8000
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Encodes bytes as base64.
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let index = 0; index < bytes.length; index += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + BASE64_CHUNK))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decodes base64 into bytes.
+ */
+const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index)
+  }
+  return bytes
+}
+
+/**
+ * Runs bytes through a `CompressionStream` or `DecompressionStream`.
+ */
+const pipeBytes = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter()
+  // Failures surface on the readable side
+  // Newer DOM typings only accept views of an ArrayBuffer, which these are
+  writer.write(bytes as BufferSource).catch(() => {})
+  writer.close().catch(() => {})
+
+  const chunks: Uint8Array[] = []
+  let length = 0
+  const reader = stream.readable.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    length += value.length
+  }
+
+  const result = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+// ============================================================
+// TRANSFORMS
+// ============================================================
+
+/**
+ * Creates a transform compressing the persisted state with DEFLATE
+ * (LZ77 with Huffman coding) through the platform `CompressionStream`.
+ * Repetitive states such as lists of similar items shrink several
+ * times, which matters with the ~5MB Web Storage quota.
+ *
+ * Stored values are base64 strings. Requires `CompressionStream`
+ * (all current browsers, Node 18+); without it writes fail and are
+ * ignored like other storage errors.
+ *
+ * @param options - Codec for the state
+ * @returns Persist transform
+ *
+ * @example
+ * persist(creator, {
+ *   name: 'cart',
+ *   transforms: [compressTransform({ codec: taggedCodec })],
+ * })
+ */
+export function compressTransform(
+  options: CompressTransformOptions = {}
+): PersistTransform<unknown, string> {
+  const { replacer, reviver } = options.codec ?? {}
+
+  return {
+    encode: async (value) => {
+      const bytes = new TextEncoder().encode(JSON.stringify(value, replacer))
+      return toBase64(await pipeBytes(bytes, new CompressionStream('deflate')))
+    },
+    decode: async (text) => {
+      const bytes = await pipeBytes(fromBase64(text), new DecompressionStream('deflate'))
+      return JSON.parse(new TextDecoder().decode(bytes), reviver) as unknown
+    },
+  }
+}
+
+/**
+ * Creates a transform encrypting the persisted state with AES-GCM
+ * through WebCrypto, using a key the caller provides. Each write uses a
+ * fresh random IV, stored in front of the ciphertext.
+ *
+ * AES-GCM also authenticates the data: a wrong key or a tampered value
+ * makes rehydration fail, and the error reaches the
+ * `onRehydrateStorage` callback instead of restoring anything.
+ *
+ * Encryption protects data at rest (shared machines, storage dumps); it
+ * does not protect against scripts running on the page, which can use
+ * the same key.
+ *
+ * @param options - Key and codec for the state
+ * @returns Persist transform
+ *
+ * @example
+ * const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+ *   'encrypt',
+ *   'decrypt',
+ * ])
+ *
+ * persist(creator, {
+ *   name: 'settings',
+ *   transforms: [encryptTransform({ key })],
+ *   onRehydrateStorage: () => (_state, error) => {
+ *     if (error) console.warn('Stored settings could not be decrypted', error)
+ *   },
+ * })
+ */
+export function encryptTransform(
+  options: EncryptTransformOptions
+): PersistTransform<unknown, string> {
+  const { key, codec = {} } = options
+  const getKey = (): CryptoKey | Promise<CryptoKey> => (typeof key === 'function' ? key() : key)
+
+  return {
+    encode: async (value) => {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+      const plaintext = new TextEncoder().encode(JSON.stringify(value, codec.replacer))
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await getKey(),
+        plaintext
+      )
+
+      const bytes = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+      bytes.set(iv)
+      bytes.set(new Uint8Array(ciphertext), IV_LENGTH)
+      return toBase64(bytes)
+    },
+    decode: async (text) => {
+      let plaintext: ArrayBuffer
+      try {
+        const bytes = fromBase64(text)
+        plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) as BufferSource },
+          await getKey(),
+          bytes.subarray(IV_LENGTH) as BufferSource
+        )
+      } catch {
+        throw new Error(
+          '[zustand-lite] encryptTransform: the stored state could not be decrypted ' +
+            '(wrong key or corrupted value).'
+        )
+      }
+      return JSON.parse(new TextDecoder().decode(plaintext), codec.reviver) as unknown
+    },
+  }
+}
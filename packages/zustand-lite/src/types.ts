@@ -7,6 +7,46 @@
  * @module types
  */
 
+// ============================================================
+// ACTION TYPES
+// ============================================================
+
+/**
+ * Where a state update came from.
+ *
+ * - `user` - application code (the default)
+ * - `rehydrate` - persist middleware restoring state from storage
+ * - `devtools` - Redux DevTools time travel (jump, rollback, reset)
+ * - `reset` - `api.reset()` / `resetAllStores()`
+ *
+ * Middleware may use their own origin strings.
+ */
+export type UpdateOrigin =
+  | 'user'
+  | 'rehydrate'
+  | 'devtools'
+  | 'reset'
+  | 'patch'
+  | (string & {})
+
+/**
+ * Describes the action behind a state update.
+ * Shown in DevTools and passed to listeners as metadata.
+ */
+export interface ActionDescriptor {
+  /** Action name (e.g. `cart/addItem`) */
+  type: string
+  /** Optional data associated with the action */
+  payload?: unknown
+  /** Where the update came from (defaults to `user`) */
+  origin?: UpdateOrigin
+}
+
+/**
+ * Action accepted by setState: a descriptor or just its type.
+ */
+export type ActionInput = string | ActionDescriptor
+
 // ============================================================
 // LISTENER TYPES
 // ============================================================
@@ -15,9 +55,16 @@
  * Listener function that receives current and previous state.
  * Called whenever the store state changes.
  *
+ * The third argument describes the action behind the update. It is
+ * `undefined` for anonymous updates; otherwise its `origin` is always set.
+ *
  * @template T - The type of the store state
  */
-export type Listener<T> = (state: T, previousState: T) => void
+export type Listener<T> = (
+  state: T,
+  previousState: T,
+  action?: ActionDescriptor
+) => void
 
 // ============================================================
 // STORE API TYPES (Interface Segregation)
@@ -39,14 +86,18 @@ export type GetState<T> = () => T
  * 2. Updater function - receives current state, returns partial state
  * 3. Full replacement - when `replace` is true, replaces entire state
  *
+ * An optional action (name or descriptor) labels the update for
+ * DevTools and listeners.
+ *
  * @template T - The type of the store state
  */
 export type SetState<T> = {
   (
     partial: T | Partial<T> | ((state: T) => T | Partial<T>),
-    replace?: false
+    replace?: false,
+    action?: ActionInput
   ): void
-  (state: T | ((state: T) => T), replace: true): void
+  (state: T | ((state: T) => T), replace: true, action?: ActionInput): void
 }
 
 /**
@@ -59,6 +110,53 @@ export type SetState<T> = {
  */
 export type Subscribe<T> = (listener: Listener<T>) => () => void
 
+/**
+ * Function that runs a callback with listener notifications deferred.
+ * Listeners are notified once, after the outermost batch exits.
+ *
+ * @param fn - Callback performing any number of state updates
+ * @returns The callback's return value
+ */
+export type Batch = <R>(fn: () => R) => R
+
+/**
+ * Function to restore state to its initial values.
+ *
+ * Without arguments, every data key is restored (keys added after creation
+ * are removed). With a list of keys, only those keys are restored.
+ * Functions (actions) are never reset away.
+ *
+ * @template T - The type of the store state
+ * @param keys - Optional keys to reset
+ */
+export type Reset<T> = (keys?: ReadonlyArray<keyof T>) => void
+
+/**
+ * JSON Patch operation (RFC 6902).
+ * Paths are JSON Pointers (RFC 6901): `/items/0/name`, `/items/-` to append.
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; path: string; from: string }
+  | { op: 'copy'; path: string; from: string }
+  | { op: 'test'; path: string; value: unknown }
+
+/**
+ * List of JSON Patch operations, applied in order.
+ */
+export type JsonPatch = ReadonlyArray<JsonPatchOperation>
+
+/**
+ * Function to apply JSON Patch operations to the state.
+ *
+ * @param operations - RFC 6902 operations
+ * @param action - Optional action name or descriptor
+ *   (defaults to `{ type: 'applyPatches', origin: 'patch' }`)
+ */
+export type ApplyPatches = (operations: JsonPatch, action?: ActionInput) => void
+
 /**
  * Core store API interface.
  * Provides methods to get, set, and subscribe to state changes.
@@ -77,8 +175,108 @@ export interface StoreApi<T> {
   setState: SetState<T>
   /** Subscribe to state changes */
   subscribe: Subscribe<T>
-  /** Clean up the store */
+  /** Group updates so listeners are notified once */
+  batch: Batch
+  /** Restore initial values (all keys, or only the given ones) */
+  reset: Reset<T>
+  /** Apply RFC 6902 operations to the state */
+  applyPatches: ApplyPatches
+  /** Clean up the store and run registered cleanup callbacks */
   destroy: () => void
+  /** Register cleanup to run on destroy (returns an unregister function) */
+  onDestroy: (cleanup: () => void) => () => void
+  /** Check whether the store has been destroyed */
+  isDestroyed: () => boolean
+  /**
+   * Pass an error to the store's `onError` handler. For middleware that
+   * run user code outside setState (scheduled listeners, log sinks), so
+   * its errors are handled like listener errors instead of escaping.
+   */
+  reportError: (error: unknown, context?: Partial<ListenerErrorContext<T>>) => void
+}
+
+/**
+ * Details passed to the store's error handler when a listener (or
+ * other user code run by middleware) throws.
+ *
+ * @template T - The type of the store state
+ */
+export interface ListenerErrorContext<T> {
+  /** State the listener was notified with (already committed) */
+  state: T
+  /** State before the update */
+  previousState: T
+  /** Action behind the update, if named */
+  action?: ActionDescriptor
+  /** The listener that threw (absent for errors reported by middleware) */
+  listener?: Listener<T>
+}
+
+/**
+ * Handler for errors thrown by listeners.
+ *
+ * @template T - The type of the store state
+ */
+export type ListenerErrorHandler<T> = (
+  error: unknown,
+  context: ListenerErrorContext<T>
+) => void
+
+/**
+ * How updates made while listeners are running (re-entrant setState)
+ * are delivered.
+ *
+ * - `sequential` - every transition is queued and delivered to every
+ *   listener in order, each with its own matching `previousState`
+ * - `coalesced` - transitions queued during a notification pass are
+ *   merged into one, delivered after the pass with the state the pass
+ *   ended on as `previousState`
+ */
+export type NotificationMode = 'sequential' | 'coalesced'
+
+/**
+ * Options accepted by createStore and create.
+ *
+ * @template T - The type of the store state
+ */
+export interface StoreOptions<T = unknown> {
+  /**
+   * Throw when a destroyed store is updated.
+   * By default the update is ignored with a warning in development.
+   * @default false
+   */
+  strict?: boolean
+
+  /**
+   * Called when a listener throws. The remaining listeners are still
+   * notified. Defaults to `reportError` where available, otherwise
+   * `console.error` in development.
+   */
+  onError?: ListenerErrorHandler<T>
+
+  /**
+   * Delivery order for updates made by listeners.
+   * @default 'sequential'
+   */
+  notificationMode?: NotificationMode
+
+  /**
+   * Registers the store in the global registry under this name
+   * (see `listStores`, `getStore`). Stores without a name stay unlisted.
+   */
+  name?: string
+
+  /** Registry tags, used to filter bulk operations. Requires `name`. */
+  tags?: ReadonlyArray<string>
+
+  /**
+   * Deep-freeze state in place after every update in development, so
+   * mutating it (`getState().items[0].done = true`) throws a TypeError
+   * naming the mutated path. Objects keep their identity. Ignored in
+   * production.
+   * @default false
+   */
+  freeze?: boolean
 }
 
 /**
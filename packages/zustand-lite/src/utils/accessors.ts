@@ -0,0 +1,115 @@
+/**
+ * Accessor (getter) helpers.
+ *
+ * Getters in state are derived fields: the store carries them across
+ * updates, and persist/devtools leave them out of serialized state.
+ *
+ * @module utils/accessors
+ */
+
+import { isFrozenField } from './freeze'
+
+/**
+ * Accessor descriptors of derived fields, keyed by property.
+ */
+export type AccessorMap = Map<PropertyKey, PropertyDescriptor>
+
+/**
+ * Checks whether a value is a non-null object.
+ */
+const isObject = (value: unknown): value is object =>
+  typeof value === 'object' && value !== null
+
+/**
+ * Adds the own accessor properties of a value to the map.
+ * Fields guarded by freezeState hold data and are skipped.
+ *
+ * @param value - Object to scan (non-objects are ignored)
+ * @param accessors - Map to add accessor descriptors to
+ */
+export const collectAccessors = (
+  value: unknown,
+  accessors: AccessorMap
+): void => {
+  if (!isObject(value)) return
+
+  const descriptors = Object.getOwnPropertyDescriptors(value)
+  for (const key of Reflect.ownKeys(descriptors)) {
+    const descriptor = descriptors[key as string]
+    if (descriptor && (descriptor.get || descriptor.set) && !isFrozenField(descriptor)) {
+      accessors.set(key, descriptor)
+    }
+  }
+}
+
+/**
+ * Copies enumerable data properties from source to target,
+ * skipping keys that are derived fields.
+ *
+ * Reads go through the source's own properties, so getters on the
+ * source for skipped keys are never evaluated.
+ *
+ * @param target - Object to copy into
+ * @param source - Object to copy from
+ * @param accessors - Derived field keys to skip
+ * @returns The target
+ */
+export const assignData = <T extends object>(
+  target: T,
+  source: object,
+  accessors: AccessorMap
+): T => {
+  for (const key of Reflect.ownKeys(source)) {
+    if (accessors.has(key)) continue
+    if (!Object.prototype.propertyIsEnumerable.call(source, key)) continue
+    ;(target as Record<PropertyKey, unknown>)[key] = (
+      source as Record<PropertyKey, unknown>
+    )[key]
+  }
+  return target
+}
+
+/**
+ * Defines derived fields on the target as enumerable getters.
+ *
+ * @param target - Object to define accessors on
+ * @param accessors - Accessor descriptors to define
+ * @returns The target
+ */
+export const defineAccessors = <T extends object>(
+  target: T,
+  accessors: AccessorMap
+): T => {
+  accessors.forEach((descriptor, key) => {
+    Object.defineProperty(target, key, {
+      get: descriptor.get,
+      set: descriptor.set,
+      enumerable: true,
+      configurable: true,
+    })
+  })
+  return target
+}
+
+/**
+ * Returns a copy of the value without its own accessor properties.
+ * Values without accessors are returned as is.
+ *
+ * Used to keep derived fields out of storage and DevTools.
+ *
+ * @template T - Value type
+ * @param value - Value to strip
+ * @returns The value without derived fields
+ *
+ * @example
+ * omitAccessors({ items: [], get count() { return 0 } }) // { items: [] }
+ */
+export const omitAccessors = <T>(value: T): T => {
+  if (!isObject(value) || Array.isArray(value)) return value
+
+  const accessors: AccessorMap = new Map()
+  collectAccessors(value, accessors)
+  if (accessors.size === 0) return value
+
+  return assignData({}, value, accessors) as T
+}
@@ -0,0 +1,197 @@
+/**
+ * Tagged JSON codec.
+ *
+ * A `JSON.stringify` replacer and `JSON.parse` reviver pair that
+ * round-trips the values plain JSON loses or breaks on: `Date`, `Map`,
+ * `Set`, `BigInt`, `RegExp`, `NaN`, `Infinity` and `undefined`. Each is
+ * written as a tagged object, e.g. `{ "$type": "Date", "value": "..." }`.
+ * Plain objects that use a `$type` key themselves are escaped, so they
+ * read back unchanged.
+ *
+ * @module utils/codec
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * A `JSON.stringify` replacer and `JSON.parse` reviver that undo each
+ * other. Accepted by `createJSONStorage` and by devtools `serialize`.
+ */
+export interface JSONCodec {
+  replacer: (this: unknown, key: string, value: unknown) => unknown
+  reviver: (this: unknown, key: string, value: unknown) => unknown
+}
+
+/**
+ * A value written by the codec in place of one JSON can't represent.
+ */
+type Tagged =
+  | { $type: 'Date'; value: string }
+  | { $type: 'Map'; value: Array<[unknown, unknown]> }
+  | { $type: 'Set'; value: unknown[] }
+  | { $type: 'BigInt'; value: string }
+  | { $type: 'RegExp'; value: { source: string; flags: string } }
+  | { $type: 'Number'; value: 'NaN' | 'Infinity' | '-Infinity' }
+  | { $type: 'undefined' }
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+/** Key marking a tagged value */
+const TAG = '$type'
+
+const TAG_NAMES: ReadonlySet<string> = new Set([
+  'Date',
+  'Map',
+  'Set',
+  'BigInt',
+  'RegExp',
+  'Number',
+  'undefined',
+])
+
+/** Keys escaped in plain objects: `$type`, `$$type`, ... */
+const ESCAPED_KEY = /^\$+type$/
+
+/**
+ * Stands in for a revived `undefined` until its container is revived:
+ * a reviver returning undefined would delete the key instead.
+ */
+const UNDEFINED = Object.freeze({})
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Checks whether a value is a plain object (not a class instance).
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+  const proto: unknown = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Checks whether a parsed value is a tag written by the codec.
+ */
+const isTagged = (value: unknown): value is Tagged =>
+  isPlainObject(value) && typeof value[TAG] === 'string' && TAG_NAMES.has(value[TAG])
+
+/**
+ * Renames the keys of a plain object: `$type` keys get one more `$`
+ * when writing (`shift` = 1) and lose one when reading (`shift` = -1).
+ */
+const escapeKeys = (value: Record<string, unknown>, shift: 1 | -1): Record<string, unknown> => {
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    const escaped = ESCAPED_KEY.test(key)
+      ? shift === 1
+        ? `$${key}`
+        : key.slice(1)
+      : key
+    result[escaped] = item
+  }
+  return result
+}
+
+/**
+ * Turns a tag back into the value it stands for.
+ */
+const untag = (tagged: Tagged): unknown => {
+  switch (tagged.$type) {
+    case 'Date':
+      return new Date(tagged.value)
+    case 'Map':
+      return new Map(tagged.value)
+    case 'Set':
+      return new Set(tagged.value)
+    case 'BigInt':
+      return BigInt(tagged.value)
+    case 'RegExp':
+      return new RegExp(tagged.value.source, tagged.value.flags)
+    case 'Number':
+      return Number(tagged.value)
+    case 'undefined':
+      return UNDEFINED
+  }
+}
+
+// ============================================================
+// CODEC
+// ============================================================
+
+/**
+ * Replacer writing values JSON can't represent as tags.
+ */
+function replacer(this: unknown, key: string, value: unknown): unknown {
+  // Dates are already strings here (toJSON runs first): read the original
+  const original = (this as Record<string, unknown>)[key]
+  if (original instanceof Date) {
+    const time = original.getTime()
+    return { $type: 'Date', value: Number.isNaN(time) ? 'Invalid Date' : original.toISOString() }
+  }
+
+  if (value === undefined) return { $type: 'undefined' }
+  if (typeof value === 'bigint') return { $type: 'BigInt', value: value.toString() }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { $type: 'Number', value: String(value) }
+  }
+  if (value instanceof Map) return { $type: 'Map', value: Array.from(value) }
+  if (value instanceof Set) return { $type: 'Set', value: Array.from(value) }
+  if (value instanceof RegExp) {
+    return { $type: 'RegExp', value: { source: value.source, flags: value.flags } }
+  }
+  if (isPlainObject(value) && Object.keys(value).some((k) => ESCAPED_KEY.test(k))) {
+    return escapeKeys(value, 1)
+  }
+
+  return value
+}
+
+/**
+ * Reviver turning tags back into values.
+ */
+function reviver(this: unknown, key: string, value: unknown): unknown {
+  if (typeof value === 'object' && value !== null) {
+    const container = value as Record<string, unknown>
+    for (const [childKey, child] of Object.entries(container)) {
+      if (child === UNDEFINED) container[childKey] = undefined
+    }
+  }
+
+  if (isTagged(value)) {
+    const result = untag(value)
+    // The root value has no container to put it in
+    return result === UNDEFINED && key === '' ? undefined : result
+  }
+  if (isPlainObject(value) && Object.keys(value).some((k) => ESCAPED_KEY.test(k))) {
+    return escapeKeys(value, -1)
+  }
+
+  return value
+}
+
+/**
+ * Tagged JSON codec: pass it to `createJSONStorage` or to devtools
+ * `serialize` so `Date`, `Map`, `Set`, `BigInt`, `RegExp`, `NaN`,
+ * `Infinity` and `undefined` survive the trip through JSON.
+ *
+ * @example
+ * JSON.parse(JSON.stringify(state, taggedCodec.replacer), taggedCodec.reviver)
+ *
+ * @example
+ * persist(creator, {
+ *   name: 'cart',
+ *   storage: createJSONStorage(() => localStorage, taggedCodec),
+ * })
+ *
+ * @example
+ * devtools(creator, { name: 'cart', serialize: taggedCodec })
+ */
+export const taggedCodec: JSONCodec = { replacer, reviver }
@@ -0,0 +1,162 @@
+/**
+ * Development-mode state freezing.
+ *
+ * State is deep-frozen in place with Object.freeze, as immer does: the
+ * store keeps the objects it was given, so references, selectors and
+ * structuredClone/postMessage behave exactly as with plain state.
+ *
+ * Before freezing, every data field becomes a guarded field: a getter
+ * returning the value and a setter that throws with the field's path
+ * (`state.items[0].name`). Nodes guarded by freezeState are skipped, so
+ * an update only walks the parts of the tree it changed.
+ *
+ * @module utils/freeze
+ */
+
+// ============================================================
+// STATE
+// ============================================================
+
+/** Nodes deep-frozen by freezeState */
+const frozenNodes = new WeakSet<object>()
+
+/** Getters of guarded fields, to tell them apart from derived fields */
+const guardGetters = new WeakSet<object>()
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Checks whether freezeState handles a value.
+ * Only plain objects and arrays are frozen; class instances, Maps, Sets
+ * and Dates are left as they are.
+ */
+const isFreezable = (value: unknown): value is object => {
+  if (typeof value !== 'object' || value === null) return false
+  if (Array.isArray(value)) return true
+  const proto: unknown = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Appends a key to a state path: `state.items[0].name`.
+ */
+const childPath = (path: string, key: PropertyKey, isArray: boolean): string => {
+  if (typeof key === 'symbol') return `${path}[${String(key)}]`
+  if (isArray && /^\d+$/.test(key as string)) return `${path}[${key as string}]`
+  return `${path}.${key as string}`
+}
+
+/**
+ * Error thrown when a frozen field is assigned.
+ */
+const mutationError = (path: string): TypeError =>
+  new TypeError(
+    `[zustand-lite] Cannot mutate "${path}": store state is frozen. ` +
+      'Update it with setState instead.'
+  )
+
+/**
+ * Copies a node that was frozen elsewhere (immer output, Object.freeze),
+ * since its fields can no longer be redefined.
+ */
+const copyNode = (value: object): object => {
+  if (Array.isArray(value)) return Array.prototype.slice.call(value) as unknown[]
+
+  const descriptors = Object.getOwnPropertyDescriptors(value)
+  for (const key of Reflect.ownKeys(descriptors)) {
+    const descriptor = descriptors[key as string]
+    if (!descriptor) continue
+    descriptor.configurable = true
+    if ('value' in descriptor) descriptor.writable = true
+  }
+  return Object.create(Object.getPrototypeOf(value) as object | null, descriptors) as object
+}
+
+/**
+ * Replaces a data field with a getter and a setter that throws the path.
+ */
+const guardField = (
+  node: object,
+  key: PropertyKey,
+  value: unknown,
+  enumerable: boolean | undefined,
+  path: string
+): void => {
+  const get = (): unknown => value
+  guardGetters.add(get)
+  Object.defineProperty(node, key, {
+    get,
+    set: () => {
+      throw mutationError(path)
+    },
+    enumerable,
+  })
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Checks whether a property descriptor is a field guarded by freezeState.
+ * Such fields hold data, unlike the getters of derived fields.
+ *
+ * @param descriptor - Own property descriptor
+ * @returns True for guarded fields
+ */
+export const isFrozenField = (descriptor: PropertyDescriptor): boolean =>
+  descriptor.get !== undefined && guardGetters.has(descriptor.get)
+
+/**
+ * Deep-freezes state in place.
+ *
+ * Assigning a field of the result throws a TypeError naming its path, in
+ * strict and sloppy mode alike. Adding and deleting properties (including
+ * `push` on arrays) throw the engine's TypeError in strict mode (every ES
+ * module), which names the property. Accessor properties (derived fields)
+ * are kept and not invoked.
+ *
+ * Nodes frozen elsewhere are copied, since their fields can't be guarded;
+ * every other node keeps its identity.
+ *
+ * @template T - State type
+ * @param value - State (or part of it) to freeze
+ * @param path - Path of the value, used in error messages
+ * @returns The value, frozen
+ *
+ * @example
+ * const state = freezeState({ items: [{ name: 'a' }] })
+ * state.items[0].name = 'b' // TypeError: Cannot mutate "state.items[0].name"
+ */
+export const freezeState = <T>(value: T, path = 'state'): T => {
+  if (!isFreezable(value) || frozenNodes.has(value)) return value
+
+  const node = Object.isExtensible(value) ? value : copyNode(value)
+  // Marked first so cycles end here
+  frozenNodes.add(node)
+
+  const isArray = Array.isArray(node)
+  const descriptors = Object.getOwnPropertyDescriptors(node)
+  for (const key of Reflect.ownKeys(descriptors)) {
+    const descriptor = descriptors[key as string]
+    if (!descriptor || !('value' in descriptor)) continue
+    if (isArray && key === 'length') continue
+
+    const fieldPath = childPath(path, key, isArray)
+    if (!descriptor.configurable) {
+      freezeState(descriptor.value, fieldPath)
+      continue
+    }
+    guardField(
+      node,
+      key,
+      freezeState(descriptor.value, fieldPath),
+      descriptor.enumerable,
+      fieldPath
+    )
+  }
+
+  return Object.freeze(node) as T
+}
@@ -0,0 +1,379 @@
+/**
+ * JSON Patch (RFC 6902) helpers.
+ *
+ * `applyJsonPatch` applies operations immutably: only the containers on
+ * the patched paths are copied, the rest of the tree is shared.
+ * `createJsonPatch` computes the operations turning one state into another.
+ *
+ * Functions (actions) and getters (derived fields) are not data, so the
+ * diff never includes them.
+ *
+ * @module utils/jsonPatch
+ */
+
+import type { JsonPatch, JsonPatchOperation } from '../types'
+import { isFrozenField } from './freeze'
+
+// ============================================================
+// TYPES
+// ============================================================
+
+type Container = Record<string, unknown> | unknown[]
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Checks whether a value is an object or array that paths can enter.
+ */
+const isContainer = (value: unknown): value is Container =>
+  typeof value === 'object' && value !== null
+
+/**
+ * Checks whether a value is a plain object (diffed key by key).
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+  const proto: unknown = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Error for an operation that can't be applied.
+ */
+const patchError = (operation: JsonPatchOperation, reason: string): Error =>
+  new Error(
+    `[zustand-lite] Cannot apply JSON Patch "${operation.op}" at "${operation.path}": ${reason}`
+  )
+
+/**
+ * Splits a JSON Pointer into unescaped reference tokens.
+ */
+const parsePointer = (pointer: string, operation: JsonPatchOperation): string[] => {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw patchError(operation, `invalid JSON Pointer "${pointer}"`)
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Escapes a key for use in a JSON Pointer.
+ */
+const escapeToken = (key: string | number): string =>
+  String(key).replace(/~/g, '~0').replace(/\//g, '~1')
+
+/**
+ * Resolves an array index token. `-` (append) is allowed only when adding.
+ */
+const toIndex = (
+  array: unknown[],
+  token: string,
+  operation: JsonPatchOperation,
+  forInsert: boolean
+): number => {
+  if (forInsert && token === '-') return array.length
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw patchError(operation, `invalid array index "${token}"`)
+  }
+  const index = Number(token)
+  if (index > array.length || (!forInsert && index === array.length)) {
+    throw patchError(operation, `index ${index} is out of bounds`)
+  }
+  return index
+}
+
+/**
+ * Checks whether a container has an own data entry for a token.
+ */
+const hasEntry = (container: Container, token: string): boolean =>
+  Array.isArray(container)
+    ? /^(0|[1-9]\d*)$/.test(token) && Number(token) < container.length
+    : Object.prototype.hasOwnProperty.call(container, token)
+
+/**
+ * Reads the value at a path.
+ */
+const getAt = (
+  document: unknown,
+  tokens: string[],
+  operation: JsonPatchOperation
+): unknown => {
+  let node = document
+  for (const token of tokens) {
+    if (!isContainer(node) || !hasEntry(node, token)) {
+      throw patchError(operation, 'path does not exist')
+    }
+    node = (node as Record<string, unknown>)[token]
+  }
+  return node
+}
+
+/**
+ * Copies the containers along a path and runs `change` on the copied
+ * parent of the last token.
+ */
+const updateParent = (
+  document: unknown,
+  tokens: string[],
+  operation: JsonPatchOperation,
+  change: (parent: Container, token: string) => void
+): unknown => {
+  if (!isContainer(document)) {
+    throw patchError(operation, 'path does not exist')
+  }
+
+  const [token, ...rest] = tokens as [string, ...string[]]
+  const copy: Container = Array.isArray(document) ? document.slice() : { ...document }
+
+  if (rest.length === 0) {
+    change(copy, token)
+    return copy
+  }
+
+  if (!hasEntry(document, token)) {
+    throw patchError(operation, 'path does not exist')
+  }
+  const child = (document as Record<string, unknown>)[token]
+  ;(copy as Record<string, unknown>)[token] = updateParent(child, rest, operation, change)
+  return copy
+}
+
+/**
+ * Inserts (arrays) or sets (objects) a value.
+ */
+const addValue = (
+  document: unknown,
+  tokens: string[],
+  value: unknown,
+  operation: JsonPatchOperation
+): unknown => {
+  if (tokens.length === 0) return value
+
+  return updateParent(document, tokens, operation, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(toIndex(parent, token, operation, true), 0, value)
+    } else {
+      parent[token] = value
+    }
+  })
+}
+
+/**
+ * Removes a value that must exist.
+ */
+const removeValue = (
+  document: unknown,
+  tokens: string[],
+  operation: JsonPatchOperation
+): unknown => {
+  if (tokens.length === 0) {
+    throw patchError(operation, 'the root can only be replaced')
+  }
+
+  return updateParent(document, tokens, operation, (parent, token) => {
+    if (!hasEntry(parent, token)) {
+      throw patchError(operation, 'path does not exist')
+    }
+    if (Array.isArray(parent)) {
+      parent.splice(toIndex(parent, token, operation, false), 1)
+    } else {
+      delete parent[token]
+    }
+  })
+}
+
+/**
+ * Replaces a value that must exist.
+ */
+const replaceValue = (
+  document: unknown,
+  tokens: string[],
+  value: unknown,
+  operation: JsonPatchOperation
+): unknown => {
+  if (tokens.length === 0) return value
+
+  return updateParent(document, tokens, operation, (parent, token) => {
+    if (!hasEntry(parent, token)) {
+      throw patchError(operation, 'path does not exist')
+    }
+    const target = parent as Record<string, unknown>
+    target[token] = value
+  })
+}
+
+/**
+ * Structural equality of JSON-like values (for the `test` operation).
+ */
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true
+  if (!isContainer(a) || !isContainer(b)) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return false
+
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  )
+}
+
+/**
+ * Applies one operation.
+ */
+const applyOperation = (document: unknown, operation: JsonPatchOperation): unknown => {
+  const tokens = parsePointer(operation.path, operation)
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, tokens, operation.value, operation)
+
+    case 'remove':
+      return removeValue(document, tokens, operation)
+
+    case 'replace':
+      return replaceValue(document, tokens, operation.value, operation)
+
+    case 'move': {
+      const from = parsePointer(operation.from, operation)
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw patchError(operation, 'cannot move a value into itself')
+      }
+      const value = getAt(document, from, operation)
+      return addValue(removeValue(document, from, operation), tokens, value, operation)
+    }
+
+    case 'copy': {
+      const value = getAt(document, parsePointer(operation.from, operation), operation)
+      return addValue(document, tokens, value, operation)
+    }
+
+    case 'test':
+      if (!deepEqual(getAt(document, tokens, operation), operation.value)) {
+        throw patchError(operation, 'test failed')
+      }
+      return document
+
+    default:
+      throw patchError(
+        operation,
+        `unknown operation "${(operation as { op: string }).op}"`
+      )
+  }
+}
+
+/**
+ * Returns the keys of an object that hold data: own enumerable keys,
+ * skipping functions and getters (fields guarded by freeze hold data).
+ */
+const dataKeys = (value: Record<string, unknown>): string[] =>
+  Object.keys(value).filter((key) => {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key)
+    return (
+      descriptor !== undefined &&
+      ('value' in descriptor || isFrozenField(descriptor)) &&
+      typeof value[key] !== 'function'
+    )
+  })
+
+/**
+ * Appends the operations turning `previous` into `next` at `path`.
+ */
+const diffInto = (
+  previous: unknown,
+  next: unknown,
+  path: string,
+  operations: JsonPatchOperation[]
+): void => {
+  if (Object.is(previous, next)) return
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const common = Math.min(previous.length, next.length)
+    for (let i = 0; i < common; i++) {
+      diffInto(previous[i], next[i], `${path}/${i}`, operations)
+    }
+    for (let i = common; i < next.length; i++) {
+      operations.push({ op: 'add', path: `${path}/${i}`, value: next[i] })
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = previous.length - 1; i >= next.length; i--) {
+      operations.push({ op: 'remove', path: `${path}/${i}` })
+    }
+    return
+  }
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const nextKeys = dataKeys(next)
+    const nextKeySet = new Set(nextKeys)
+    const previousKeySet = new Set(dataKeys(previous))
+
+    for (const key of previousKeySet) {
+      if (!nextKeySet.has(key)) {
+        operations.push({ op: 'remove', path: `${path}/${escapeToken(key)}` })
+      }
+    }
+    for (const key of nextKeys) {
+      const keyPath = `${path}/${escapeToken(key)}`
+      if (previousKeySet.has(key)) {
+        diffInto(previous[key], next[key], keyPath, operations)
+      } else {
+        operations.push({ op: 'add', path: keyPath, value: next[key] })
+      }
+    }
+    return
+  }
+
+  operations.push({ op: 'replace', path, value: next })
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Applies JSON Patch operations without mutating the document.
+ * Either every operation applies or an error is thrown and the
+ * document is left as it was.
+ *
+ * @param document - Document to patch
+ * @param operations - RFC 6902 operations, applied in order
+ * @returns The patched document
+ * @throws Error naming the operation and path when an operation fails
+ *
+ * @example
+ * applyJsonPatch({ items: ['a'] }, [{ op: 'add', path: '/items/-', value: 'b' }])
+ * // { items: ['a', 'b'] }
+ */
+export const applyJsonPatch = <T>(document: T, operations: JsonPatch): T =>
+  operations.reduce<unknown>(applyOperation, document) as T
+
+/**
+ * Computes the JSON Patch turning one state into another.
+ * Unchanged branches (same reference) are skipped without being walked.
+ *
+ * @param previous - State before
+ * @param next - State after
+ * @returns RFC 6902 operations
+ *
+ * @example
+ * createJsonPatch({ count: 1, tags: ['a'] }, { count: 2, tags: [] })
+ * // [
+ * //   { op: 'replace', path: '/count', value: 2 },
+ * //   { op: 'remove', path: '/tags/0' },
+ * // ]
+ */
+export const createJsonPatch = (previous: unknown, next: unknown): JsonPatch => {
+  const operations: JsonPatchOperation[] = []
+  diffInto(previous, next, '', operations)
+  return operations
+}
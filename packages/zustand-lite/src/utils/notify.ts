@@ -0,0 +1,94 @@
+/**
+ * Action and notification helpers.
+ *
+ * Shared by the store and by middleware that deliver notifications or
+ * read setState actions themselves (scheduler, logger, validate), so
+ * they all describe and deliver updates the same way.
+ *
+ * @module utils/notify
+ */
+
+import type {
+  ActionDescriptor,
+  ActionInput,
+  Listener,
+  ListenerErrorHandler,
+} from '../types'
+
+/**
+ * Normalizes a setState action into a descriptor with an origin.
+ *
+ * @param action - Action name, descriptor, or undefined
+ * @returns Descriptor (origin defaults to `user`), or undefined if anonymous
+ */
+export const normalizeAction = (
+  action: ActionInput | undefined
+): ActionDescriptor | undefined => {
+  if (action === undefined) return undefined
+  if (typeof action === 'string') return { type: action, origin: 'user' }
+  return { ...action, origin: action.origin ?? 'user' }
+}
+
+/**
+ * Merges the actions of a batch into the one reported to listeners.
+ * A batch of a single update keeps its action; larger batches are
+ * reported as a `batch` action carrying the named actions as payload.
+ *
+ * Anonymous updates count as `user` updates when picking the origin, so
+ * a user `set` batched with a rehydration is not reported as
+ * `rehydrate` (which persist would skip writing).
+ *
+ * @param actions - Actions of every update in the batch
+ * @returns Combined descriptor, or undefined if every update was anonymous
+ */
+export const combineBatchActions = (
+  actions: Array<ActionDescriptor | undefined>
+): ActionDescriptor | undefined => {
+  if (actions.length === 1) return actions[0]
+
+  const named = actions.filter(
+    (action): action is ActionDescriptor => action !== undefined
+  )
+  if (named.length === 0) return undefined
+
+  const origins = actions.map((action) => action?.origin ?? 'user')
+  const origin = origins.every((item) => item === origins[0]) ? origins[0] : 'user'
+
+  return { type: 'batch', payload: named, origin }
+}
+
+/**
+ * Notifies all listeners about state change.
+ * Uses for...of loop for better performance than forEach.
+ *
+ * Each listener is isolated: if one throws, the error is passed to
+ * `onError` and the remaining listeners are still notified. State is
+ * already committed by the time any error surfaces.
+ *
+ * @template T - The state type
+ * @param listeners - Set of listener functions
+ * @param state - New state
+ * @param previousState - Previous state
+ * @param action - Action behind the update
+ * @param onError - Handler for listener errors
+ */
+export const notifyListeners = <T>(
+  listeners: Set<Listener<T>>,
+  state: T,
+  previousState: T,
+  action: ActionDescriptor | undefined,
+  onError: ListenerErrorHandler<T>
+): void => {
+  for (const listener of listeners) {
+    try {
+      // Anonymous updates keep the two-argument call signature
+      if (action === undefined) {
+        listener(state, previousState)
+      } else {
+        listener(state, previousState, action)
+      }
+    } catch (error) {
+      onError(error, { state, previousState, action, listener })
+    }
+  }
+}
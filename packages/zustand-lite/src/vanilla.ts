@@ -16,7 +16,75 @@ import type {
   SetState,
   GetState,
   Subscribe,
+  Batch,
+  ActionDescriptor,
+  StoreOptions,
+  ListenerErrorContext,
+  Reset,
+  ApplyPatches,
 } from './types'
+import {
+  collectAccessors,
+  assignData,
+  defineAccessors,
+  type AccessorMap,
+} from './utils/accessors'
+import { freezeState } from './utils/freeze'
+import { applyJsonPatch } from './utils/jsonPatch'
+import { registerStore, trackStore } from './registry'
+import {
+  normalizeAction,
+  combineBatchActions,
+  notifyListeners,
+} from './utils/notify'
+
+// ============================================================
+// BATCHING (shared across all stores)
+// ============================================================
+
+/** Nesting depth of the global batch */
+let batchDepth = 0
+
+/** Flush callbacks of stores holding deferred notifications */
+const pendingFlushes = new Set<() => void>()
+
+/**
+ * Runs every pending store flush.
+ * Iterates over a copy because flushes remove themselves from the set.
+ */
+const flushPendingNotifications = (): void => {
+  for (const flush of Array.from(pendingFlushes)) {
+    flush()
+  }
+}
+
+/**
+ * Runs `fn` with listener notifications deferred for every store.
+ *
+ * State is updated immediately (so `getState()` inside the batch sees
+ * every change), but listeners are notified only once per store when the
+ * outermost batch exits, with the state from before the batch as
+ * `previousState`.
+ *
+ * @example
+ * batch(() => {
+ *   cartStore.getState().addItem(product)
+ *   cartStore.getState().openCart()
+ *   uiStore.setState({ toast: 'Added to cart' })
+ * })
+ * // Each store's listeners were called exactly once
+ */
+export const batch: Batch = (fn) => {
+  batchDepth++
+  try {
+    return fn()
+  } finally {
+    batchDepth--
+    if (batchDepth === 0) {
+      flushPendingNotifications()
+    }
+  }
+}
 
 // ============================================================
 // HELPER FUNCTIONS (Single Responsibility)
@@ -40,21 +108,105 @@ const computeNextState = <T>(
 }
 
 /**
- * Notifies all listeners about state change.
- * Uses for...of loop for better performance than forEach.
+ * Computes the state restored by reset.
+ * Function-valued keys (actions) always keep their current value.
  *
  * @template T - The state type
- * @param listeners - Set of listener functions
- * @param state - New state
- * @param previousState - Previous state
+ * @param currentState - Current state
+ * @param initialState - State captured after creation
+ * @param keys - Keys to restore, or undefined for all
+ * @returns The state to replace the current one with
  */
-const notifyListeners = <T>(
-  listeners: Set<Listener<T>>,
-  state: T,
-  previousState: T
-): void => {
-  for (const listener of listeners) {
-    listener(state, previousState)
+const computeResetState = <T>(
+  currentState: T,
+  initialState: T,
+  keys: ReadonlyArray<keyof T> | undefined
+): T => {
+  // Primitive state has no keys to preserve
+  if (
+    typeof initialState !== 'object' ||
+    initialState === null ||
+    typeof currentState !== 'object' ||
+    currentState === null
+  ) {
+    return initialState
+  }
+
+  const current = currentState as Record<PropertyKey, unknown>
+  const initial = initialState as Record<PropertyKey, unknown>
+
+  if (keys === undefined) {
+    const next: Record<PropertyKey, unknown> = { ...initial }
+    for (const key of Object.keys(current)) {
+      if (typeof current[key] === 'function') {
+        next[key] = current[key]
+      }
+    }
+    return next as T
+  }
+
+  const next: Record<PropertyKey, unknown> = { ...current }
+  for (const key of keys as ReadonlyArray<PropertyKey>) {
+    if (typeof current[key] === 'function') continue
+    if (key in initial) {
+      next[key] = initial[key]
+    } else {
+      delete next[key]
+    }
+  }
+  return next as T
+}
+
+/**
+ * Applies an update to the state, merging or replacing it.
+ *
+ * Getters are derived fields: they are carried over by every update,
+ * including replace, and values written to their keys are ignored.
+ * Stores without getters take the plain Object.assign path.
+ *
+ * @template T - The state type
+ * @param currentState - Current state
+ * @param nextState - Computed partial or full state
+ * @param replace - Whether to replace instead of merging
+ * @param accessors - Derived fields seen so far (updated in place)
+ * @returns The new state
+ */
+const applyUpdate = <T>(
+  currentState: T,
+  nextState: T | Partial<T>,
+  replace: boolean,
+  accessors: AccessorMap
+): T => {
+  collectAccessors(nextState, accessors)
+
+  if (
+    accessors.size === 0 ||
+    typeof nextState !== 'object' ||
+    nextState === null
+  ) {
+    return replace
+      ? (nextState as T)
+      : Object.assign({}, currentState, nextState)
+  }
+
+  const base = replace ? {} : assignData({}, currentState as object, accessors)
+  return defineAccessors(assignData(base, nextState, accessors), accessors) as T
+}
+
+/**
+ * Default handler for listener errors.
+ * Uses the platform's `reportError` (which surfaces the error like an
+ * uncaught exception without interrupting the caller) when available.
+ *
+ * @param error - Error thrown by a listener
+ */
+const defaultOnError = (error: unknown): void => {
+  if (typeof reportError === 'function') {
+    reportError(error)
+    return
+  }
+  if (process.env['NODE_ENV'] !== 'production') {
+    console.error('[zustand-lite] A store listener threw an error:', error)
   }
 }
 
@@ -62,21 +214,57 @@ const notifyListeners = <T>(
 // CREATE STORE IMPLEMENTATION
 // ============================================================
 
+/**
+ * A single state change waiting to be delivered to listeners.
+ *
+ * @template T - The state type
+ */
+interface Transition<T> {
+  state: T
+  previousState: T
+  action: ActionDescriptor | undefined
+}
+
 /**
  * Internal implementation of createStore.
  * Separated for clean type inference.
  *
  * @template T - The state type
  * @param createState - State creator function
+ * @param options - Store options
  * @returns Store API
  */
-const createStoreImpl = <T>(createState: StateCreator<T, [], []>): StoreApi<T> => {
+const createStoreImpl = <T>(
+  createState: StateCreator<T, [], []>,
+  options: StoreOptions<T> = {}
+): StoreApi<T> => {
+  const {
+    strict = false,
+    onError = defaultOnError,
+    notificationMode = 'sequential',
+    name,
+    tags,
+    freeze = false,
+  } = options
+
+  /** Whether state is deep-frozen after each update (development only) */
+  const shouldFreeze = freeze && process.env['NODE_ENV'] !== 'production'
+
   /** Current state */
   let state: T
 
   /** Set of listener functions */
   const listeners = new Set<Listener<T>>()
 
+  /** Cleanup callbacks registered by middleware, in registration order */
+  const cleanups: Array<() => void> = []
+
+  /** Whether destroy() has been called */
+  let destroyed = false
+
+  /** Derived fields (getters) carried across updates */
+  const accessors: AccessorMap = new Map()
+
   /**
    * Returns the current state.
    */
@@ -89,27 +277,159 @@ const createStoreImpl = <T>(createState: StateCreator<T, [], []>): StoreApi<T> =
   let initialState: T
   const getInitialState = () => initialState
 
+  /** Nesting depth of this store's own batch */
+  let storeBatchDepth = 0
+
+  /** Whether a notification is waiting for the batch to exit */
+  let hasPendingNotification = false
+
+  /** State before the first update of the current batch */
+  let batchPreviousState: T | undefined
+
+  /** Actions of the updates made during the current batch */
+  let batchActions: Array<ActionDescriptor | undefined> = []
+
+  /** Transitions waiting to be delivered to listeners */
+  const notificationQueue: Array<Transition<T>> = []
+
+  /** Whether listeners are currently being notified */
+  let isNotifying = false
+
+  /**
+   * Queues a transition and, unless a notification pass is already
+   * running further up the stack, delivers the queue in order.
+   *
+   * Listeners that call setState therefore never interleave: the nested
+   * update waits until every listener has seen the current transition.
+   * In `coalesced` mode, transitions queued during a pass are merged.
+   */
+  const notify = (transition: Transition<T>): void => {
+    const last = notificationQueue[notificationQueue.length - 1]
+
+    if (notificationMode === 'coalesced' && last !== undefined) {
+      notificationQueue[notificationQueue.length - 1] = {
+        state: transition.state,
+        previousState: last.previousState,
+        action: combineBatchActions([last.action, transition.action]),
+      }
+    } else {
+      notificationQueue.push(transition)
+    }
+
+    if (isNotifying) return
+
+    isNotifying = true
+    try {
+      let next: Transition<T> | undefined
+      while ((next = notificationQueue.shift()) !== undefined) {
+        notifyListeners(
+          listeners,
+          next.state,
+          next.previousState,
+          next.action,
+          onError
+        )
+      }
+    } finally {
+      isNotifying = false
+      // Only non-empty if an error handler threw mid-pass
+      notificationQueue.length = 0
+    }
+  }
+
+  /**
+   * Checks whether notifications should be deferred.
+   */
+  const isDeferred = (): boolean => storeBatchDepth > 0 || batchDepth > 0
+
+  /**
+   * Delivers the deferred notification once no batch is running.
+   * Skipped entirely if the batch ended on the state it started from.
+   */
+  const flush = (): void => {
+    if (isDeferred() || !hasPendingNotification) return
+
+    const previousState = batchPreviousState as T
+    const action = combineBatchActions(batchActions)
+    hasPendingNotification = false
+    batchPreviousState = undefined
+    batchActions = []
+    pendingFlushes.delete(flush)
+
+    if (!Object.is(state, previousState)) {
+      notify({ state, previousState, action })
+    }
+  }
+
   /**
    * Updates the state and notifies listeners.
    *
    * @param partial - New partial state or updater function
    * @param replace - If true, replaces entire state instead of merging
+   * @param action - Optional action name or descriptor for this update
    */
-  const setState: SetState<T> = (partial, replace) => {
+  const setState: SetState<T> = (partial, replace, action) => {
+    // A destroyed store no longer accepts writes
+    if (destroyed) {
+      const message = 'Cannot update a destroyed store. The update was ignored.'
+      if (strict) {
+        throw new Error(message)
+      }
+      if (process.env['NODE_ENV'] !== 'production') {
+        console.warn(`[zustand-lite] ${message}`)
+      }
+      return
+    }
+
     const nextState = computeNextState(state, partial)
 
     // Only update if state actually changed (referential equality check)
     if (!Object.is(nextState, state)) {
       const previousState = state
+      const descriptor = normalizeAction(action)
 
       // Replace or merge based on flags
-      state =
-        replace ?? (typeof nextState !== 'object' || nextState === null)
-          ? (nextState as T)
-          : Object.assign({}, state, nextState)
+      state = applyUpdate(
+        state,
+        nextState,
+        replace ?? (typeof nextState !== 'object' || nextState === null),
+        accessors
+      )
+
+      if (shouldFreeze) {
+        state = freezeState(state)
+      }
 
-      // Notify all subscribers
-      notifyListeners(listeners, state, previousState)
+      // Inside a batch, remember the pre-batch state and notify on exit
+      if (isDeferred()) {
+        if (!hasPendingNotification) {
+          hasPendingNotification = true
+          batchPreviousState = previousState
+          pendingFlushes.add(flush)
+        }
+        batchActions.push(descriptor)
+        return
+      }
+
+      // Notify all subscribers (queued if a notification is in progress)
+      notify({ state, previousState, action: descriptor })
+    }
+  }
+
+  /**
+   * Runs `fn` with this store's notifications deferred.
+   * Other stores are unaffected unless a global batch is also running.
+   *
+   * @param fn - Callback performing any number of state updates
+   * @returns The callback's return value
+   */
+  const storeBatch: Batch = (fn) => {
+    storeBatchDepth++
+    try {
+      return fn()
+    } finally {
+      storeBatchDepth--
+      flush()
     }
   }
 
@@ -120,6 +440,11 @@ const createStoreImpl = <T>(createState: StateCreator<T, [], []>): StoreApi<T> =
    * @returns Unsubscribe function
    */
   const subscribe: Subscribe<T> = (listener) => {
+    // A destroyed store never notifies again
+    if (destroyed) {
+      return () => {}
+    }
+
     listeners.add(listener)
 
     // Return unsubscribe function
@@ -129,11 +454,106 @@ const createStoreImpl = <T>(createState: StateCreator<T, [], []>): StoreApi<T> =
   }
 
   /**
-   * Cleans up the store by removing all listeners.
-   * Useful for testing and SSR cleanup.
+   * Restores initial values through `api.setState`, so middleware that
+   * wrap setState see the reset like any other update.
+   *
+   * @param keys - Keys to reset (all when omitted)
+   */
+  const reset: Reset<T> = (keys) => {
+    api.setState(computeResetState(state, initialState, keys), true, {
+      type: 'reset',
+      payload: keys,
+      origin: 'reset',
+    })
+  }
+
+  /**
+   * Applies JSON Patch operations through `api.setState`, replacing the
+   * state with the patched copy. Nothing changes if any operation fails.
+   *
+   * @param operations - RFC 6902 operations
+   * @param action - Optional action name or descriptor
+   */
+  const applyPatches: ApplyPatches = (operations, action) => {
+    api.setState(
+      applyJsonPatch(state, operations),
+      true,
+      action ?? { type: 'applyPatches', payload: operations, origin: 'patch' }
+    )
+  }
+
+  /**
+   * Registers a cleanup callback to run when the store is destroyed.
+   * Runs immediately if the store is already destroyed.
+   *
+   * @param cleanup - Cleanup callback
+   * @returns Function that unregisters the callback
+   */
+  const onDestroy = (cleanup: () => void): (() => void) => {
+    if (destroyed) {
+      cleanup()
+      return () => {}
+    }
+
+    cleanups.push(cleanup)
+
+    return () => {
+      const index = cleanups.indexOf(cleanup)
+      if (index !== -1) {
+        cleanups.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * Destroys the store: runs cleanup callbacks in reverse registration
+   * order (so outer middleware tear down last), removes all listeners and
+   * rejects further updates. Calling it again is a no-op.
+   * Useful for testing, unmounting providers and SSR cleanup.
    */
   const destroy = (): void => {
+    if (destroyed) return
+    destroyed = true
+
+    untrack()
     listeners.clear()
+    hasPendingNotification = false
+    batchPreviousState = undefined
+    batchActions = []
+    pendingFlushes.delete(flush)
+    notificationQueue.length = 0
+
+    // Keep tearing down even if one cleanup throws, then surface the error
+    let firstError: unknown
+    let hasError = false
+    for (const cleanup of cleanups.splice(0).reverse()) {
+      try {
+        cleanup()
+      } catch (error) {
+        if (!hasError) {
+          hasError = true
+          firstError = error
+        }
+      }
+    }
+
+    if (hasError) {
+      throw firstError
+    }
+  }
+
+  /**
+   * Passes an error from user code run by middleware to `onError`.
+   * Missing context defaults to the current state.
+   *
+   * @param error - Error to report
+   * @param context - Update the error belongs to
+   */
+  const reportError = (
+    error: unknown,
+    context: Partial<ListenerErrorContext<T>> = {}
+  ): void => {
+    onError(error, { state, previousState: state, ...context })
   }
 
   // Build the store API
@@ -142,16 +562,35 @@ const createStoreImpl = <T>(createState: StateCreator<T, [], []>): StoreApi<T> =
     getInitialState,
     setState,
     subscribe,
+    batch: storeBatch,
+    reset,
+    applyPatches,
     destroy,
+    onDestroy,
+    isDestroyed: () => destroyed,
+    reportError,
   }
 
   // Initialize state by calling the creator function
   // This passes set, get, and the full api to the creator
   state = createState(setState, getState, api)
 
-  // Capture initial state for SSR
+  if (shouldFreeze) {
+    state = freezeState(state)
+  }
+
+  // Capture initial state for SSR and reset
   initialState = state
 
+  collectAccessors(state, accessors)
+
+  // Tracked weakly for resetAllStores
+  const untrack = trackStore(api as StoreApi<unknown>)
+
+  if (name !== undefined) {
+    registerStore(api as StoreApi<unknown>, { name, tags })
+  }
+
   return api
 }
 
@@ -163,8 +602,8 @@ const createStoreImpl = <T>(createState: StateCreator<T, [], []>): StoreApi<T> =
  * Creates a vanilla (framework-agnostic) store.
  *
  * Supports two calling patterns:
- * 1. `createStore(initializer)` - direct creation
- * 2. `createStore<T>()(initializer)` - curried for explicit typing
+ * 1. `createStore(initializer, options?)` - direct creation
+ * 2. `createStore<T>()(initializer, options?)` - curried for explicit typing
  *
  * @example
  * // Direct creation (type inferred)
@@ -183,14 +622,25 @@ const createStoreImpl = <T>(createState: StateCreator<T, [], []>): StoreApi<T> =
  *   count: 0,
  *   increment: () => set((s) => ({ count: s.count + 1 })),
  * }))
+ *
+ * @example
+ * // Strict mode: updating a destroyed store throws
+ * const store = createStore(() => ({ count: 0 }), { strict: true })
+ *
+ * @example
+ * // Frozen state in development: mutations throw with the path
+ * const store = createStore(() => ({ items: [] as string[] }), { freeze: true })
+ * store.getState().items.push('x') // TypeError: Cannot mutate "state.items[0]"
  */
 type CreateStore = {
   <T, Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-    initializer: StateCreator<T, [], Mos>
+    initializer: StateCreator<T, [], Mos>,
+    options?: StoreOptions<T>
   ): Mutate<StoreApi<T>, Mos>
 
   <T>(): <Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-    initializer: StateCreator<T, [], Mos>
+    initializer: StateCreator<T, [], Mos>,
+    options?: StoreOptions<T>
   ) => Mutate<StoreApi<T>, Mos>
 }
 
@@ -200,20 +650,47 @@ type CreateStore = {
  * @see CreateStore for detailed documentation
  */
 export const createStore = (<T>(
-  createState?: StateCreator<T, [], []>
+  createState?: StateCreator<T, [], []>,
+  options?: StoreOptions<T>
 ): StoreApi<T> | (<Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-    initializer: StateCreator<T, [], Mos>
+    initializer: StateCreator<T, [], Mos>,
+    options?: StoreOptions<T>
   ) => Mutate<StoreApi<T>, Mos>) => {
   // If no createState provided, return curried function
   if (createState === undefined) {
     return <Mos extends [StoreMutatorIdentifier, unknown][] = []>(
-      initializer: StateCreator<T, [], Mos>
-    ) => createStoreImpl(initializer) as Mutate<StoreApi<T>, Mos>
+      initializer: StateCreator<T, [], Mos>,
+      curriedOptions?: StoreOptions<T>
+    ) => createStoreImpl(initializer, curriedOptions) as Mutate<StoreApi<T>, Mos>
   }
 
-  return createStoreImpl(createState)
+  return createStoreImpl(createState, options)
 }) as CreateStore
 
+// Derived stores
+export { deriveStore, combineStores } from './derive'
+export type { DerivedStoreApi, StoreMap, CombinedState } from './derive'
+
+// Registry
+export {
+  registerStore,
+  listStores,
+  getStore,
+  onStoreCreated,
+  onStoreRemoved,
+  snapshotAll,
+  resetAll,
+  resetAllStores,
+  destroyAll,
+} from './registry'
+export type {
+  RegistryOptions,
+  RegisteredStore,
+  RegistryFilter,
+  StoreCreatedListener,
+  StoreRemovedListener,
+} from './registry'
+
 // Re-export types for convenience
 export type {
   StateCreator,
@@ -224,4 +701,16 @@ export type {
   SetState,
   GetState,
   Subscribe,
+  Batch,
+  ActionDescriptor,
+  ActionInput,
+  UpdateOrigin,
+  StoreOptions,
+  ListenerErrorContext,
+  ListenerErrorHandler,
+  NotificationMode,
+  Reset,
+  ApplyPatches,
+  JsonPatch,
+  JsonPatchOperation,
 } from './types'
@@ -0,0 +1,155 @@
+/**
+ * Tests for the tagged JSON codec.
+ * Coverage: each tagged type, nesting, undefined, escaping, plain JSON
+ */
+
+import { describe, it, expect } from 'vitest'
+import { taggedCodec } from '../src/utils/codec'
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+const encode = (value: unknown) => JSON.stringify(value, taggedCodec.replacer)
+const decode = (text: string) => JSON.parse(text, taggedCodec.reviver) as unknown
+const roundTrip = (value: unknown) => decode(encode(value))
+
+// ============================================================
+// taggedCodec TESTS
+// ============================================================
+
+describe('taggedCodec', () => {
+  describe('types', () => {
+    it('round-trips dates', () => {
+      const date = new Date(1_700_000_000_000)
+
+      expect(roundTrip({ date })).toEqual({ date })
+      expect((roundTrip({ date }) as { date: Date }).date).toBeInstanceOf(Date)
+      expect(encode(date)).toBe('{"$type":"Date","value":"2023-11-14T22:13:20.000Z"}')
+    })
+
+    it('round-trips invalid dates', () => {
+      const date = roundTrip(new Date('nope')) as Date
+
+      expect(date).toBeInstanceOf(Date)
+      expect(Number.isNaN(date.getTime())).toBe(true)
+    })
+
+    it('round-trips maps with any keys', () => {
+      const map = new Map<unknown, unknown>([
+        ['a', 1],
+        [2, { nested: true }],
+        [{ id: 3 }, 'object key'],
+      ])
+
+      expect(roundTrip(map)).toEqual(map)
+    })
+
+    it('round-trips sets', () => {
+      const set = new Set(['a', 'b', 3])
+
+      expect(roundTrip(set)).toEqual(set)
+    })
+
+    it('round-trips bigints', () => {
+      expect(roundTrip({ big: 12345678901234567890n })).toEqual({ big: 12345678901234567890n })
+    })
+
+    it('round-trips regular expressions with flags', () => {
+      const regex = roundTrip(/^cart\/(add|remove)$/gi) as RegExp
+
+      expect(regex).toBeInstanceOf(RegExp)
+      expect(regex.source).toBe('^cart\\/(add|remove)$')
+      expect(regex.flags).toBe('gi')
+    })
+
+    it('round-trips NaN and infinities', () => {
+      expect(roundTrip([NaN, Infinity, -Infinity, 0, -1.5])).toEqual([
+        NaN,
+        Infinity,
+        -Infinity,
+        0,
+        -1.5,
+      ])
+    })
+  })
+
+  describe('undefined', () => {
+    it('keeps undefined object values', () => {
+      const result = roundTrip({ a: undefined, b: 1 }) as Record<string, unknown>
+
+      expect(Object.keys(result)).toEqual(['a', 'b'])
+      expect(result['a']).toBeUndefined()
+    })
+
+    it('keeps undefined array items', () => {
+      const result = roundTrip([1, undefined, 3]) as unknown[]
+
+      expect(result).toHaveLength(3)
+      expect(1 in result).toBe(true)
+      expect(result[1]).toBeUndefined()
+    })
+
+    it('round-trips undefined itself', () => {
+      expect(encode(undefined)).toBe('{"$type":"undefined"}')
+      expect(roundTrip(undefined)).toBeUndefined()
+    })
+
+    it('keeps undefined inside maps and sets', () => {
+      const map = new Map([['missing', undefined]])
+
+      expect(roundTrip(map)).toEqual(map)
+      expect(roundTrip(new Set([undefined]))).toEqual(new Set([undefined]))
+    })
+  })
+
+  describe('nesting', () => {
+    it('round-trips tagged values inside each other', () => {
+      const state = {
+        carts: new Map([
+          [
+            'user-1',
+            {
+              items: new Set(['apple']),
+              updatedAt: new Date(1_700_000_000_000),
+              history: [new Date(0), undefined],
+            },
+          ],
+        ]),
+      }
+
+      expect(roundTrip(state)).toEqual(state)
+    })
+  })
+
+  describe('escaping', () => {
+    it('keeps plain objects that use the tag key', () => {
+      const value = {
+        tag: { $type: 'Date', value: 'not a date' },
+        undefinedLookalike: { $type: 'undefined' },
+        doubled: { $$type: 'Map', value: [] },
+      }
+
+      expect(roundTrip(value)).toEqual(value)
+    })
+
+    it('escapes tag keys next to tagged values', () => {
+      const value = { $type: 'custom', at: new Date(0) }
+
+      expect(roundTrip(value)).toEqual(value)
+    })
+  })
+
+  describe('plain JSON', () => {
+    it('writes plain data exactly like JSON.stringify', () => {
+      const value = { a: 1, b: ['x', null, true], c: { d: 'e' } }
+
+      expect(encode(value)).toBe(JSON.stringify(value))
+      expect(decode(JSON.stringify(value))).toEqual(value)
+    })
+
+    it('drops functions like JSON.stringify', () => {
+      expect(roundTrip({ count: 1, increment: () => {} })).toEqual({ count: 1 })
+    })
+  })
+})
@@ -0,0 +1,451 @@
+/**
+ * Tests for derived stores.
+ * Coverage: deriveStore projection, memoization, lazy subscription,
+ * selector subscriptions, useStore, createStoreContext; combineStores
+ */
+
+import React from 'react'
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, renderHook, act } from '@testing-library/react'
+import { createStore, batch } from '../src/vanilla'
+import { useStore } from '../src/react'
+import { deriveStore, combineStores } from '../src/derive'
+import type { DerivedStoreApi } from '../src/derive'
+import { createStoreContext } from '../src/ssr/context'
+import { subscribeWithSelector } from '../src/middleware/subscribeWithSelector'
+import { shallow } from '../src/utils/shallow'
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+interface CartState {
+  items: Array<{ name: string; price: number }>
+  isOpen: boolean
+  addItem: (name: string, price: number) => void
+  toggle: () => void
+}
+
+const createCartStore = () =>
+  createStore<CartState>()((set) => ({
+    items: [],
+    isOpen: false,
+    addItem: (name, price) =>
+      set((s) => ({ items: [...s.items, { name, price }] }), false, 'addItem'),
+    toggle: () => set((s) => ({ isOpen: !s.isOpen })),
+  }))
+
+interface CartSummary {
+  count: number
+  total: number
+}
+
+const summarize = (s: CartState): CartSummary => ({
+  count: s.items.length,
+  total: s.items.reduce((sum, item) => sum + item.price, 0),
+})
+
+// ============================================================
+// deriveStore
+// ============================================================
+
+describe('deriveStore', () => {
+  describe('getState', () => {
+    it('returns the projection of the source state', () => {
+      const cart = createCartStore()
+      const summary = deriveStore(cart, summarize)
+
+      cart.getState().addItem('apple', 2)
+
+      expect(summary.getState()).toEqual({ count: 1, total: 2 })
+    })
+
+    it('memoizes the projection per source state', () => {
+      const cart = createCartStore()
+      const selector = vi.fn(summarize)
+      const summary = deriveStore(cart, selector)
+
+      const first = summary.getState()
+      const second = summary.getState()
+
+      expect(second).toBe(first)
+      expect(selector).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the reference while equalityFn considers it unchanged', () => {
+      const cart = createCartStore()
+      const summary = deriveStore(cart, summarize, shallow)
+
+      const before = summary.getState()
+      cart.getState().toggle()
+
+      expect(summary.getState()).toBe(before)
+    })
+
+    it('projects the initial state', () => {
+      const cart = createCartStore()
+      const summary = deriveStore(cart, summarize)
+
+      cart.getState().addItem('apple', 2)
+
+      expect(summary.getInitialState()).toEqual({ count: 0, total: 0 })
+    })
+
+    it('can derive from a derived store', () => {
+      const cart = createCartStore()
+      const total = deriveStore(deriveStore(cart, summarize, shallow), (s) => s.total)
+      const listener = vi.fn()
+      total.subscribe(listener)
+
+      cart.getState().addItem('apple', 2)
+
+      expect(total.getState()).toBe(2)
+      expect(listener).toHaveBeenCalledWith(2, 0, expect.objectContaining({ type: 'addItem' }))
+    })
+  })
+
+  describe('subscribe', () => {
+    it('fires only when the projection changes', () => {
+      const cart = createCartStore()
+      const summary = deriveStore(cart, summarize, shallow)
+      const listener = vi.fn()
+      summary.subscribe(listener)
+
+      cart.getState().toggle()
+      expect(listener).not.toHaveBeenCalled()
+
+      cart.getState().addItem('apple', 2)
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(
+        { count: 1, total: 2 },
+        { count: 0, total: 0 },
+        { type: 'addItem', origin: 'user' }
+      )
+    })
+
+    it('keeps the two-argument call for anonymous updates', () => {
+      const cart = createCartStore()
+      const isOpen = deriveStore(cart, (s) => s.isOpen)
+      const listener = vi.fn()
+      isOpen.subscribe(listener)
+
+      cart.getState().toggle()
+
+      expect(listener.mock.calls[0]).toEqual([true, false])
+    })
+
+    it('notifies even if the projection was read in between', () => {
+      const cart = createCartStore()
+      const summary = deriveStore(cart, summarize, shallow)
+      cart.subscribe(() => summary.getState())
+      const listener = vi.fn()
+      summary.subscribe(listener)
+
+      cart.getState().addItem('apple', 2)
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('subscribes to the source lazily and releases it', () => {
+      const cart = createCartStore()
+      const subscribeSpy = vi.spyOn(cart, 'subscribe')
+      const selector = vi.fn(summarize)
+      const summary = deriveStore(cart, selector)
+
+      cart.getState().addItem('apple', 2)
+      expect(subscribeSpy).not.toHaveBeenCalled()
+      expect(selector).not.toHaveBeenCalled()
+
+      const unsubscribeA = summary.subscribe(() => {})
+      const unsubscribeB = summary.subscribe(() => {})
+      expect(subscribeSpy).toHaveBeenCalledTimes(1)
+
+      unsubscribeA()
+      unsubscribeA()
+      selector.mockClear()
+      cart.getState().addItem('pear', 1)
+      expect(selector).toHaveBeenCalledTimes(1)
+
+      unsubscribeB()
+      selector.mockClear()
+      cart.getState().addItem('plum', 1)
+      expect(selector).not.toHaveBeenCalled()
+    })
+
+    it('notifies remaining listeners when one throws', () => {
+      const onError = vi.fn()
+      const cart = createStore(() => ({ count: 0 }), { onError })
+      const doubled = deriveStore(cart, (s) => s.count * 2)
+      const listener = vi.fn()
+      doubled.subscribe(() => {
+        throw new Error('boom')
+      })
+      doubled.subscribe(listener)
+
+      cart.setState({ count: 1 })
+
+      expect(listener).toHaveBeenCalledWith(2, 0)
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'boom' }),
+        expect.anything()
+      )
+    })
+
+    it('supports selector subscriptions', () => {
+      const cart = createCartStore()
+      const summary = deriveStore(cart, summarize, shallow)
+      const listener = vi.fn()
+
+      summary.subscribe((s) => s.total, listener, { fireImmediately: true })
+      cart.getState().addItem('apple', 0)
+      cart.getState().addItem('pear', 3)
+
+      expect(listener.mock.calls).toEqual([
+        [0, 0],
+        [3, 0, { type: 'addItem', origin: 'user' }],
+      ])
+    })
+
+    it('works with a source using subscribeWithSelector', () => {
+      const source = createStore(
+        subscribeWithSelector(() => ({ a: 1, b: 1 }))
+      )
+      const a = deriveStore(source, (s) => s.a)
+      const listener = vi.fn()
+      a.subscribe(listener)
+
+      source.setState({ b: 2 })
+      source.setState({ a: 2 })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(2, 1)
+    })
+  })
+
+  // ============================================================
+  // REACT
+  // ============================================================
+
+  describe('with useStore', () => {
+    it('re-renders when the projection changes', () => {
+      const cart = createCartStore()
+      const summary = deriveStore(cart, summarize, shallow)
+      let renders = 0
+
+      const { result } = renderHook(() => {
+        renders++
+        return useStore(summary, (s) => s.count)
+      })
+      expect(result.current).toBe(0)
+
+      act(() => {
+        cart.getState().toggle()
+      })
+      const rendersAfterToggle = renders
+
+      act(() => {
+        cart.getState().addItem('apple', 2)
+      })
+
+      expect(result.current).toBe(1)
+      expect(rendersAfterToggle).toBe(1)
+    })
+  })
+
+  describe('with createStoreContext', () => {
+    it('provides a derived store through context', () => {
+      const cart = createCartStore()
+      const { StoreProvider, useStoreContext } = createStoreContext<
+        CartSummary,
+        DerivedStoreApi<CartSummary>
+      >(() => deriveStore(cart, summarize, shallow))
+
+      function Total() {
+        const total = useStoreContext((s) => s.total)
+        return <span data-testid="total">{total}</span>
+      }
+
+      const { unmount } = render(
+        <StoreProvider>
+          <Total />
+        </StoreProvider>
+      )
+
+      act(() => {
+        cart.getState().addItem('apple', 5)
+      })
+      expect(screen.getByTestId('total').textContent).toBe('5')
+
+      unmount()
+      expect(cart.isDestroyed()).toBe(false)
+    })
+  })
+})
+
+// ============================================================
+// combineStores
+// ============================================================
+
+describe('combineStores', () => {
+  const createThemeStore = () =>
+    createStore(() => ({ theme: 'light' as 'light' | 'dark' }))
+
+  describe('getState', () => {
+    it('returns a snapshot of every input', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const app = combineStores({ cart, theme })
+
+      cart.getState().addItem('apple', 2)
+
+      expect(app.getState().cart).toBe(cart.getState())
+      expect(app.getState().theme).toEqual({ theme: 'light' })
+    })
+
+    it('keeps the snapshot reference until an input changes', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const app = combineStores({ cart, theme })
+
+      const before = app.getState()
+      expect(app.getState()).toBe(before)
+
+      theme.setState({ theme: 'dark' })
+
+      expect(app.getState()).not.toBe(before)
+      expect(app.getState().cart).toBe(before.cart)
+    })
+
+    it('applies compute with equalityFn', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const view = combineStores(
+        { cart, theme },
+        ({ cart, theme }) => ({ count: cart.items.length, dark: theme.theme === 'dark' }),
+        shallow
+      )
+
+      const before = view.getState()
+      cart.getState().toggle()
+      expect(view.getState()).toBe(before)
+
+      theme.setState({ theme: 'dark' })
+      expect(view.getState()).toEqual({ count: 0, dark: true })
+    })
+
+    it('combines the initial states', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const app = combineStores({ cart, theme })
+
+      theme.setState({ theme: 'dark' })
+
+      expect(app.getInitialState().theme).toEqual({ theme: 'light' })
+    })
+  })
+
+  describe('subscribe', () => {
+    it('notifies once per input update', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const app = combineStores({ cart, theme })
+      const listener = vi.fn()
+      app.subscribe(listener)
+
+      cart.getState().addItem('apple', 2)
+      theme.setState({ theme: 'dark' })
+
+      expect(listener).toHaveBeenCalledTimes(2)
+      expect(listener.mock.calls[0]?.[2]).toEqual({ type: 'addItem', origin: 'user' })
+      expect(listener.mock.calls[1]?.[0].theme).toEqual({ theme: 'dark' })
+    })
+
+    it('delivers consistent snapshots inside a batch', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const app = combineStores({ cart, theme })
+      const seen: Array<[number, string]> = []
+      app.subscribe((state) => {
+        seen.push([state.cart.items.length, state.theme.theme])
+      })
+
+      batch(() => {
+        cart.getState().addItem('apple', 2)
+        theme.setState({ theme: 'dark' })
+      })
+
+      expect(seen).toEqual([[1, 'dark']])
+    })
+
+    it('skips updates that leave the computed state equal', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const count = combineStores({ cart, theme }, ({ cart }) => cart.items.length)
+      const listener = vi.fn()
+      count.subscribe(listener)
+
+      theme.setState({ theme: 'dark' })
+      cart.getState().toggle()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('subscribes to inputs lazily and releases them', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const cartSubscribe = vi.spyOn(cart, 'subscribe')
+      const app = combineStores({ cart, theme })
+      const listener = vi.fn()
+
+      expect(cartSubscribe).not.toHaveBeenCalled()
+
+      const unsubscribe = app.subscribe(listener)
+      expect(cartSubscribe).toHaveBeenCalledTimes(1)
+
+      unsubscribe()
+      cart.getState().addItem('apple', 2)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('supports selector subscriptions', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const app = combineStores({ cart, theme })
+      const listener = vi.fn()
+
+      app.subscribe((s) => s.theme.theme, listener)
+      cart.getState().addItem('apple', 2)
+      theme.setState({ theme: 'dark' })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith('dark', 'light')
+    })
+  })
+
+  describe('with useStore', () => {
+    it('renders once per input update with a consistent snapshot', () => {
+      const cart = createCartStore()
+      const theme = createThemeStore()
+      const app = combineStores({ cart, theme })
+      const renders: Array<[number, string]> = []
+
+      renderHook(() => {
+        const count = useStore(app, (s) => s.cart.items.length)
+        const mode = useStore(app, (s) => s.theme.theme)
+        renders.push([count, mode])
+      })
+
+      act(() => {
+        batch(() => {
+          cart.getState().addItem('apple', 2)
+          theme.setState({ theme: 'dark' })
+        })
+      })
+
+      expect(renders).toEqual([
+        [0, 'light'],
+        [1, 'dark'],
+      ])
+    })
+  })
+})
@@ -108,6 +108,203 @@ describe('devtools + persist', () => {
   })
 })
 
+// ============================================================
+// BATCHING THROUGH MIDDLEWARE
+// ============================================================
+
+describe('batch with devtools + subscribeWithSelector + persist', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    disableDevToolsMock()
+  })
+
+  it('treats a batch as one change across the stack', async () => {
+    const mock = enableDevToolsMock()
+    const storage = createMockStorage<StorageValue<{ count: number }>>()
+
+    const store = createStore<{ count: number; open: boolean }>()(
+      devtools(
+        subscribeWithSelector(
+          persist(() => ({ count: 0, open: false }), {
+            name: 'batched',
+            storage,
+          })
+        )
+      )
+    )
+
+    await vi.runAllTimersAsync()
+    mock.__mockConnection.send.mockClear()
+    vi.mocked(storage.setItem).mockClear()
+
+    const countListener = vi.fn()
+    store.subscribe((s) => s.count, countListener)
+
+    store.batch(() => {
+      store.setState({ count: 1 })
+      store.setState({ open: true })
+      store.setState({ count: 2 })
+    })
+
+    expect(countListener).toHaveBeenCalledTimes(1)
+    expect(countListener).toHaveBeenCalledWith(2, 0)
+    expect(mock.__mockConnection.send).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1)
+    expect(storage.data.get('batched')?.state).toEqual({ count: 2, open: true })
+  })
+})
+
+// ============================================================
+// RE-ENTRANT UPDATES
+// ============================================================
+
+describe('re-entrant updates with devtools + subscribeWithSelector + persist', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    disableDevToolsMock()
+  })
+
+  const createCartLikeStore = (
+    storage: PersistStorage<StorageValue<{ items: string[] }>>,
+    notificationMode?: 'sequential' | 'coalesced'
+  ) =>
+    createStore<{ items: string[]; isOpen: boolean }>()(
+      devtools(
+        subscribeWithSelector(
+          persist(() => ({ items: [] as string[], isOpen: false }), {
+            name: 'cart',
+            storage,
+            partialize: (s) => ({ items: s.items }),
+          })
+        ),
+        { name: 'CartStore' }
+      ),
+      { notificationMode }
+    )
+
+  it('delivers selector slices in order when a listener updates the store', async () => {
+    const mock = enableDevToolsMock()
+    const storage = createMockStorage<StorageValue<{ items: string[] }>>()
+    const store = createCartLikeStore(storage)
+    await vi.runAllTimersAsync()
+    mock.__mockConnection.send.mockClear()
+
+    // Open the cart whenever the first item is added
+    store.subscribe(
+      (s) => s.items.length,
+      (count) => {
+        if (count > 0 && !store.getState().isOpen) {
+          store.setState({ isOpen: true }, false, 'cart/openCart')
+        }
+      }
+    )
+    const openStates: Array<[boolean, boolean]> = []
+    store.subscribe(
+      (s) => s.isOpen,
+      (isOpen, wasOpen) => openStates.push([wasOpen, isOpen])
+    )
+    const itemCounts: Array<[number, number]> = []
+    store.subscribe(
+      (s) => s.items.length,
+      (count, prevCount) => itemCounts.push([prevCount, count])
+    )
+
+    store.setState({ items: ['apple'] }, false, 'cart/addItem')
+
+    expect(itemCounts).toEqual([[0, 1]])
+    expect(openStates).toEqual([[false, true]])
+    expect(
+      mock.__mockConnection.send.mock.calls.map(([action]) => action.type)
+    ).toEqual(['cart/addItem', 'cart/openCart'])
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(storage.data.get('cart')?.state).toEqual({ items: ['apple'] })
+  })
+
+  it('sends one merged action per pass in coalesced mode', async () => {
+    const mock = enableDevToolsMock()
+    const storage = createMockStorage<StorageValue<{ items: string[] }>>()
+    const store = createCartLikeStore(storage, 'coalesced')
+    await vi.runAllTimersAsync()
+    mock.__mockConnection.send.mockClear()
+
+    store.subscribe(
+      (s) => s.items.length,
+      (count) => {
+        if (count === 1) {
+          store.setState({ isOpen: true }, false, 'cart/openCart')
+          store.setState({ items: ['apple', 'pear'] }, false, 'cart/addItem')
+        }
+      }
+    )
+
+    store.setState({ items: ['apple'] }, false, 'cart/addItem')
+
+    expect(
+      mock.__mockConnection.send.mock.calls.map(([action]) => action.type)
+    ).toEqual(['cart/addItem', 'batch'])
+    expect(store.getState()).toEqual({ items: ['apple', 'pear'], isOpen: true })
+  })
+})
+
+// ============================================================
+// LISTENER ERROR ISOLATION
+// ============================================================
+
+describe('throwing listeners with persist + subscribeWithSelector', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps persisting and notifying selector listeners', async () => {
+    const storage = createMockStorage<StorageValue<{ count: number }>>()
+    const onError = vi.fn()
+
+    const store = createStore<{ count: number }>()(
+      subscribeWithSelector(
+        persist(() => ({ count: 0 }), { name: 'isolated', storage })
+      ),
+      { onError }
+    )
+    await vi.runAllTimersAsync()
+
+    const analyticsError = new Error('analytics down')
+    store.subscribe(
+      (s) => s.count,
+      () => {
+        throw analyticsError
+      }
+    )
+    const countListener = vi.fn()
+    store.subscribe((s) => s.count, countListener)
+
+    store.setState({ count: 3 })
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(onError).toHaveBeenCalledWith(
+      analyticsError,
+      expect.objectContaining({ state: { count: 3 } })
+    )
+    expect(countListener).toHaveBeenCalledWith(3, 0)
+    expect(storage.data.get('isolated')?.state).toEqual({ count: 3 })
+  })
+})
+
 // ============================================================
 // IMMER + PERSIST
 // ============================================================
@@ -183,6 +380,114 @@ describe('immer + persist', () => {
   })
 })
 
+// ============================================================
+// FREEZE + IMMER + PERSIST
+// ============================================================
+
+describe('freeze with immer and persist', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('immer drafts of frozen state still update', () => {
+    const store = createStore<TodoState>()(
+      immer((set) => ({
+        todos: [],
+        filter: 'all',
+        addTodo: (text) =>
+          set((draft) => {
+            draft.todos.push({ id: draft.todos.length, text, done: false })
+          }),
+        toggleTodo: (id) =>
+          set((draft) => {
+            const todo = draft.todos.find((t) => t.id === id)
+            if (todo) todo.done = !todo.done
+          }),
+        setFilter: (filter) => set({ filter }),
+      })),
+      { freeze: true }
+    )
+
+    store.getState().addTodo('write tests')
+    store.getState().addTodo('ship')
+    const second = store.getState().todos[1]
+    store.getState().toggleTodo(0)
+
+    expect(store.getState().todos[0]?.done).toBe(true)
+    expect(store.getState().todos[1]).toBe(second)
+    expect(() => {
+      store.getState().todos[0]!.done = false
+    }).toThrow('"state.todos[0].done"')
+  })
+
+  it('freezes state merged by persist', async () => {
+    const storage = createMockStorage<StorageValue<{ todos: TodoState['todos'] }>>()
+    storage.data.set('todos', {
+      state: { todos: [{ id: 1, text: 'saved', done: false }] },
+      version: 0,
+    })
+
+    const store = createStore<TodoState>()(
+      persist(
+        (set) => ({
+          todos: [],
+          filter: 'all',
+          addTodo: (text) =>
+            set((s) => ({ todos: [...s.todos, { id: s.todos.length, text, done: false }] })),
+          toggleTodo: () => {},
+          setFilter: (filter) => set({ filter }),
+        }),
+        { name: 'todos', storage }
+      ),
+      { freeze: true }
+    )
+    await vi.runAllTimersAsync()
+
+    expect(store.getState().todos[0]?.text).toBe('saved')
+    expect(() => {
+      store.getState().todos[0]!.text = 'changed'
+    }).toThrow('"state.todos[0].text"')
+
+    store.getState().addTodo('new')
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(storage.data.get('todos')?.state.todos).toHaveLength(2)
+  })
+
+  it('reports mutations in onRehydrateStorage through the error callback', async () => {
+    const storage = createMockStorage<StorageValue<{ filter: string }>>()
+    storage.data.set('todos', { state: { filter: 'active' }, version: 0 })
+    const onRehydrated = vi.fn((state?: TodoState) => {
+      if (state) state.filter = 'completed'
+    })
+
+    const store = createStore<TodoState>()(
+      persist(
+        (set) => ({
+          todos: [],
+          filter: 'all',
+          addTodo: () => {},
+          toggleTodo: () => {},
+          setFilter: (filter) => set({ filter }),
+        }),
+        { name: 'todos', storage, onRehydrateStorage: () => onRehydrated }
+      ),
+      { freeze: true }
+    )
+    await vi.runAllTimersAsync()
+
+    expect(onRehydrated).toHaveBeenLastCalledWith(
+      undefined,
+      expect.objectContaining({ message: expect.stringContaining('"state.filter"') })
+    )
+    expect(store.getState().filter).toBe('active')
+  })
+})
+
 // ============================================================
 // SUBSCRIBE WITH SELECTOR + IMMER
 // ============================================================
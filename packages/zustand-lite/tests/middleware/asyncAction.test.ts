@@ -0,0 +1,416 @@
+/**
+ * Tests for asyncAction.
+ * Coverage: status tracking, cancellation, concurrency policies, useStore, devtools
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { createStore } from '../../src/vanilla'
+import { create } from '../../src/react'
+import { asyncAction, getAsyncStatus } from '../../src/middleware/asyncAction'
+import type {
+  AsyncAction,
+  ConcurrencyPolicy,
+  WithAsyncStatus,
+} from '../../src/middleware/asyncAction'
+import { devtools } from '../../src/middleware/devtools'
+import { immer } from '../../src/middleware/immer'
+import { enableDevToolsMock, disableDevToolsMock } from '../setup'
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+/**
+ * Promise resolved or rejected from the outside.
+ */
+const deferred = <T>() => {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+interface LoadState extends WithAsyncStatus {
+  value: string | null
+  load: AsyncAction<[id: string], string>
+}
+
+/**
+ * Creates a store whose `load` waits for each call's deferred.
+ */
+const createLoadStore = (policy?: ConcurrencyPolicy) => {
+  const calls: Array<{
+    id: string
+    signal: AbortSignal
+    result: ReturnType<typeof deferred<string>>
+  }> = []
+
+  const store = createStore<LoadState>()((set, _get, api) => ({
+    value: null,
+    load: asyncAction(
+      api,
+      'load',
+      async ({ signal }, id) => {
+        const result = deferred<string>()
+        calls.push({ id, signal, result })
+        const value = await result.promise
+        set({ value })
+        return value
+      },
+      { policy }
+    ),
+  }))
+
+  return { store, calls }
+}
+
+const status = (store: { getState: () => LoadState }) =>
+  getAsyncStatus(store.getState(), 'load')
+
+// ============================================================
+// STATUS TRACKING
+// ============================================================
+
+describe('asyncAction', () => {
+  describe('status', () => {
+    it('is idle before the first run', () => {
+      const { store } = createLoadStore()
+
+      expect(status(store)).toEqual({
+        status: 'idle',
+        error: undefined,
+        lastResult: undefined,
+      })
+      expect(status(store)).toBe(getAsyncStatus(store.getState(), 'load'))
+    })
+
+    it('tracks a successful run', async () => {
+      const { store, calls } = createLoadStore()
+
+      const promise = store.getState().load('a')
+      expect(status(store).status).toBe('pending')
+
+      calls[0]?.result.resolve('A')
+      await expect(promise).resolves.toBe('A')
+
+      expect(status(store)).toEqual({
+        status: 'success',
+        error: undefined,
+        lastResult: 'A',
+      })
+      expect(store.getState().value).toBe('A')
+    })
+
+    it('tracks a failed run without rejecting', async () => {
+      const { store, calls } = createLoadStore()
+      const error = new Error('boom')
+
+      const promise = store.getState().load('a')
+      calls[0]?.result.reject(error)
+
+      await expect(promise).resolves.toBeUndefined()
+      expect(status(store).status).toBe('error')
+      expect(status(store).error).toBe(error)
+    })
+
+    it('clears the error and keeps the last result on the next run', async () => {
+      const { store, calls } = createLoadStore()
+
+      const first = store.getState().load('a')
+      calls[0]?.result.resolve('A')
+      await first
+
+      const second = store.getState().load('b')
+      calls[1]?.result.reject(new Error('boom'))
+      await second
+
+      store.getState().load('c')
+      expect(status(store)).toEqual({
+        status: 'pending',
+        error: undefined,
+        lastResult: 'A',
+      })
+    })
+
+    it('catches synchronous throws in the effect', async () => {
+      const store = createStore<WithAsyncStatus & { run: AsyncAction<[], void> }>()(
+        (_set, _get, api) => ({
+          run: asyncAction(api, 'run', () => {
+            throw new Error('sync')
+          }),
+        })
+      )
+
+      await expect(store.getState().run()).resolves.toBeUndefined()
+      expect(getAsyncStatus(store.getState(), 'run').status).toBe('error')
+    })
+
+    it('reports each step as a named action', async () => {
+      const { store, calls } = createLoadStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      const first = store.getState().load('a')
+      calls[0]?.result.resolve('A')
+      await first
+
+      const second = store.getState().load('b')
+      calls[1]?.result.reject(new Error('boom'))
+      await second
+
+      const types = listener.mock.calls
+        .map(([, , action]) => action?.type)
+        .filter((type) => type?.startsWith('load/'))
+      expect(types).toEqual(['load/start', 'load/success', 'load/start', 'load/failure'])
+      expect(listener.mock.calls[0]?.[2]).toMatchObject({ payload: ['a'] })
+    })
+  })
+
+  // ============================================================
+  // CANCELLATION
+  // ============================================================
+
+  describe('abort', () => {
+    it('aborts the signal and returns to idle', async () => {
+      const { store, calls } = createLoadStore()
+
+      const promise = store.getState().load('a')
+      store.getState().load.abort()
+
+      expect(calls[0]?.signal.aborted).toBe(true)
+      expect(status(store).status).toBe('idle')
+
+      calls[0]?.result.resolve('A')
+      await expect(promise).resolves.toBeUndefined()
+      expect(status(store).status).toBe('idle')
+      expect(store.getState().value).toBe('A')
+    })
+
+    it('does nothing when no run is in flight', () => {
+      const { store } = createLoadStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().load.abort()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('aborts running calls when the store is destroyed', () => {
+      const { store, calls } = createLoadStore()
+
+      store.getState().load('a')
+      store.destroy()
+
+      expect(calls[0]?.signal.aborted).toBe(true)
+    })
+  })
+
+  // ============================================================
+  // CONCURRENCY POLICIES
+  // ============================================================
+
+  describe('policies', () => {
+    it('takeEvery runs calls concurrently and stays pending until all settle', async () => {
+      const { store, calls } = createLoadStore('takeEvery')
+
+      const first = store.getState().load('a')
+      const second = store.getState().load('b')
+      expect(calls).toHaveLength(2)
+
+      calls[0]?.result.resolve('A')
+      await first
+      expect(status(store)).toMatchObject({ status: 'pending', lastResult: 'A' })
+
+      calls[1]?.result.resolve('B')
+      await second
+      expect(status(store)).toMatchObject({ status: 'success', lastResult: 'B' })
+    })
+
+    it('takeLatest aborts the previous call and ignores its result', async () => {
+      const { store, calls } = createLoadStore('takeLatest')
+
+      const first = store.getState().load('a')
+      const second = store.getState().load('b')
+
+      expect(calls[0]?.signal.aborted).toBe(true)
+      expect(calls[1]?.signal.aborted).toBe(false)
+
+      calls[1]?.result.resolve('B')
+      await expect(second).resolves.toBe('B')
+
+      calls[0]?.result.resolve('A')
+      await expect(first).resolves.toBeUndefined()
+      expect(status(store)).toMatchObject({ status: 'success', lastResult: 'B' })
+    })
+
+    it('takeLatest ignores failures of superseded calls', async () => {
+      const { store, calls } = createLoadStore('takeLatest')
+
+      const first = store.getState().load('a')
+      store.getState().load('b')
+
+      calls[0]?.result.reject(new Error('aborted'))
+      await first
+
+      expect(status(store)).toMatchObject({ status: 'pending', error: undefined })
+    })
+
+    it('exhaust ignores calls while one is in flight', async () => {
+      const { store, calls } = createLoadStore('exhaust')
+
+      const first = store.getState().load('a')
+      const ignored = store.getState().load('b')
+
+      expect(calls).toHaveLength(1)
+      await expect(ignored).resolves.toBeUndefined()
+
+      calls[0]?.result.resolve('A')
+      await expect(first).resolves.toBe('A')
+
+      store.getState().load('c')
+      expect(calls).toHaveLength(2)
+    })
+
+    it('queue runs calls one after another', async () => {
+      const { store, calls } = createLoadStore('queue')
+
+      const first = store.getState().load('a')
+      const second = store.getState().load('b')
+      await Promise.resolve()
+
+      expect(calls.map((call) => call.id)).toEqual(['a'])
+
+      calls[0]?.result.resolve('A')
+      await expect(first).resolves.toBe('A')
+      await vi.waitFor(() => expect(calls).toHaveLength(2))
+
+      calls[1]?.result.resolve('B')
+      await expect(second).resolves.toBe('B')
+      expect(status(store)).toMatchObject({ status: 'success', lastResult: 'B' })
+    })
+
+    it('queue keeps going after a failure', async () => {
+      const { store, calls } = createLoadStore('queue')
+
+      const first = store.getState().load('a')
+      const second = store.getState().load('b')
+      await vi.waitFor(() => expect(calls).toHaveLength(1))
+
+      calls[0]?.result.reject(new Error('boom'))
+      await first
+      await vi.waitFor(() => expect(calls).toHaveLength(2))
+
+      calls[1]?.result.resolve('B')
+      await expect(second).resolves.toBe('B')
+    })
+
+    it('abort drops queued calls', async () => {
+      const { store, calls } = createLoadStore('queue')
+
+      const first = store.getState().load('a')
+      const second = store.getState().load('b')
+      await vi.waitFor(() => expect(calls).toHaveLength(1))
+
+      store.getState().load.abort()
+      calls[0]?.result.resolve('A')
+
+      await expect(first).resolves.toBeUndefined()
+      await expect(second).resolves.toBeUndefined()
+      expect(calls).toHaveLength(1)
+    })
+  })
+
+  // ============================================================
+  // REACT
+  // ============================================================
+
+  describe('with useStore', () => {
+    it('re-renders on status changes', async () => {
+      const result = deferred<number>()
+      const useCounter = create<WithAsyncStatus & { count: AsyncAction<[], number> }>()(
+        (_set, _get, api) => ({
+          count: asyncAction(api, 'count', () => result.promise),
+        })
+      )
+
+      const { result: hook } = renderHook(() =>
+        useCounter((s) => getAsyncStatus(s, 'count').status)
+      )
+      expect(hook.current).toBe('idle')
+
+      let promise: Promise<number | undefined> | undefined
+      act(() => {
+        promise = useCounter.getState().count()
+      })
+      expect(hook.current).toBe('pending')
+
+      await act(async () => {
+        result.resolve(1)
+        await promise
+      })
+      expect(hook.current).toBe('success')
+    })
+  })
+
+  // ============================================================
+  // MIDDLEWARE COMPOSITION
+  // ============================================================
+
+  describe('with devtools', () => {
+    afterEach(() => {
+      disableDevToolsMock()
+    })
+
+    it('sends start, success and failure actions', async () => {
+      const mock = enableDevToolsMock()
+      let attempt = 0
+      const store = createStore<WithAsyncStatus & { save: AsyncAction<[], number> }>()(
+        devtools((_set, _get, api) => ({
+          save: asyncAction(api, 'save', async () => {
+            attempt++
+            if (attempt > 1) throw new Error('offline')
+            return attempt
+          }),
+        }))
+      )
+
+      await store.getState().save()
+      await store.getState().save()
+
+      const types = mock.__mockConnection.send.mock.calls.map(
+        ([action]: [{ type: string }]) => action.type
+      )
+      expect(types).toEqual(['save/start', 'save/success', 'save/start', 'save/failure'])
+    })
+  })
+
+  describe('with immer', () => {
+    it('updates status through the immer setState', async () => {
+      interface TodosState extends WithAsyncStatus {
+        todos: string[]
+        add: AsyncAction<[todo: string], void>
+      }
+
+      const store = createStore<TodosState>()(
+        immer((set, _get, api) => ({
+          todos: [],
+          add: asyncAction(api, 'add', async (_context, todo) => {
+            set((draft) => {
+              draft.todos.push(todo)
+            })
+          }),
+        }))
+      )
+
+      await store.getState().add('write tests')
+
+      expect(store.getState().todos).toEqual(['write tests'])
+      expect(getAsyncStatus(store.getState(), 'add').status).toBe('success')
+    })
+  })
+})
@@ -0,0 +1,422 @@
+/**
+ * Tests for broadcast middleware.
+ * Coverage: publishing, echo prevention, partialize, initial sync, patch mode, close, fallback, persist
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { broadcast } from '../../src/middleware/broadcast'
+import type { BroadcastOptions } from '../../src/middleware/broadcast'
+import { persist } from '../../src/middleware/persist'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface CartState {
+  items: string[]
+  isOpen: boolean
+  add: (item: string) => void
+  toggle: () => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+/** Stores and channels to close after each test */
+const cleanups: Array<() => void> = []
+
+/** Unique channel name per test, so tests never hear each other */
+let channelCount = 0
+const nextChannelName = () => `cart-${++channelCount}`
+
+const cartCreator = (
+  set: (partial: (s: CartState) => Partial<CartState>, replace?: false, action?: string) => void
+) => ({
+  items: [] as string[],
+  isOpen: false,
+  add: (item: string) => set((s) => ({ items: [...s.items, item] }), false, 'cart/add'),
+  toggle: () => set((s) => ({ isOpen: !s.isOpen })),
+})
+
+const createCartStore = (options: BroadcastOptions<CartState>) => {
+  const store = createStore<CartState>()(broadcast((set) => cartCreator(set), options))
+  cleanups.push(store.destroy)
+  return store
+}
+
+/**
+ * Listens on a channel like a peer would, recording every message.
+ */
+const observe = (name: string) => {
+  const channel = new BroadcastChannel(name)
+  const messages: Array<{ kind: string; [key: string]: unknown }> = []
+  channel.addEventListener('message', (event) => {
+    messages.push((event as MessageEvent).data)
+  })
+  cleanups.push(() => channel.close())
+  return { channel, messages }
+}
+
+/** Lets channel messages be delivered */
+const deliver = () => new Promise((resolve) => setTimeout(resolve, 20))
+
+// ============================================================
+// broadcast MIDDLEWARE TESTS
+// ============================================================
+
+describe('broadcast middleware', () => {
+  afterEach(() => {
+    for (const cleanup of cleanups.splice(0)) cleanup()
+    vi.unstubAllGlobals()
+  })
+
+  describe('publishing', () => {
+    it('applies updates from other stores on the channel', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name })
+      const second = createCartStore({ name })
+
+      first.getState().add('apple')
+      await deliver()
+
+      expect(second.getState().items).toEqual(['apple'])
+    })
+
+    it('labels remote updates with the broadcast origin', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name, syncOnStart: false })
+      const second = createCartStore({ name, syncOnStart: false })
+      const listener = vi.fn()
+      second.subscribe(listener)
+
+      first.getState().add('apple')
+      await deliver()
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'broadcast/update',
+        payload: 'cart/add',
+        origin: 'broadcast',
+      })
+    })
+
+    it('does not echo remote updates back', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name, syncOnStart: false })
+      createCartStore({ name, syncOnStart: false })
+      const { messages } = observe(name)
+
+      first.getState().add('apple')
+      await deliver()
+
+      expect(messages).toEqual([
+        expect.objectContaining({ kind: 'state', state: { items: ['apple'], isOpen: false } }),
+      ])
+    })
+
+    it('shares only data, not actions', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name, syncOnStart: false })
+      const { messages } = observe(name)
+
+      first.getState().add('apple')
+      await deliver()
+
+      expect(Object.keys(messages[0]?.['state'] as object)).toEqual(['items', 'isOpen'])
+    })
+
+    it('ignores messages from other code on the channel', async () => {
+      const name = nextChannelName()
+      const store = createCartStore({ name, syncOnStart: false })
+      const { channel } = observe(name)
+
+      for (const data of [null, 'hello', { kind: 'state' }, { source: 'x', kind: 'other' }]) {
+        channel.postMessage(data)
+      }
+      await deliver()
+
+      expect(store.getState().items).toEqual([])
+    })
+
+    it('reports a state that cannot be cloned once through onError', async () => {
+      const name = nextChannelName()
+      const onError = vi.fn()
+      const store = createStore<CartState>()(
+        broadcast((set) => cartCreator(set), {
+          name,
+          syncOnStart: false,
+          partialize: (s) => ({ items: s.items, add: s.add }),
+        }),
+        { onError }
+      )
+      cleanups.push(store.destroy)
+
+      store.getState().add('apple')
+      store.getState().add('pear')
+
+      expect(store.getState().items).toEqual(['apple', 'pear'])
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(onError.mock.calls[0]?.[0]).toMatchObject({ name: 'DataCloneError' })
+    })
+
+    it('ignores other channels', async () => {
+      const first = createCartStore({ name: nextChannelName() })
+      const second = createCartStore({ name: nextChannelName() })
+
+      first.getState().add('apple')
+      await deliver()
+
+      expect(second.getState().items).toEqual([])
+    })
+  })
+
+  describe('partialize', () => {
+    it('shares only the selected keys', async () => {
+      const name = nextChannelName()
+      const partialize = (s: CartState) => ({ items: s.items })
+      const first = createCartStore({ name, partialize })
+      const second = createCartStore({ name, partialize })
+      const { messages } = observe(name)
+
+      first.getState().toggle()
+      first.getState().add('apple')
+      await deliver()
+
+      expect(second.getState()).toMatchObject({ items: ['apple'], isOpen: false })
+      // The toggle changed nothing shared, so it was not published
+      expect(messages.filter((m) => m.kind === 'state')).toHaveLength(1)
+    })
+  })
+
+  describe('initial state', () => {
+    it('asks peers for their state on startup', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name })
+      first.getState().add('apple')
+      await deliver()
+
+      const second = createCartStore({ name })
+      const listener = vi.fn()
+      second.subscribe(listener)
+      await deliver()
+
+      expect(second.getState().items).toEqual(['apple'])
+      expect(listener.mock.calls[0]?.[2]).toEqual({ type: 'broadcast/sync', origin: 'broadcast' })
+    })
+
+    it('applies only the first reply', async () => {
+      const name = nextChannelName()
+      // Two peers answering every request with their own state
+      for (const items of [['first'], ['second']]) {
+        const { channel } = observe(name)
+        channel.addEventListener('message', (event) => {
+          const message = (event as MessageEvent).data
+          if (message.kind !== 'request') return
+          channel.postMessage({
+            kind: 'reply',
+            source: 'peer',
+            target: message.source,
+            state: { items },
+          })
+        })
+      }
+
+      const store = createCartStore({ name })
+      const listener = vi.fn()
+      store.subscribe(listener)
+      await deliver()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(store.getState().items).toEqual(['first'])
+    })
+
+    it('keeps a local update made before the reply', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name })
+      first.getState().add('apple')
+      await deliver()
+
+      const second = createCartStore({ name })
+      second.getState().add('pear')
+      await deliver()
+
+      expect(second.getState().items).toEqual(['pear'])
+      // The local update reached the first store instead
+      expect(first.getState().items).toEqual(['pear'])
+    })
+
+    it('does not answer before it has state of its own', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name })
+      await deliver()
+      const { messages } = observe(name)
+
+      createCartStore({ name })
+      await deliver()
+
+      expect(messages.map((m) => m.kind)).toEqual(['request'])
+
+      first.getState().add('apple')
+      await deliver()
+      const third = createCartStore({ name })
+      await deliver()
+
+      expect(messages.some((m) => m.kind === 'reply')).toBe(true)
+      expect(third.getState().items).toEqual(['apple'])
+    })
+
+    it('can skip the startup request', async () => {
+      const name = nextChannelName()
+      const { messages } = observe(name)
+
+      createCartStore({ name, syncOnStart: false })
+      await deliver()
+
+      expect(messages).toEqual([])
+    })
+  })
+
+  describe('patch mode', () => {
+    it('publishes diffs', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name, mode: 'patch', syncOnStart: false })
+      const second = createCartStore({ name, mode: 'patch', syncOnStart: false })
+      const { messages } = observe(name)
+
+      first.getState().add('apple')
+      await deliver()
+
+      expect(messages).toEqual([
+        expect.objectContaining({
+          kind: 'patch',
+          patch: [{ op: 'add', path: '/items/0', value: 'apple' }],
+          action: 'cart/add',
+        }),
+      ])
+      expect(second.getState().items).toEqual(['apple'])
+    })
+
+    it('requests the full state when a diff does not apply', async () => {
+      const name = nextChannelName()
+      const store = createCartStore({ name, mode: 'patch', syncOnStart: false })
+      const { channel, messages } = observe(name)
+
+      channel.postMessage({
+        kind: 'patch',
+        source: 'peer',
+        patch: [{ op: 'replace', path: '/items/3', value: 'x' }],
+      })
+      await deliver()
+
+      expect(store.getState().items).toEqual([])
+      expect(messages).toEqual([expect.objectContaining({ kind: 'request' })])
+    })
+  })
+
+  describe('close', () => {
+    it('stops publishing and receiving', async () => {
+      const name = nextChannelName()
+      const first = createCartStore({ name })
+      const second = createCartStore({ name })
+
+      second.broadcast.close()
+      first.getState().add('apple')
+      second.getState().add('pear')
+      await deliver()
+
+      expect(second.broadcast.isConnected()).toBe(false)
+      expect(first.getState().items).toEqual(['apple'])
+      expect(second.getState().items).toEqual(['pear'])
+    })
+
+    it('closes the channel when the store is destroyed', () => {
+      const store = createCartStore({ name: nextChannelName() })
+
+      store.destroy()
+
+      expect(store.broadcast.isConnected()).toBe(false)
+    })
+  })
+
+  describe('without BroadcastChannel', () => {
+    it('works as a local store', () => {
+      vi.stubGlobal('BroadcastChannel', undefined)
+      const store = createCartStore({ name: nextChannelName() })
+
+      store.getState().add('apple')
+      store.broadcast.sync()
+
+      expect(store.getState().items).toEqual(['apple'])
+      expect(store.broadcast.isConnected()).toBe(false)
+    })
+  })
+
+  describe('composition', () => {
+    const createStorage = (initial?: StorageValue<unknown>) => {
+      const saved = new Map<string, StorageValue<unknown>>()
+      if (initial) saved.set('cart-storage', initial)
+      const storage: PersistStorage<unknown> = {
+        getItem: (key) => saved.get(key) ?? null,
+        setItem: (key, value) => {
+          saved.set(key, value)
+        },
+        removeItem: (key) => {
+          saved.delete(key)
+        },
+      }
+      return { saved, storage }
+    }
+
+    const createPersistedStore = (name: string, storage: PersistStorage<unknown>) => {
+      const store = createStore<CartState>()(
+        broadcast(
+          persist((set) => cartCreator(set), { name: 'cart-storage', storage, debounceMs: 0 }),
+          { name, partialize: (s) => ({ items: s.items }) }
+        )
+      )
+      cleanups.push(store.destroy)
+      return store
+    }
+
+    it('persists updates received from peers', async () => {
+      const name = nextChannelName()
+      const first = createPersistedStore(name, createStorage().storage)
+      const second = createStorage()
+      createPersistedStore(name, second.storage)
+      await deliver()
+
+      first.getState().add('apple')
+      await deliver()
+
+      expect(second.saved.get('cart-storage')?.state).toMatchObject({ items: ['apple'] })
+    })
+
+    it('answers once rehydrated', async () => {
+      const name = nextChannelName()
+      createPersistedStore(name, createStorage().storage)
+      await deliver()
+
+      const second = createCartStore({ name })
+      const listener = vi.fn()
+      second.subscribe(listener)
+      await deliver()
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({ type: 'broadcast/sync', origin: 'broadcast' })
+    })
+
+    it('does not publish rehydration', async () => {
+      const name = nextChannelName()
+      const { messages } = observe(name)
+      const store = createPersistedStore(
+        name,
+        createStorage({ state: { items: ['saved'] }, version: 0 }).storage
+      )
+      await deliver()
+
+      expect(store.getState().items).toEqual(['saved'])
+      expect(messages.map((m) => m.kind)).toEqual(['request'])
+    })
+  })
+})
@@ -0,0 +1,392 @@
+/**
+ * Tests for computed middleware.
+ * Coverage: derived fields, memoization, updates, middleware composition
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { createStore } from '../../src/vanilla'
+import { create } from '../../src/react'
+import { computed } from '../../src/middleware/computed'
+import { persist } from '../../src/middleware/persist'
+import { devtools } from '../../src/middleware/devtools'
+import { immer } from '../../src/middleware/immer'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+import { enableDevToolsMock, disableDevToolsMock } from '../setup'
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+interface CartState {
+  items: number[]
+  open: boolean
+  addItem: (price: number) => void
+  toggle: () => void
+}
+
+interface CartComputed {
+  total: number
+  count: number
+}
+
+type CartStore = CartState & CartComputed
+
+const createCartStore = (compute = vi.fn((s: CartStore) =>
+  s.items.reduce((sum, price) => sum + price, 0)
+)) =>
+  createStore<CartStore>()(
+    computed(
+      (set) => ({
+        items: [],
+        open: false,
+        addItem: (price) => set((s) => ({ items: [...s.items, price] })),
+        toggle: () => set((s) => ({ open: !s.open })),
+      }),
+      {
+        total: { deps: (s) => [s.items], compute },
+        count: { deps: (s) => [s.items], compute: (s) => s.items.length },
+      }
+    )
+  )
+
+// ============================================================
+// BASIC FUNCTIONALITY
+// ============================================================
+
+describe('computed middleware', () => {
+  describe('derived fields', () => {
+    it('exposes derived fields on getState', () => {
+      const store = createCartStore()
+
+      expect(store.getState().total).toBe(0)
+      expect(store.getState().count).toBe(0)
+    })
+
+    it('updates derived fields when dependencies change', () => {
+      const store = createCartStore()
+
+      store.getState().addItem(10)
+      store.getState().addItem(5)
+
+      expect(store.getState().total).toBe(15)
+      expect(store.getState().count).toBe(2)
+    })
+
+    it('is available on the initial state', () => {
+      const store = createCartStore()
+      store.getState().addItem(10)
+
+      expect(store.getInitialState().total).toBe(0)
+    })
+
+    it('ignores writes to derived fields', () => {
+      const store = createCartStore()
+      store.getState().addItem(10)
+
+      store.setState({ total: 999 } as Partial<CartStore>)
+
+      expect(store.getState().total).toBe(10)
+    })
+
+    it('keeps derived fields after replace and reset', () => {
+      const store = createCartStore()
+      const { addItem, toggle } = store.getState()
+
+      store.setState({ items: [1, 2], open: false, addItem, toggle } as CartStore, true)
+      expect(store.getState().total).toBe(3)
+
+      store.reset()
+      expect(store.getState().total).toBe(0)
+    })
+
+    it('can depend on other derived fields', () => {
+      const store = createStore<{ price: number; double: number; quadruple: number }>()(
+        computed(() => ({ price: 2 }), {
+          double: { deps: (s) => [s.price], compute: (s) => s.price * 2 },
+          quadruple: { deps: (s) => [s.double], compute: (s) => s.double * 2 },
+        })
+      )
+
+      store.setState({ price: 3 })
+
+      expect(store.getState().quadruple).toBe(12)
+    })
+  })
+
+  describe('memoization', () => {
+    it('does not recompute when dependencies are unchanged', () => {
+      const compute = vi.fn((s: CartStore) => s.items.length)
+      const store = createCartStore(compute)
+
+      store.getState().total
+      store.getState().toggle()
+      store.getState().total
+      store.getState().total
+
+      expect(compute).toHaveBeenCalledTimes(1)
+    })
+
+    it('recomputes once per dependency change', () => {
+      const compute = vi.fn((s: CartStore) => s.items.length)
+      const store = createCartStore(compute)
+
+      store.getState().addItem(1)
+      store.getState().total
+      store.getState().total
+
+      expect(compute).toHaveBeenCalledTimes(1)
+      expect(store.getState().total).toBe(1)
+    })
+
+    it('is lazy until the field is read', () => {
+      const compute = vi.fn((s: CartStore) => s.items.length)
+      const store = createCartStore(compute)
+
+      store.getState().addItem(1)
+      store.getState().addItem(2)
+
+      expect(compute).not.toHaveBeenCalled()
+    })
+
+    it('returns a stable reference while dependencies are unchanged', () => {
+      const store = createStore<{ items: number[]; sorted: number[]; open: boolean }>()(
+        computed(() => ({ items: [3, 1, 2], open: false }), {
+          sorted: {
+            deps: (s) => [s.items],
+            compute: (s) => [...s.items].sort(),
+          },
+        })
+      )
+
+      const before = store.getState().sorted
+      store.setState({ open: true })
+
+      expect(store.getState().sorted).toBe(before)
+    })
+  })
+
+  // ============================================================
+  // REACT
+  // ============================================================
+
+  describe('with useStore', () => {
+    it('selects derived fields', () => {
+      const useCart = create<CartStore>()(
+        computed(
+          (set) => ({
+            items: [],
+            open: false,
+            addItem: (price) => set((s) => ({ items: [...s.items, price] })),
+            toggle: () => set((s) => ({ open: !s.open })),
+          }),
+          {
+            total: {
+              deps: (s) => [s.items],
+              compute: (s) => s.items.reduce((sum, price) => sum + price, 0),
+            },
+            count: { deps: (s) => [s.items], compute: (s) => s.items.length },
+          }
+        )
+      )
+
+      const { result } = renderHook(() => useCart((s) => s.total))
+      expect(result.current).toBe(0)
+
+      act(() => {
+        useCart.getState().addItem(7)
+      })
+
+      expect(result.current).toBe(7)
+    })
+  })
+
+  // ============================================================
+  // MIDDLEWARE COMPOSITION
+  // ============================================================
+
+  describe('with persist', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const createMemoryStorage = () => {
+      const data = new Map<string, StorageValue<unknown>>()
+      const storage: PersistStorage<unknown> = {
+        getItem: (name) => data.get(name) ?? null,
+        setItem: (name, value) => {
+          data.set(name, value)
+        },
+        removeItem: (name) => {
+          data.delete(name)
+        },
+      }
+      return { data, storage }
+    }
+
+    it('does not persist derived fields', async () => {
+      const { data, storage } = createMemoryStorage()
+      const store = createStore<CartStore>()(
+        persist(
+          computed(
+            (set) => ({
+              items: [],
+              open: false,
+              addItem: (price) => set((s) => ({ items: [...s.items, price] })),
+              toggle: () => set((s) => ({ open: !s.open })),
+            }),
+            {
+              total: { deps: (s) => [s.items], compute: (s) => s.items.length },
+              count: { deps: (s) => [s.items], compute: (s) => s.items.length },
+            }
+          ),
+          { name: 'cart', storage }
+        )
+      )
+      await vi.runAllTimersAsync()
+
+      store.getState().addItem(3)
+      await vi.advanceTimersByTimeAsync(100)
+
+      const persisted = data.get('cart')?.state as Record<string, unknown>
+      expect(persisted).toMatchObject({ items: [3], open: false })
+      expect(persisted).not.toHaveProperty('total')
+      expect(persisted).not.toHaveProperty('count')
+    })
+
+    it('drops derived fields before partialize', async () => {
+      const { data, storage } = createMemoryStorage()
+      const store = createStore<CartStore>()(
+        persist(
+          computed(
+            (set) => ({
+              items: [],
+              open: false,
+              addItem: (price) => set((s) => ({ items: [...s.items, price] })),
+              toggle: () => set((s) => ({ open: !s.open })),
+            }),
+            {
+              total: { deps: (s) => [s.items], compute: (s) => s.items.length },
+              count: { deps: (s) => [s.items], compute: (s) => s.items.length },
+            }
+          ),
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          { name: 'cart', storage, partialize: ({ open, ...rest }) => rest }
+        )
+      )
+      await vi.runAllTimersAsync()
+
+      store.getState().addItem(3)
+      await vi.advanceTimersByTimeAsync(100)
+
+      const persisted = data.get('cart')?.state as Record<string, unknown>
+      expect(persisted).toMatchObject({ items: [3] })
+      expect(persisted).not.toHaveProperty('open')
+      expect(persisted).not.toHaveProperty('total')
+      expect(persisted).not.toHaveProperty('count')
+    })
+
+    it('recomputes derived fields after rehydration', async () => {
+      const { data, storage } = createMemoryStorage()
+      data.set('cart', { state: { items: [1, 2], total: 999 }, version: 0 })
+
+      const store = createStore<CartStore>()(
+        persist(
+          computed(
+            (set) => ({
+              items: [],
+              open: false,
+              addItem: (price) => set((s) => ({ items: [...s.items, price] })),
+              toggle: () => set((s) => ({ open: !s.open })),
+            }),
+            {
+              total: {
+                deps: (s) => [s.items],
+                compute: (s) => s.items.reduce((sum, price) => sum + price, 0),
+              },
+              count: { deps: (s) => [s.items], compute: (s) => s.items.length },
+            }
+          ),
+          { name: 'cart', storage }
+        )
+      )
+      await vi.runAllTimersAsync()
+
+      expect(store.getState().items).toEqual([1, 2])
+      expect(store.getState().total).toBe(3)
+    })
+  })
+
+  describe('with devtools', () => {
+    afterEach(() => {
+      disableDevToolsMock()
+    })
+
+    it('leaves derived fields out of sent state', () => {
+      const mock = enableDevToolsMock()
+      const store = createStore<CartStore>()(
+        devtools(
+          computed(
+            (set) => ({
+              items: [],
+              open: false,
+              addItem: (price) => set((s) => ({ items: [...s.items, price] })),
+              toggle: () => set((s) => ({ open: !s.open })),
+            }),
+            {
+              total: { deps: (s) => [s.items], compute: (s) => s.items.length },
+              count: { deps: (s) => [s.items], compute: (s) => s.items.length },
+            }
+          )
+        )
+      )
+
+      store.getState().addItem(1)
+
+      const sentState = mock.__mockConnection.send.mock.calls[0]?.[1]
+      expect(sentState).toMatchObject({ items: [1] })
+      expect(sentState).not.toHaveProperty('total')
+      expect(sentState).not.toHaveProperty('count')
+    })
+  })
+
+  describe('with immer', () => {
+    it('updates derived fields after draft mutations', () => {
+      const store = createStore<CartStore>()(
+        immer(
+          computed(
+            (set) => ({
+              items: [],
+              open: false,
+              addItem: (price) =>
+                set((draft) => {
+                  draft.items.push(price)
+                }),
+              toggle: () =>
+                set((draft) => {
+                  draft.open = !draft.open
+                }),
+            }),
+            {
+              total: {
+                deps: (s) => [s.items],
+                compute: (s) => s.items.reduce((sum, price) => sum + price, 0),
+              },
+              count: { deps: (s) => [s.items], compute: (s) => s.items.length },
+            }
+          )
+        )
+      )
+
+      store.getState().addItem(4)
+      store.getState().addItem(6)
+
+      expect(store.getState().total).toBe(10)
+      expect(store.getState().count).toBe(2)
+    })
+  })
+})
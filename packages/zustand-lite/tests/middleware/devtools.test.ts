@@ -6,6 +6,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { createStore } from '../../src/vanilla'
 import { devtools } from '../../src/middleware/devtools'
+import { taggedCodec } from '../../src/utils/codec'
 import { enableDevToolsMock, disableDevToolsMock } from '../setup'
 
 // ============================================================
@@ -183,6 +184,77 @@ describe('devtools middleware - state tracking', () => {
     expect(mock.__mockConnection.send).toHaveBeenCalledTimes(3)
   })
 
+  it('sends actions triggered through set inside the initializer', () => {
+    const store = createTestStore()
+
+    mock.__mockConnection.send.mockClear()
+
+    store.getState().increment()
+
+    expect(mock.__mockConnection.send).toHaveBeenCalledTimes(1)
+    expect(mock.__mockConnection.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: expect.any(String) }),
+      expect.objectContaining({ count: 1 })
+    )
+  })
+
+  it('sends a single action for a batch', () => {
+    const store = createTestStore()
+
+    mock.__mockConnection.send.mockClear()
+
+    store.batch(() => {
+      store.getState().increment()
+      store.getState().increment()
+      store.getState().setName('batched')
+    })
+
+    expect(mock.__mockConnection.send).toHaveBeenCalledTimes(1)
+    expect(mock.__mockConnection.send).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ count: 2, name: 'batched' })
+    )
+  })
+
+  it('sends the action name passed to set', () => {
+    const store = createTestStore()
+
+    mock.__mockConnection.send.mockClear()
+
+    store.setState({ count: 3 }, false, 'setCount')
+
+    expect(mock.__mockConnection.send).toHaveBeenCalledWith(
+      { type: 'setCount', payload: undefined },
+      expect.objectContaining({ count: 3 })
+    )
+  })
+
+  it('sends the payload of an action descriptor', () => {
+    const store = createTestStore()
+
+    mock.__mockConnection.send.mockClear()
+
+    store.setState({ name: 'renamed' }, false, {
+      type: 'rename',
+      payload: { name: 'renamed' },
+    })
+
+    expect(mock.__mockConnection.send).toHaveBeenCalledWith(
+      { type: 'rename', payload: { name: 'renamed' } },
+      expect.objectContaining({ name: 'renamed' })
+    )
+  })
+
+  it('does not send updates that originate from DevTools', () => {
+    const store = createTestStore()
+
+    mock.__mockConnection.send.mockClear()
+
+    store.setState({ count: 7 }, false, { type: 'JUMP', origin: 'devtools' })
+
+    expect(mock.__mockConnection.send).not.toHaveBeenCalled()
+  })
+
   it('uses anonymousActionType for unnamed actions', () => {
     const store = createTestStore({ anonymousActionType: 'CUSTOM_ACTION' })
 
@@ -280,6 +352,22 @@ describe('devtools middleware - time travel', () => {
     expect(mock.__mockConnection.init).toHaveBeenCalled()
   })
 
+  it('keeps actions and does not echo RESET back to devtools', () => {
+    const store = createTestStore()
+
+    store.getState().increment()
+    mock.__mockConnection.send.mockClear()
+
+    dispatchHandler({
+      type: 'DISPATCH',
+      payload: { type: 'RESET' },
+    })
+
+    expect(mock.__mockConnection.send).not.toHaveBeenCalled()
+    store.getState().increment()
+    expect(store.getState().count).toBe(1)
+  })
+
   it('handles COMMIT action', () => {
     const store = createTestStore()
 
@@ -327,6 +415,32 @@ describe('devtools middleware - time travel', () => {
     expect(store.getState().count).toBe(1)
   })
 
+  it('revives states with the serialize reviver', () => {
+    const store = createStore<{ tags: Set<string>; updatedAt: Date }>()(
+      devtools(() => ({ tags: new Set<string>(), updatedAt: new Date(0) }), {
+        serialize: taggedCodec,
+      })
+    )
+    const state = { tags: new Set(['a', 'b']), updatedAt: new Date(1_700_000_000_000) }
+
+    dispatchHandler({
+      type: 'DISPATCH',
+      state: JSON.stringify(state, taggedCodec.replacer),
+      payload: { type: 'JUMP_TO_STATE' },
+    })
+
+    expect(store.getState().tags).toEqual(new Set(['a', 'b']))
+    expect(store.getState().updatedAt).toEqual(new Date(1_700_000_000_000))
+  })
+
+  it('passes the serialize codec to the extension', () => {
+    createTestStore({ serialize: taggedCodec })
+
+    expect(mock.connect).toHaveBeenCalledWith(
+      expect.objectContaining({ serialize: taggedCodec })
+    )
+  })
+
   it('handles JUMP_TO_ACTION action', () => {
     const store = createTestStore()
 
@@ -759,6 +873,29 @@ describe('devtools API', () => {
     // Should have called unsubscribe on the connection
     expect(mock.__mockConnection.unsubscribe).toHaveBeenCalled()
   })
+
+  it('disconnects when the store is destroyed', () => {
+    const store = createStore<{ count: number }>()(
+      devtools(() => ({ count: 0 }))
+    )
+
+    store.destroy()
+
+    expect(mock.__mockConnection.unsubscribe).toHaveBeenCalled()
+  })
+
+  it('stops sending state changes after disconnect', () => {
+    const store = createStore<{ count: number }>()(
+      devtools(() => ({ count: 0 }))
+    ) as StoreApi<{ count: number }> & { devtools: { disconnect: () => void } }
+
+    store.devtools.disconnect()
+    mock.__mockConnection.send.mockClear()
+
+    store.setState({ count: 1 })
+
+    expect(mock.__mockConnection.send).not.toHaveBeenCalled()
+  })
 })
 
 // ============================================================
@@ -3,7 +3,7 @@
  * Coverage: mutable-style updates, draft behavior, return values, replace mode
  */
 
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { createStore } from '../../src/vanilla'
 import { immer } from '../../src/middleware/immer'
 
@@ -303,6 +303,35 @@ describe('immer middleware', () => {
 
       expect(capturedApi.getState().count).toBe(42)
     })
+
+    it('forwards the action for draft updaters', () => {
+      const store = createStore<{ count: number }>()(immer(() => ({ count: 0 })))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.setState((draft) => {
+        draft.count = 1
+      }, false, 'increment')
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'increment',
+        origin: 'user',
+      })
+    })
+
+    it('forwards the action for plain partials', () => {
+      const store = createStore<{ count: number }>()(immer(() => ({ count: 0 })))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.setState({ count: 2 }, false, { type: 'set', payload: 2 })
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'set',
+        payload: 2,
+        origin: 'user',
+      })
+    })
   })
 })
 
@@ -0,0 +1,432 @@
+/**
+ * Tests for logger middleware.
+ * Coverage: entries, diff, filter, redact, console sink, ring buffer, custom sinks, production
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import {
+  logger,
+  consoleSink,
+  createRingBufferSink,
+  diffState,
+} from '../../src/middleware/logger'
+import type { LogEntry, LoggerOptions } from '../../src/middleware/logger'
+import { persist } from '../../src/middleware/persist'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface CartState {
+  items: string[]
+  token: string
+  count: number
+  add: (item: string) => void
+  setToken: (token: string) => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+const createCartStore = (options: LoggerOptions<CartState> = {}) => {
+  const entries: LogEntry[] = []
+  const store = createStore<CartState>()(
+    logger(
+      (set) => ({
+        items: [],
+        token: '',
+        get count() {
+          return this.items.length
+        },
+        add: (item) => set((s) => ({ items: [...s.items, item] }), false, 'cart/add'),
+        setToken: (token) => set({ token }, false, { type: 'auth/setToken', payload: token }),
+      }),
+      { sink: (entry) => entries.push(entry), ...options }
+    )
+  )
+  return { store, entries }
+}
+
+const createConsole = () => ({
+  log: vi.fn(),
+  group: vi.fn(),
+  groupCollapsed: vi.fn(),
+  groupEnd: vi.fn(),
+})
+
+const entryFor = (action: string): LogEntry => ({
+  store: 'test',
+  action,
+  payload: undefined,
+  origin: 'user',
+  timestamp: 0,
+  duration: 0,
+  previousState: {},
+  state: {},
+  diff: [],
+})
+
+// ============================================================
+// logger MIDDLEWARE TESTS
+// ============================================================
+
+describe('logger middleware', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe('entries', () => {
+    it('logs the action, payload and states', () => {
+      const { store, entries } = createCartStore({ name: 'cart' })
+
+      store.getState().setToken('abc')
+
+      expect(entries).toHaveLength(1)
+      expect(entries[0]).toMatchObject({
+        store: 'cart',
+        action: 'auth/setToken',
+        payload: 'abc',
+        origin: 'user',
+        previousState: { items: [], token: '' },
+        state: { items: [], token: 'abc' },
+      })
+      expect(entries[0]?.duration).toBeGreaterThanOrEqual(0)
+      expect(typeof entries[0]?.timestamp).toBe('number')
+    })
+
+    it('leaves actions and getters out of the logged states', () => {
+      const { store, entries } = createCartStore()
+
+      store.getState().add('a')
+
+      expect(Object.keys(entries[0]?.state as object)).toEqual(['items', 'token'])
+    })
+
+    it('names anonymous updates', () => {
+      const { store, entries } = createCartStore({ anonymousActionType: 'setState' })
+
+      store.setState({ token: 'x' })
+
+      expect(entries[0]).toMatchObject({ action: 'setState', origin: undefined })
+    })
+
+    it('logs external setState calls and reset', () => {
+      const { store, entries } = createCartStore()
+
+      store.setState({ token: 'x' }, false, 'login')
+      store.reset()
+
+      expect(entries.map((e) => [e.action, e.origin])).toEqual([
+        ['login', 'user'],
+        ['reset', 'reset'],
+      ])
+    })
+
+    it('skips updates that do not change the state', () => {
+      const { store, entries } = createCartStore()
+
+      store.setState((s) => s)
+
+      expect(entries).toHaveLength(0)
+    })
+
+    it('includes the time spent in listeners', () => {
+      const { store, entries } = createCartStore()
+      const spy = vi.spyOn(performance, 'now')
+      spy.mockReturnValueOnce(10).mockReturnValueOnce(17.5)
+
+      store.getState().add('a')
+      spy.mockRestore()
+
+      expect(entries[0]?.duration).toBe(7.5)
+    })
+  })
+
+  describe('diff', () => {
+    it('lists the changed top-level keys', () => {
+      const { store, entries } = createCartStore()
+
+      store.getState().add('a')
+
+      expect(entries[0]?.diff).toEqual([
+        { key: 'items', kind: 'changed', previous: [], next: ['a'] },
+      ])
+    })
+
+    it('reports added and removed keys', () => {
+      expect(diffState({ a: 1, b: 2 }, { a: 1, c: 3 })).toEqual([
+        { key: 'b', kind: 'removed', previous: 2, next: undefined },
+        { key: 'c', kind: 'added', previous: undefined, next: 3 },
+      ])
+    })
+
+    it('compares values with Object.is', () => {
+      expect(diffState({ n: NaN, z: 0 }, { n: NaN, z: -0 })).toEqual([
+        { key: 'z', kind: 'changed', previous: 0, next: -0 },
+      ])
+    })
+
+    it('reports non-object states as a whole', () => {
+      expect(diffState(1, 2)).toEqual([{ key: '', kind: 'changed', previous: 1, next: 2 }])
+      expect(diffState('a', 'a')).toEqual([])
+    })
+  })
+
+  describe('filter', () => {
+    it('logs only matching actions', () => {
+      const { store, entries } = createCartStore({
+        filter: (action) => action?.type.startsWith('cart/') ?? false,
+      })
+
+      store.getState().add('a')
+      store.getState().setToken('t')
+      store.setState({ token: 'u' })
+
+      expect(entries.map((e) => e.action)).toEqual(['cart/add'])
+    })
+
+    it('receives the next and previous state', () => {
+      const filter = vi.fn(() => true)
+      const { store } = createCartStore({ filter })
+
+      store.getState().add('a')
+
+      expect(filter).toHaveBeenCalledWith(
+        { type: 'cart/add', origin: 'user' },
+        expect.objectContaining({ items: ['a'] }),
+        expect.objectContaining({ items: [] })
+      )
+    })
+  })
+
+  describe('redact', () => {
+    it('transforms states before logging and diffing', () => {
+      const { store, entries } = createCartStore({
+        redact: (state) => ({ ...state, token: state.token ? '***' : '' }),
+      })
+
+      store.getState().setToken('secret')
+      store.getState().setToken('other')
+
+      expect(entries[0]?.state).toEqual({ items: [], token: '***' })
+      expect(entries[0]?.diff).toEqual([
+        { key: 'token', kind: 'changed', previous: '', next: '***' },
+      ])
+      // The redacted values are equal, so the diff is empty
+      expect(entries[1]?.diff).toEqual([])
+      const states = entries.map((e) => [e.previousState, e.state])
+      expect(JSON.stringify(states)).not.toContain('secret')
+    })
+  })
+
+  describe('console sink', () => {
+    it('writes a collapsed group per entry', () => {
+      const output = createConsole()
+      const { store } = createCartStore({ name: 'cart', sink: consoleSink({ console: output }) })
+
+      store.getState().add('a')
+
+      expect(output.groupCollapsed).toHaveBeenCalledTimes(1)
+      expect(output.groupCollapsed.mock.calls[0]?.[0]).toMatch(
+        /^cart cart\/add @ \d{2}:\d{2}:\d{2}\.\d{3} \(\d+\.\d{2} ms\)$/
+      )
+      expect(output.log).toHaveBeenCalledWith('prev state', { items: [], token: '' })
+      expect(output.log).toHaveBeenCalledWith('action', {
+        type: 'cart/add',
+        payload: undefined,
+        origin: 'user',
+      })
+      expect(output.log).toHaveBeenCalledWith('next state', { items: ['a'], token: '' })
+      expect(output.log).toHaveBeenCalledWith('changed items', [], '→', ['a'])
+      expect(output.groupEnd).toHaveBeenCalledTimes(1)
+      expect(output.group).not.toHaveBeenCalled()
+    })
+
+    it('writes expanded groups when not collapsed', () => {
+      const output = createConsole()
+      consoleSink({ console: output, collapsed: false })(entryFor('a'))
+
+      expect(output.group).toHaveBeenCalledTimes(1)
+      expect(output.groupCollapsed).not.toHaveBeenCalled()
+    })
+
+    it('falls back to plain lines without console groups', () => {
+      const output = { log: vi.fn() }
+      consoleSink({ console: output })(entryFor('a'))
+
+      expect(output.log.mock.calls[0]?.[0]).toMatch(/^test a @ /)
+      expect(output.log).toHaveBeenCalledWith('next state', {})
+    })
+
+    it('is the default sink', () => {
+      const spy = vi.spyOn(console, 'groupCollapsed').mockImplementation(() => {})
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+      const end = vi.spyOn(console, 'groupEnd').mockImplementation(() => {})
+      const store = createStore<{ n: number }>()(logger(() => ({ n: 0 })))
+
+      store.setState({ n: 1 })
+
+      expect(spy).toHaveBeenCalledTimes(1)
+      spy.mockRestore()
+      log.mockRestore()
+      end.mockRestore()
+    })
+  })
+
+  describe('ring buffer sink', () => {
+    it('keeps entries in order', () => {
+      const sink = createRingBufferSink(5)
+      const { store } = createCartStore({ sink })
+
+      store.getState().add('a')
+      store.getState().add('b')
+
+      expect(sink.entries().map((e) => e.state)).toEqual([
+        { items: ['a'], token: '' },
+        { items: ['a', 'b'], token: '' },
+      ])
+    })
+
+    it('drops the oldest entries when full', () => {
+      const sink = createRingBufferSink(3)
+
+      for (const action of ['a', 'b', 'c', 'd', 'e']) sink(entryFor(action))
+
+      expect(sink.entries().map((e) => e.action)).toEqual(['c', 'd', 'e'])
+    })
+
+    it('clears its entries', () => {
+      const sink = createRingBufferSink(2)
+      sink(entryFor('a'))
+      sink(entryFor('b'))
+      sink(entryFor('c'))
+
+      sink.clear()
+      sink(entryFor('d'))
+
+      expect(sink.entries().map((e) => e.action)).toEqual(['d'])
+    })
+
+    it('keeps nothing with zero capacity', () => {
+      const sink = createRingBufferSink(0)
+      sink(entryFor('a'))
+
+      expect(sink.entries()).toEqual([])
+    })
+  })
+
+  describe('custom sinks', () => {
+    it('writes each entry to every sink', () => {
+      const first = vi.fn()
+      const second = vi.fn()
+      const { store } = createCartStore({ sink: [first, second] })
+
+      store.getState().add('a')
+
+      expect(first).toHaveBeenCalledTimes(1)
+      expect(second).toHaveBeenCalledWith(first.mock.calls[0]?.[0])
+    })
+
+    it("passes sink errors to the store's onError and keeps writing", () => {
+      const onError = vi.fn()
+      const error = new Error('analytics down')
+      const second = vi.fn()
+      const store = createStore<{ items: string[] }>()(
+        logger(() => ({ items: [] }), {
+          sink: [
+            () => {
+              throw error
+            },
+            second,
+          ],
+        }),
+        { onError }
+      )
+
+      expect(() => store.setState({ items: ['a'] }, false, 'cart/add')).not.toThrow()
+
+      expect(store.getState().items).toEqual(['a'])
+      expect(second).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(error, {
+        state: { items: ['a'] },
+        previousState: { items: [] },
+        action: { type: 'cart/add', origin: 'user' },
+      })
+    })
+  })
+
+  describe('production', () => {
+    it('is disabled in production by default', () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      const sink = vi.fn()
+      const api = { setState: vi.fn() }
+      const initializer = vi.fn(() => ({ n: 0 }))
+      const set = vi.fn()
+
+      // A disabled logger passes its arguments through untouched
+      const creator = logger(initializer, { sink }) as unknown as (
+        ...args: unknown[]
+      ) => unknown
+      creator(set, vi.fn(), api)
+
+      expect(initializer).toHaveBeenCalledWith(set, expect.any(Function), api)
+      expect(vi.isMockFunction(api.setState)).toBe(true)
+    })
+
+    it('does not log in production', () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      const { store, entries } = createCartStore()
+
+      store.getState().add('a')
+
+      expect(entries).toHaveLength(0)
+    })
+
+    it('can be enabled explicitly', () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      const { store, entries } = createCartStore({ enabled: true })
+
+      store.getState().add('a')
+
+      expect(entries).toHaveLength(1)
+    })
+
+    it('can be disabled in development', () => {
+      const { store, entries } = createCartStore({ enabled: false })
+
+      store.getState().add('a')
+
+      expect(entries).toHaveLength(0)
+    })
+  })
+
+  describe('composition', () => {
+    it('logs rehydration when placed outside persist', async () => {
+      vi.useFakeTimers()
+      const saved: StorageValue<unknown> = { state: { items: ['saved'] }, version: 0 }
+      const storage: PersistStorage<unknown> = {
+        getItem: () => saved,
+        setItem: () => {},
+        removeItem: () => {},
+      }
+      const sink = createRingBufferSink()
+
+      createStore<{ items: string[] }>()(
+        logger(persist(() => ({ items: [] as string[] }), { name: 'cart', storage }), { sink })
+      )
+      await vi.runAllTimersAsync()
+      vi.useRealTimers()
+
+      expect(sink.entries()).toEqual([
+        expect.objectContaining({
+          action: 'persist/rehydrate',
+          origin: 'rehydrate',
+          diff: [{ key: 'items', kind: 'changed', previous: [], next: ['saved'] }],
+        }),
+      ])
+    })
+  })
+})
@@ -0,0 +1,342 @@
+/**
+ * Tests for patches middleware.
+ * Coverage: patch stream, diff shapes, replay, lazy subscription, composition
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { patches, applyJsonPatch, createJsonPatch } from '../../src/middleware/patches'
+import { immer } from '../../src/middleware/immer'
+import type { JsonPatch } from '../../src/types'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface Todo {
+  id: number
+  title: string
+  done: boolean
+}
+
+interface TodoState {
+  todos: Todo[]
+  filter: 'all' | 'done'
+  meta: { owner?: string; tags: string[] }
+  readonly remaining: number
+  add: (title: string) => void
+  toggle: (id: number) => void
+  removeFirst: () => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+const createTodoStore = () =>
+  createStore<TodoState>()(
+    patches((set, get) => ({
+      todos: [],
+      filter: 'all',
+      meta: { tags: [] },
+      get remaining() {
+        return get().todos.filter((t) => !t.done).length
+      },
+      add: (title) =>
+        set(
+          (s) => ({ todos: [...s.todos, { id: s.todos.length + 1, title, done: false }] }),
+          false,
+          'todos/add'
+        ),
+      toggle: (id) =>
+        set((s) => ({
+          todos: s.todos.map((t) => (t.id === id ? { ...t, done: !t.done } : t)),
+        })),
+      removeFirst: () => set((s) => ({ todos: s.todos.slice(1) })),
+    }))
+  )
+
+// ============================================================
+// createJsonPatch
+// ============================================================
+
+describe('createJsonPatch', () => {
+  it('returns no operations for the same reference', () => {
+    const state = { a: 1 }
+    expect(createJsonPatch(state, state)).toEqual([])
+  })
+
+  it('diffs nested objects key by key', () => {
+    expect(
+      createJsonPatch(
+        { a: { b: 1, c: 2 }, d: 1 },
+        { a: { b: 2, e: 3 }, d: 1 }
+      )
+    ).toEqual([
+      { op: 'remove', path: '/a/c' },
+      { op: 'replace', path: '/a/b', value: 2 },
+      { op: 'add', path: '/a/e', value: 3 },
+    ])
+  })
+
+  it('diffs arrays by index and removes from the end', () => {
+    expect(createJsonPatch({ l: [1, 2, 3] }, { l: [1, 5] })).toEqual([
+      { op: 'replace', path: '/l/1', value: 5 },
+      { op: 'remove', path: '/l/2' },
+    ])
+    expect(createJsonPatch({ l: [1] }, { l: [1, 2, 3] })).toEqual([
+      { op: 'add', path: '/l/1', value: 2 },
+      { op: 'add', path: '/l/2', value: 3 },
+    ])
+  })
+
+  it('replaces values whose type changes', () => {
+    expect(createJsonPatch({ v: [1] }, { v: { 0: 1 } })).toEqual([
+      { op: 'replace', path: '/v', value: { 0: 1 } },
+    ])
+    expect(createJsonPatch({ v: null }, { v: { a: 1 } })).toEqual([
+      { op: 'replace', path: '/v', value: { a: 1 } },
+    ])
+  })
+
+  it('escapes ~ and / in keys', () => {
+    expect(createJsonPatch({}, { 'a/b~c': 1 })).toEqual([
+      { op: 'add', path: '/a~1b~0c', value: 1 },
+    ])
+  })
+
+  it('replaces non-plain objects as a whole', () => {
+    const next = new Date(1)
+    expect(createJsonPatch({ at: new Date(0) }, { at: next })).toEqual([
+      { op: 'replace', path: '/at', value: next },
+    ])
+  })
+
+  it('skips functions and getters', () => {
+    const previous = {
+      n: 1,
+      fn: () => 1,
+      get double() {
+        return 2
+      },
+    }
+    const next = {
+      n: 2,
+      fn: () => 2,
+      get double() {
+        return 4
+      },
+    }
+    expect(createJsonPatch(previous, next)).toEqual([
+      { op: 'replace', path: '/n', value: 2 },
+    ])
+  })
+
+  it('round-trips through applyJsonPatch', () => {
+    const previous = { a: [1, { b: 2 }], c: 'x', d: { e: [true] } }
+    const next = { a: [{ b: 3 }], c: 'y', f: null, d: { e: [true, false] } }
+
+    expect(applyJsonPatch(previous, createJsonPatch(previous, next))).toEqual(next)
+  })
+})
+
+// ============================================================
+// patches middleware
+// ============================================================
+
+describe('patches middleware', () => {
+  describe('patch stream', () => {
+    it('emits the patch of each update with its action', () => {
+      const store = createTodoStore()
+      const listener = vi.fn()
+      store.patches.subscribe(listener)
+
+      store.getState().add('write docs')
+
+      expect(listener).toHaveBeenCalledWith(
+        [{ op: 'add', path: '/todos/0', value: { id: 1, title: 'write docs', done: false } }],
+        { type: 'todos/add', origin: 'user' }
+      )
+    })
+
+    it('calls the listener with one argument for anonymous updates', () => {
+      const store = createTodoStore()
+      const listener = vi.fn()
+      store.patches.subscribe(listener)
+
+      store.setState({ filter: 'done' })
+
+      expect(listener).toHaveBeenCalledWith([
+        { op: 'replace', path: '/filter', value: 'done' },
+      ])
+      expect(listener.mock.calls[0]).toHaveLength(1)
+    })
+
+    it('only includes the changed paths', () => {
+      const store = createTodoStore()
+      store.getState().add('a')
+      store.getState().add('b')
+
+      const listener = vi.fn()
+      store.patches.subscribe(listener)
+      store.getState().toggle(2)
+
+      expect(listener).toHaveBeenCalledWith([
+        { op: 'replace', path: '/todos/1/done', value: true },
+      ])
+    })
+
+    it('emits remove operations for deleted keys and items', () => {
+      const store = createTodoStore()
+      store.setState({ meta: { owner: 'ann', tags: [] } })
+      store.getState().add('a')
+
+      const listener = vi.fn()
+      store.patches.subscribe(listener)
+      store.setState({ meta: { tags: [] } })
+      store.getState().removeFirst()
+
+      expect(listener.mock.calls.map(([ops]) => ops as JsonPatch)).toEqual([
+        [{ op: 'remove', path: '/meta/owner' }],
+        [{ op: 'remove', path: '/todos/0' }],
+      ])
+    })
+
+    it('skips updates that change no data', () => {
+      const store = createTodoStore()
+      const listener = vi.fn()
+      store.patches.subscribe(listener)
+
+      store.setState({ add: () => {} })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('stops emitting after unsubscribe', () => {
+      const store = createTodoStore()
+      const listener = vi.fn()
+      const unsubscribe = store.patches.subscribe(listener)
+
+      unsubscribe()
+      store.getState().add('a')
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('diffs once per update for all listeners', () => {
+      const store = createTodoStore()
+      const first = vi.fn()
+      const second = vi.fn()
+      store.patches.subscribe(first)
+      store.patches.subscribe(second)
+
+      store.getState().add('a')
+
+      expect(first.mock.calls[0]?.[0]).toBe(second.mock.calls[0]?.[0])
+    })
+
+    it('subscribes to the store only while it has listeners', () => {
+      const store = createTodoStore()
+      const subscribe = vi.spyOn(store, 'subscribe')
+
+      const unsubscribeA = store.patches.subscribe(() => {})
+      const unsubscribeB = store.patches.subscribe(() => {})
+      expect(subscribe).toHaveBeenCalledTimes(1)
+
+      unsubscribeA()
+      unsubscribeB()
+      store.patches.subscribe(() => {})
+      expect(subscribe).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('replay', () => {
+    it('reproduces the final state from getInitialState', () => {
+      const store = createTodoStore()
+      const log: JsonPatch[] = []
+      store.patches.subscribe((ops) => log.push(ops))
+
+      store.getState().add('a')
+      store.getState().add('b')
+      store.getState().add('c')
+      store.getState().toggle(2)
+      store.getState().removeFirst()
+      store.setState({ filter: 'done', meta: { owner: 'ann', tags: ['x', 'y'] } })
+      store.setState((s) => ({ meta: { ...s.meta, tags: ['y'] } }))
+      store.reset(['filter'])
+
+      const { todos, filter, meta } = store.getState()
+      const replayed = log.reduce(applyJsonPatch, store.getInitialState())
+
+      expect(replayed).toEqual(expect.objectContaining({ todos, filter, meta }))
+    })
+
+    it('starts the log from the state at subscription time', () => {
+      const store = createTodoStore()
+      store.getState().add('before')
+      const base = store.getState()
+      const log: JsonPatch[] = []
+      store.patches.subscribe((ops) => log.push(ops))
+
+      store.getState().add('after')
+
+      expect(log).toEqual([
+        [{ op: 'add', path: '/todos/1', value: expect.objectContaining({ title: 'after' }) }],
+      ])
+      expect(log.reduce(applyJsonPatch, base)).toEqual(
+        expect.objectContaining({ todos: store.getState().todos })
+      )
+    })
+
+    it('replays the stream onto another store with applyPatches', () => {
+      const source = createTodoStore()
+      const replica = createTodoStore()
+      source.patches.subscribe((ops, action) => replica.applyPatches(ops, action))
+
+      source.getState().add('a')
+      source.getState().add('b')
+      source.getState().toggle(1)
+      source.getState().removeFirst()
+
+      expect(replica.getState().todos).toEqual(source.getState().todos)
+      expect(replica.getState().remaining).toBe(1)
+    })
+
+    it('emits patches for applyPatches updates', () => {
+      const store = createTodoStore()
+      const listener = vi.fn()
+      store.patches.subscribe(listener)
+      const operations: JsonPatch = [{ op: 'replace', path: '/filter', value: 'done' }]
+
+      store.applyPatches(operations)
+
+      expect(listener).toHaveBeenCalledWith(operations, {
+        type: 'applyPatches',
+        payload: operations,
+        origin: 'patch',
+      })
+    })
+  })
+
+  describe('composition', () => {
+    it('works with immer drafts', () => {
+      const store = createStore<{ list: string[]; push: (item: string) => void }>()(
+        patches(
+          immer((set) => ({
+            list: [],
+            push: (item) =>
+              set((draft) => {
+                draft.list.push(item)
+              }),
+          }))
+        )
+      )
+      const listener = vi.fn()
+      store.patches.subscribe(listener)
+
+      store.getState().push('a')
+
+      expect(listener).toHaveBeenCalledWith([{ op: 'add', path: '/list/0', value: 'a' }])
+    })
+  })
+})
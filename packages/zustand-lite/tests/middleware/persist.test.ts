@@ -5,7 +5,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { createStore } from '../../src/vanilla'
-import { persist, createJSONStorage } from '../../src/middleware/persist'
+import { persist, createJSONStorage, taggedCodec } from '../../src/middleware/persist'
 import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
 
 // ============================================================
@@ -257,6 +257,35 @@ describe('createJSONStorage', () => {
       )
     })
   })
+
+  describe('replacer and reviver', () => {
+    it('passes them to JSON.stringify and JSON.parse', () => {
+      const storage = createJSONStorage<StorageValue<{ at: Date }>>(() => localStorage, {
+        replacer: (_key, value) => (typeof value === 'string' ? `s:${value}` : value),
+        reviver: (_key, value) =>
+          typeof value === 'string' && value.startsWith('s:') ? new Date(value.slice(2)) : value,
+      })
+
+      storage.setItem('dates', { state: { at: new Date('2024-01-01T00:00:00.000Z') } })
+
+      expect(localStorage.getItem('dates')).toBe('{"state":{"at":"s:2024-01-01T00:00:00.000Z"}}')
+      expect(storage.getItem('dates')).toEqual({ state: { at: new Date('2024-01-01T00:00:00.000Z') } })
+    })
+
+    it('round-trips rich values with taggedCodec', () => {
+      const storage = createJSONStorage<StorageValue<unknown>>(() => localStorage, taggedCodec)
+      const state = {
+        cart: new Map([['apple', { quantity: 2, addedAt: new Date(1_700_000_000_000) }]]),
+        tags: new Set(['fresh']),
+        total: 10n,
+        discount: undefined,
+      }
+
+      storage.setItem('cart', { state, version: 0 })
+
+      expect(storage.getItem('cart')).toEqual({ state, version: 0 })
+    })
+  })
 })
 
 // ============================================================
@@ -406,6 +435,74 @@ describe('persist middleware', () => {
       expect(storage.data.get('test')?.version).toBe(5)
     })
   })
+
+  describe('reset', () => {
+    it('persists the reset state by default', async () => {
+      const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+      const store = createTestStore({ name: 'test', storage })
+      await vi.runAllTimersAsync()
+
+      store.getState().increment()
+      await vi.advanceTimersByTimeAsync(100)
+      store.reset()
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(storage.data.get('test')?.state).toMatchObject({ count: 0 })
+    })
+
+    it('resets to defaults, not rehydrated values', async () => {
+      const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+      storage.data.set('test', { state: { count: 42 }, version: 0 })
+      const store = createTestStore({ name: 'test', storage })
+      await vi.runAllTimersAsync()
+      expect(store.getState().count).toBe(42)
+
+      store.reset()
+
+      expect(store.getState().count).toBe(0)
+      expect(typeof store.getState().increment).toBe('function')
+    })
+
+    it('clears storage on full reset with clearStorageOnReset', async () => {
+      const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+      const store = createTestStore({
+        name: 'test',
+        storage,
+        clearStorageOnReset: true,
+      })
+      await vi.runAllTimersAsync()
+
+      store.getState().increment()
+      await vi.advanceTimersByTimeAsync(100)
+      store.getState().increment()
+      store.reset()
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(storage.removeItem).toHaveBeenCalledWith('test')
+      expect(storage.data.has('test')).toBe(false)
+    })
+
+    it('persists partial resets with clearStorageOnReset', async () => {
+      const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+      const store = createTestStore({
+        name: 'test',
+        storage,
+        clearStorageOnReset: true,
+      })
+      await vi.runAllTimersAsync()
+
+      store.getState().increment()
+      store.getState().setName('changed')
+      store.reset(['count'])
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(storage.removeItem).not.toHaveBeenCalled()
+      expect(storage.data.get('test')?.state).toMatchObject({
+        count: 0,
+        name: 'changed',
+      })
+    })
+  })
 })
 
 // ============================================================
@@ -472,6 +569,50 @@ describe('persist API', () => {
       await store.persist.rehydrate()
       expect(store.getState().count).toBe(2)
     })
+
+    it('marks rehydrated state with the rehydrate origin', async () => {
+      const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+      storage.data.set('test', { state: { count: 5 }, version: 0 })
+
+      const store = createTestStore({ name: 'test', storage, skipHydration: true })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      await store.persist.rehydrate()
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'persist/rehydrate',
+        origin: 'rehydrate',
+      })
+    })
+
+    it('does not write rehydrated state back to storage', async () => {
+      const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+      storage.data.set('test', { state: { count: 1 }, version: 0 })
+
+      const store = createTestStore({ name: 'test', storage, skipHydration: true })
+      await store.persist.rehydrate()
+
+      storage.data.set('test', { state: { count: 2 }, version: 0 })
+      vi.mocked(storage.setItem).mockClear()
+
+      await store.persist.rehydrate()
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(store.getState().count).toBe(2)
+      expect(storage.setItem).not.toHaveBeenCalled()
+    })
+
+    it('writes updates with other origins', async () => {
+      const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+      const store = createTestStore({ name: 'test', storage })
+      await vi.runAllTimersAsync()
+
+      store.setState({ count: 9 }, false, { type: 'jump', origin: 'devtools' })
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(storage.data.get('test')?.state).toMatchObject({ count: 9 })
+    })
   })
 
   describe('onHydrate', () => {
@@ -1016,6 +1157,224 @@ describe('async storage', () => {
   })
 })
 
+// ============================================================
+// STORAGE SUBSCRIPTION TESTS
+// ============================================================
+
+describe('storage subscription', () => {
+  const createWatchedStorage = () => {
+    const storage = createMockStorage<StorageValue<Partial<TestState>>>()
+    const callbacks = new Set<() => void>()
+    const subscribe = vi.fn((_name: string, callback: () => void) => {
+      callbacks.add(callback)
+      return () => callbacks.delete(callback)
+    })
+    const notify = () => callbacks.forEach((callback) => callback())
+    return { storage: { ...storage, subscribe }, data: storage.data, subscribe, callbacks, notify }
+  }
+
+  it('rehydrates when the storage reports a change', async () => {
+    const { storage, data, subscribe, notify } = createWatchedStorage()
+    const store = createTestStore({ name: 'test', storage })
+    await store.persist.rehydrate()
+
+    data.set('test', { state: { count: 9 }, version: 0 })
+    notify()
+    await Promise.resolve()
+
+    expect(subscribe).toHaveBeenCalledWith('test', expect.any(Function))
+    expect(store.getState().count).toBe(9)
+  })
+
+  it('unsubscribes from the storage on destroy', () => {
+    const { storage, callbacks } = createWatchedStorage()
+    const store = createTestStore({ name: 'test', storage, skipHydration: true })
+
+    store.destroy()
+
+    expect(callbacks.size).toBe(0)
+  })
+})
+
+// ============================================================
+// TRANSFORM TESTS
+// ============================================================
+
+describe('transforms', () => {
+  // Async transforms recording the order they run in
+  const createTransforms = (calls: string[]) => [
+    {
+      encode: async (value: unknown) => {
+        calls.push('encode:json')
+        return JSON.stringify(value)
+      },
+      decode: async (value: unknown) => {
+        calls.push('decode:json')
+        return JSON.parse(value as string) as unknown
+      },
+    },
+    {
+      encode: async (value: unknown) => {
+        calls.push('encode:reverse')
+        return [...(value as string)].reverse().join('')
+      },
+      decode: async (value: unknown) => {
+        calls.push('decode:reverse')
+        return [...(value as string)].reverse().join('')
+      },
+    },
+  ]
+
+  it('encodes the persisted state in order, after partialize', async () => {
+    const calls: string[] = []
+    const storage = createMockStorage<StorageValue<unknown>>()
+    const store = createTestStore({
+      name: 'test',
+      storage,
+      version: 2,
+      skipHydration: true,
+      partialize: (state: TestState) => ({ count: state.count }),
+      transforms: createTransforms(calls),
+    })
+    await store.persist.rehydrate()
+
+    store.getState().increment()
+    await store.persist.flush()
+
+    expect(calls).toEqual(['encode:json', 'encode:reverse'])
+    expect(storage.data.get('test')).toEqual({ state: '}1:"tnuoc"{', version: 2 })
+  })
+
+  it('decodes the stored state in reverse order, before migrate', async () => {
+    const calls: string[] = []
+    const storage = createMockStorage<StorageValue<unknown>>()
+    storage.data.set('test', { state: '}1:"tnuoc"{', version: 1 })
+    const migrate = vi.fn((state: unknown) => {
+      calls.push('migrate')
+      return { count: (state as { count: number }).count + 10 }
+    })
+
+    const store = createTestStore({
+      name: 'test',
+      storage,
+      version: 2,
+      skipHydration: true,
+      migrate,
+      transforms: createTransforms(calls),
+    })
+    await store.persist.rehydrate()
+
+    expect(calls).toEqual(['decode:reverse', 'decode:json', 'migrate'])
+    expect(migrate).toHaveBeenCalledWith({ count: 1 }, 1)
+    expect(store.getState().count).toBe(11)
+  })
+
+  it('reports a failing decode to onRehydrateStorage', async () => {
+    const storage = createMockStorage<StorageValue<unknown>>()
+    storage.data.set('test', { state: 'sealed', version: 0 })
+    const error = new Error('bad key')
+    const onRehydrated = vi.fn()
+
+    const store = createTestStore({
+      name: 'test',
+      storage,
+      skipHydration: true,
+      transforms: [{ encode: (value) => value, decode: () => Promise.reject(error) }],
+      onRehydrateStorage: () => onRehydrated,
+    })
+    await store.persist.rehydrate()
+
+    expect(onRehydrated).toHaveBeenCalledWith(undefined, error)
+    expect(store.getState().count).toBe(0)
+  })
+
+  it('skips writes after a failing decode until a rehydrate succeeds', async () => {
+    const storage = createMockStorage<StorageValue<unknown>>()
+    storage.data.set('test', { state: 'sealed', version: 0 })
+    let canDecode = false
+    const store = createTestStore({
+      name: 'test',
+      storage,
+      debounceMs: 0,
+      skipHydration: true,
+      partialize: (state: TestState) => ({ count: state.count }),
+      transforms: [
+        {
+          encode: (value) => value,
+          decode: (value) => {
+            if (!canDecode) throw new Error('bad key')
+            return value === 'sealed' ? { count: 5 } : value
+          },
+        },
+      ],
+    })
+    await store.persist.rehydrate()
+
+    store.getState().increment()
+    await store.persist.flush()
+    expect(storage.data.get('test')?.state).toBe('sealed')
+
+    canDecode = true
+    await store.persist.rehydrate()
+    store.getState().increment()
+    await store.persist.flush()
+
+    expect(storage.data.get('test')?.state).toEqual({ count: 6 })
+  })
+
+  it('keeps writing when migrate throws after a successful decode', async () => {
+    const storage = createMockStorage<StorageValue<unknown>>()
+    storage.data.set('test', { state: { count: 1 }, version: 1 })
+    const onRehydrated = vi.fn()
+    const store = createTestStore({
+      name: 'test',
+      storage,
+      version: 2,
+      debounceMs: 0,
+      skipHydration: true,
+      partialize: (state: TestState) => ({ count: state.count }),
+      migrate: () => {
+        throw new Error('migration failed')
+      },
+      transforms: [{ encode: (value) => value, decode: (value) => value }],
+      onRehydrateStorage: () => onRehydrated,
+    })
+    await store.persist.rehydrate()
+
+    store.getState().increment()
+    await store.persist.flush()
+
+    expect(onRehydrated).toHaveBeenCalledWith(undefined, expect.any(Error))
+    expect(storage.data.get('test')).toEqual({ state: { count: 1 }, version: 2 })
+  })
+
+  it('keeps writes in order when encoding takes varying time', async () => {
+    const storage = createMockStorage<StorageValue<unknown>>()
+    const store = createTestStore({
+      name: 'test',
+      storage,
+      debounceMs: 0,
+      skipHydration: true,
+      partialize: (state: TestState) => state.count,
+      transforms: [
+        {
+          encode: (value) =>
+            new Promise((resolve) => setTimeout(() => resolve(value), value === 1 ? 30 : 0)),
+          decode: (value) => value,
+        },
+      ],
+    })
+    await store.persist.rehydrate()
+
+    store.getState().increment()
+    void store.persist.flush()
+    store.getState().increment()
+    await store.persist.flush()
+
+    expect(storage.data.get('test')?.state).toBe(2)
+  })
+})
+
 // ============================================================
 // EDGE CASES
 // ============================================================
@@ -1291,6 +1650,38 @@ describe('persist destroy', () => {
 
     expect(finishCallback).not.toHaveBeenCalled()
   })
+
+  it('cancels pending writes when the store is destroyed', async () => {
+    const storage = createMockStorage<StorageValue<{ count: number }>>()
+    const store = createStore<{ count: number }>()(
+      persist(() => ({ count: 0 }), { name: 'test', storage })
+    )
+    await vi.runAllTimersAsync()
+
+    vi.mocked(storage.setItem).mockClear()
+
+    store.setState({ count: 100 })
+    store.destroy()
+
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(storage.setItem).not.toHaveBeenCalled()
+  })
+
+  it('skips applying stored state when destroyed during rehydration', async () => {
+    const storage = createMockStorage<StorageValue<{ count: number }>>()
+    storage.data.set('test', { state: { count: 5 }, version: 0 })
+
+    const store = createStore<{ count: number }>()(
+      persist(() => ({ count: 0 }), { name: 'test', storage, skipHydration: true })
+    )
+
+    const rehydration = store.persist.rehydrate()
+    store.destroy()
+    await rehydration
+
+    expect(store.getState().count).toBe(0)
+  })
 })
 
 // ============================================================
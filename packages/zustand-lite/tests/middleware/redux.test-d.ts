@@ -0,0 +1,44 @@
+/**
+ * Type tests for redux middleware.
+ * Coverage: dispatch return types, rejected actions
+ */
+
+import { describe, it, expectTypeOf } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { redux } from '../../src/middleware/redux'
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+interface CounterState {
+  count: number
+}
+
+type CounterAction = { type: 'increment' } | { type: 'add'; amount: number }
+
+const counterReducer = (state: CounterState, action: CounterAction): CounterState =>
+  action.type === 'add' ? { count: state.count + action.amount } : { count: state.count + 1 }
+
+// ============================================================
+// redux TYPE TESTS
+// ============================================================
+
+describe('redux types', () => {
+  it('returns the dispatched action with its own type', () => {
+    const store = createStore(redux(counterReducer, { count: 0 }))
+    const add = { type: 'add', amount: 2 } as const
+
+    expectTypeOf(store.dispatch(add)).toEqualTypeOf<typeof add>()
+    expectTypeOf(store.getState().dispatch(add)).toEqualTypeOf<typeof add>()
+  })
+
+  it('rejects values that are not actions of the reducer', () => {
+    const store = createStore(redux(counterReducer, { count: 0 }))
+
+    // @ts-expect-error unknown action type
+    store.dispatch({ type: 'reset' })
+    // @ts-expect-error thunks need a cast
+    store.dispatch(() => {})
+  })
+})
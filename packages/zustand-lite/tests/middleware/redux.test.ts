@@ -0,0 +1,294 @@
+/**
+ * Tests for redux middleware.
+ * Coverage: dispatch, reducer, listeners, devtools, enhancers, thunks, errors, useStore
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { createStore } from '../../src/vanilla'
+import { create, useStore } from '../../src/react'
+import { redux } from '../../src/middleware/redux'
+import type { ReduxEnhancer, ReduxState } from '../../src/middleware/redux'
+import { devtools } from '../../src/middleware/devtools'
+import { persist } from '../../src/middleware/persist'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+import { enableDevToolsMock, disableDevToolsMock } from '../setup'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface CounterState {
+  count: number
+  label: string
+}
+
+type CounterAction =
+  | { type: 'increment' }
+  | { type: 'add'; amount: number }
+  | { type: 'rename'; label: string }
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+const counterReducer = (state: CounterState, action: CounterAction): CounterState => {
+  switch (action.type) {
+    case 'increment':
+      return { ...state, count: state.count + 1 }
+    case 'add':
+      return { ...state, count: state.count + action.amount }
+    case 'rename':
+      return { ...state, label: action.label }
+    default:
+      return state
+  }
+}
+
+const initialState: CounterState = { count: 0, label: 'counter' }
+
+// ============================================================
+// redux MIDDLEWARE TESTS
+// ============================================================
+
+describe('redux middleware', () => {
+  describe('dispatch', () => {
+    it('creates the state from the initial state', () => {
+      const store = createStore(redux(counterReducer, initialState))
+
+      expect(store.getState()).toMatchObject({ count: 0, label: 'counter' })
+    })
+
+    it('runs actions through the reducer', () => {
+      const store = createStore(redux(counterReducer, initialState))
+
+      store.dispatch({ type: 'increment' })
+      store.dispatch({ type: 'add', amount: 5 })
+
+      expect(store.getState().count).toBe(6)
+    })
+
+    it('exposes dispatch in the state', () => {
+      const store = createStore(redux(counterReducer, initialState))
+
+      store.getState().dispatch({ type: 'rename', label: 'clicks' })
+
+      expect(store.getState().label).toBe('clicks')
+      expect(store.getState().dispatch).toBe(store.dispatch)
+    })
+
+    it('returns the dispatched action', () => {
+      const store = createStore(redux(counterReducer, initialState))
+      const action = { type: 'increment' } as const
+
+      expect(store.dispatch(action)).toBe(action)
+    })
+
+    it('keeps dispatch when the reducer returns a new object', () => {
+      const store = createStore(
+        redux((_state: CounterState, _action: { type: 'reset' }) => ({ ...initialState }), {
+          ...initialState,
+          count: 3,
+        })
+      )
+
+      store.dispatch({ type: 'reset' })
+
+      expect(typeof store.getState().dispatch).toBe('function')
+    })
+
+    it('does not notify when the reducer returns the same state', () => {
+      const store = createStore(redux(counterReducer, initialState))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.dispatch({ type: 'unknown' } as unknown as CounterAction)
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('rejects values that are not actions', () => {
+      const store = createStore(redux(counterReducer, initialState))
+
+      expect(() => store.dispatch((() => {}) as unknown as CounterAction)).toThrow(
+        '[zustand-lite] redux: actions must be objects with a string "type"'
+      )
+    })
+  })
+
+  describe('listeners', () => {
+    it('labels updates with the action type and fields', () => {
+      const store = createStore(redux(counterReducer, initialState))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.dispatch({ type: 'add', amount: 2 })
+      store.dispatch({ type: 'increment' })
+
+      expect(listener.mock.calls.map((call) => call[2] as unknown)).toEqual([
+        { type: 'add', payload: { amount: 2 }, origin: 'user' },
+        { type: 'increment', origin: 'user' },
+      ])
+    })
+  })
+
+  describe('devtools', () => {
+    afterEach(() => {
+      disableDevToolsMock()
+    })
+
+    it('reports dispatched action types', () => {
+      const mock = enableDevToolsMock()
+      const store = createStore(devtools(redux(counterReducer, initialState), { name: 'counter' }))
+
+      store.dispatch({ type: 'add', amount: 3 })
+
+      expect(mock.__mockConnection.send).toHaveBeenCalledWith(
+        { type: 'add', payload: { amount: 3 } },
+        expect.objectContaining({ count: 3 })
+      )
+    })
+  })
+
+  describe('enhancers', () => {
+    it('wraps dispatch, outermost first', () => {
+      const calls: string[] = []
+      const trace =
+        (name: string): ReduxEnhancer<CounterState> =>
+        () =>
+        (next) =>
+        (action) => {
+          calls.push(`${name}:before`)
+          const result = next(action)
+          calls.push(`${name}:after`)
+          return result
+        }
+      const store = createStore(
+        redux(counterReducer, initialState, { enhancers: [trace('outer'), trace('inner')] })
+      )
+
+      store.dispatch({ type: 'increment' })
+
+      expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after'])
+    })
+
+    it('logs state before and after each action', () => {
+      const log: Array<[string, number, number]> = []
+      const logger: ReduxEnhancer<CounterState> = ({ getState }) => (next) => (action) => {
+        const before = getState().count
+        const result = next(action)
+        log.push([(action as CounterAction).type, before, getState().count])
+        return result
+      }
+      const store = createStore(redux(counterReducer, initialState, { enhancers: [logger] }))
+
+      store.dispatch({ type: 'add', amount: 4 })
+
+      expect(log).toEqual([['add', 0, 4]])
+    })
+
+    it('supports thunks', async () => {
+      type Thunk = (
+        dispatch: (action: unknown) => unknown,
+        getState: () => CounterState
+      ) => unknown
+      const thunk: ReduxEnhancer<CounterState> = ({ dispatch, getState }) => (next) => (action) =>
+        typeof action === 'function' ? (action as Thunk)(dispatch, getState) : next(action)
+      const store = createStore(redux(counterReducer, initialState, { enhancers: [thunk] }))
+
+      const addLater = (amount: number): Thunk => async (dispatch, getState) => {
+        await Promise.resolve()
+        dispatch({ type: 'add', amount })
+        return getState().count
+      }
+      const result = store.dispatch(addLater(7) as unknown as CounterAction) as unknown
+
+      await expect(result).resolves.toBe(7)
+      expect(store.getState().count).toBe(7)
+    })
+
+    it('lets enhancers dispatch through the whole chain', () => {
+      const seen: string[] = []
+      const record: ReduxEnhancer<CounterState> = () => (next) => (action) => {
+        seen.push((action as CounterAction).type)
+        return next(action)
+      }
+      const double: ReduxEnhancer<CounterState> = ({ dispatch }) => (next) => (action) => {
+        if ((action as CounterAction).type === 'increment') {
+          dispatch({ type: 'add', amount: 2 })
+          return action
+        }
+        return next(action)
+      }
+      const store = createStore(
+        redux(counterReducer, initialState, { enhancers: [record, double] })
+      )
+
+      store.dispatch({ type: 'increment' })
+
+      expect(seen).toEqual(['increment', 'add'])
+      expect(store.getState().count).toBe(2)
+    })
+
+    it('throws when an enhancer dispatches during setup', () => {
+      const eager: ReduxEnhancer<CounterState> = ({ dispatch }) => {
+        dispatch({ type: 'increment' })
+        return (next) => next
+      }
+
+      expect(() =>
+        createStore(redux(counterReducer, initialState, { enhancers: [eager] }))
+      ).toThrow('dispatching while the enhancers are being set up is not allowed')
+    })
+  })
+
+  describe('composition', () => {
+    it('persists and rehydrates reducer state', async () => {
+      vi.useFakeTimers()
+      const saved = new Map<string, StorageValue<unknown>>([
+        ['counter', { state: { count: 4 }, version: 0 }],
+      ])
+      const storage: PersistStorage<unknown> = {
+        getItem: (name) => saved.get(name) ?? null,
+        setItem: (name, value) => {
+          saved.set(name, value)
+        },
+        removeItem: (name) => {
+          saved.delete(name)
+        },
+      }
+
+      const store = createStore<ReduxState<CounterState, CounterAction>>()(
+        persist(redux(counterReducer, initialState), {
+          name: 'counter',
+          storage,
+          partialize: (state) => ({ count: state.count }),
+        })
+      )
+      await vi.runAllTimersAsync()
+      expect(store.getState().count).toBe(4)
+
+      store.dispatch({ type: 'increment' })
+      await vi.runAllTimersAsync()
+      vi.useRealTimers()
+
+      expect(saved.get('counter')?.state).toEqual({ count: 5 })
+    })
+  })
+
+  describe('useStore', () => {
+    it('renders reducer state and dispatches from components', () => {
+      const useCounter = create(redux(counterReducer, initialState))
+      const { result } = renderHook(() => ({
+        count: useStore(useCounter, (s) => s.count),
+        dispatch: useStore(useCounter, (s) => s.dispatch),
+      }))
+
+      act(() => {
+        result.current.dispatch({ type: 'increment' })
+      })
+
+      expect(result.current.count).toBe(1)
+    })
+  })
+})
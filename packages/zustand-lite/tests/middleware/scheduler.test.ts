@@ -0,0 +1,466 @@
+/**
+ * Tests for scheduler middleware.
+ * Coverage: sync, microtask, animationFrame, throttle, custom schedules, flush, errors, useStore
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { createStore } from '../../src/vanilla'
+import { create, useStore } from '../../src/react'
+import { scheduler, throttle } from '../../src/middleware/scheduler'
+import type { Schedule, SchedulerOptions } from '../../src/middleware/scheduler'
+import { subscribeWithSelector } from '../../src/middleware/subscribeWithSelector'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface PointerState {
+  x: number
+  y: number
+  move: (x: number, y: number) => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+const createPointerStore = (options?: SchedulerOptions) =>
+  createStore<PointerState>()(
+    scheduler(
+      (set) => ({
+        x: 0,
+        y: 0,
+        move: (x, y) => set({ x, y }, false, 'pointer/move'),
+      }),
+      options
+    )
+  )
+
+/**
+ * requestAnimationFrame stand-in: callbacks run when `nextFrame` is called.
+ */
+const frames = new Map<number, FrameRequestCallback>()
+let lastFrameId = 0
+
+const nextFrame = (): void => {
+  const callbacks = Array.from(frames.values())
+  frames.clear()
+  for (const callback of callbacks) callback(performance.now())
+}
+
+const flushMicrotasks = () => Promise.resolve()
+
+// ============================================================
+// scheduler MIDDLEWARE TESTS
+// ============================================================
+
+describe('scheduler middleware', () => {
+  beforeEach(() => {
+    frames.clear()
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      frames.set(++lastFrameId, callback)
+      return lastFrameId
+    })
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => {
+      frames.delete(id)
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  describe('sync', () => {
+    it('notifies on every update', () => {
+      const store = createPointerStore({ schedule: 'sync' })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      store.getState().move(2, 2)
+
+      expect(listener).toHaveBeenCalledTimes(2)
+      expect(store.scheduler.isPending()).toBe(false)
+    })
+  })
+
+  describe('microtask', () => {
+    it('is the default schedule', async () => {
+      const store = createPointerStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      expect(listener).not.toHaveBeenCalled()
+
+      await flushMicrotasks()
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('coalesces synchronous updates into one notification', async () => {
+      const store = createPointerStore({ schedule: 'microtask' })
+      const listener = vi.fn()
+      store.subscribe(listener)
+      const initial = store.getState()
+
+      store.getState().move(1, 1)
+      store.getState().move(2, 3)
+      await flushMicrotasks()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ x: 2, y: 3 }),
+        initial,
+        {
+          type: 'batch',
+          payload: [
+            { type: 'pointer/move', origin: 'user' },
+            { type: 'pointer/move', origin: 'user' },
+          ],
+          origin: 'user',
+        }
+      )
+    })
+
+    it('returns the latest state from getState before notifying', () => {
+      const store = createPointerStore()
+      store.subscribe(() => {})
+
+      store.getState().move(5, 6)
+
+      expect(store.getState()).toMatchObject({ x: 5, y: 6 })
+    })
+
+    it('keeps the action of a single update', async () => {
+      const store = createPointerStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      await flushMicrotasks()
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({ type: 'pointer/move', origin: 'user' })
+    })
+
+    it('keeps the two-argument call for anonymous updates', async () => {
+      const store = createPointerStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.setState({ x: 1 })
+      store.setState({ x: 2 })
+      await flushMicrotasks()
+
+      expect(listener.mock.calls[0]).toHaveLength(2)
+    })
+
+    it('skips updates that end on the starting state', async () => {
+      const store = createPointerStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+      const initial = store.getState()
+
+      store.getState().move(1, 1)
+      store.setState(initial, true)
+      await flushMicrotasks()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('schedules again after a flush', async () => {
+      const store = createPointerStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      await flushMicrotasks()
+      store.getState().move(2, 2)
+      await flushMicrotasks()
+
+      expect(listener).toHaveBeenCalledTimes(2)
+      expect(listener.mock.calls[1]?.[1]).toMatchObject({ x: 1, y: 1 })
+    })
+  })
+
+  describe('animationFrame', () => {
+    it('notifies once per frame', () => {
+      const store = createPointerStore({ schedule: 'animationFrame' })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      store.getState().move(2, 2)
+      store.getState().move(3, 3)
+      expect(frames.size).toBe(1)
+      expect(listener).not.toHaveBeenCalled()
+
+      nextFrame()
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener.mock.calls[0]?.[0]).toMatchObject({ x: 3, y: 3 })
+    })
+
+    it('falls back to a timer without requestAnimationFrame', () => {
+      vi.stubGlobal('requestAnimationFrame', undefined)
+      vi.useFakeTimers()
+      const store = createPointerStore({ schedule: 'animationFrame' })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      vi.advanceTimersByTime(15)
+      expect(listener).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(1)
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('throttle', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    it('delivers the first update immediately', () => {
+      const store = createPointerStore({ schedule: throttle(100) })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(store.scheduler.isPending()).toBe(false)
+    })
+
+    it('coalesces updates within the interval into a trailing notification', () => {
+      const store = createPointerStore({ schedule: throttle(100) })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      vi.advanceTimersByTime(30)
+      store.getState().move(2, 2)
+      store.getState().move(3, 3)
+      expect(listener).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(69)
+      expect(listener).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(1)
+      expect(listener).toHaveBeenCalledTimes(2)
+      expect(listener.mock.calls[1]?.[0]).toMatchObject({ x: 3, y: 3 })
+      expect(listener.mock.calls[1]?.[1]).toMatchObject({ x: 1, y: 1 })
+    })
+
+    it('delivers immediately again after a quiet period', () => {
+      const store = createPointerStore({ schedule: throttle(100) })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      vi.advanceTimersByTime(150)
+      store.getState().move(2, 2)
+
+      expect(listener).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('custom schedules', () => {
+    it('uses the given schedule function', () => {
+      const scheduled: Array<() => void> = []
+      const cancel = vi.fn()
+      const schedule: Schedule = (flush) => {
+        scheduled.push(flush)
+        return cancel
+      }
+      const store = createPointerStore({ schedule })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      store.getState().move(2, 2)
+      expect(scheduled).toHaveLength(1)
+
+      scheduled[0]?.()
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('flush', () => {
+    it('delivers the pending notification now', () => {
+      const store = createPointerStore({ schedule: 'animationFrame' })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      expect(store.scheduler.isPending()).toBe(true)
+
+      store.scheduler.flush()
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(store.scheduler.isPending()).toBe(false)
+
+      // The cancelled frame does not notify again
+      expect(frames.size).toBe(0)
+    })
+
+    it('does nothing without a pending notification', () => {
+      const store = createPointerStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.scheduler.flush()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('listeners', () => {
+    it("passes listener errors to the store's onError and notifies the rest", () => {
+      const onError = vi.fn()
+      const store = createStore<PointerState>()(
+        scheduler(
+          (set) => ({
+            x: 0,
+            y: 0,
+            move: (x, y) => set({ x, y }, false, 'pointer/move'),
+          }),
+          { schedule: 'animationFrame' }
+        ),
+        { onError }
+      )
+      const error = new Error('boom')
+      const throwing = () => {
+        throw error
+      }
+      const second = vi.fn()
+      store.subscribe(throwing)
+      store.subscribe(second)
+
+      store.getState().move(1, 1)
+
+      expect(() => nextFrame()).not.toThrow()
+      expect(second).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(error, {
+        state: store.getState(),
+        previousState: expect.objectContaining({ x: 0, y: 0 }),
+        action: { type: 'pointer/move', origin: 'user' },
+        listener: throwing,
+      })
+    })
+
+    it('schedules nothing without listeners', () => {
+      const store = createPointerStore({ schedule: 'animationFrame' })
+
+      store.getState().move(1, 1)
+
+      expect(store.scheduler.isPending()).toBe(false)
+      expect(frames.size).toBe(0)
+    })
+
+    it('cancels the pending notification when the last listener leaves', () => {
+      const store = createPointerStore({ schedule: 'animationFrame' })
+      const unsubscribe = store.subscribe(() => {})
+
+      store.getState().move(1, 1)
+      unsubscribe()
+
+      expect(store.scheduler.isPending()).toBe(false)
+      expect(frames.size).toBe(0)
+    })
+
+    it('cancels the pending notification on destroy', () => {
+      const store = createPointerStore({ schedule: 'animationFrame' })
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().move(1, 1)
+      store.destroy()
+      nextFrame()
+
+      expect(listener).not.toHaveBeenCalled()
+      expect(frames.size).toBe(0)
+    })
+  })
+
+  describe('composition', () => {
+    it('schedules selector subscriptions inside it', () => {
+      const store = createStore<PointerState>()(
+        scheduler(
+          subscribeWithSelector((set) => ({
+            x: 0,
+            y: 0,
+            move: (x, y) => set({ x, y }),
+          })),
+          { schedule: 'animationFrame' }
+        )
+      )
+      const listener = vi.fn()
+      store.subscribe((s) => s.x, listener)
+
+      store.getState().move(1, 0)
+      store.getState().move(2, 0)
+      nextFrame()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(2, 0)
+    })
+  })
+
+  describe('useStore', () => {
+    it('re-renders once per frame with the latest state', () => {
+      const usePointer = create<PointerState>()(
+        scheduler(
+          (set) => ({
+            x: 0,
+            y: 0,
+            move: (x, y) => set({ x, y }),
+          }),
+          { schedule: 'animationFrame' }
+        )
+      )
+      let renders = 0
+      const { result } = renderHook(() => {
+        renders++
+        return [useStore(usePointer, (s) => s.x), useStore(usePointer, (s) => s.y)]
+      })
+      const initialRenders = renders
+
+      act(() => {
+        usePointer.getState().move(1, 1)
+        usePointer.getState().move(2, 2)
+      })
+      expect(renders).toBe(initialRenders)
+
+      act(() => nextFrame())
+      expect(renders).toBe(initialRenders + 1)
+      expect(result.current).toEqual([2, 2])
+    })
+
+    it('renders the latest state when re-rendered before the flush', () => {
+      const usePointer = create<PointerState>()(
+        scheduler(
+          (set) => ({
+            x: 0,
+            y: 0,
+            move: (x, y) => set({ x, y }),
+          }),
+          { schedule: 'animationFrame' }
+        )
+      )
+      const { result, rerender } = renderHook(() => [
+        useStore(usePointer, (s) => s.x),
+        useStore(usePointer, (s) => s.y),
+      ])
+
+      act(() => usePointer.getState().move(3, 4))
+      rerender()
+
+      // Both hooks read the same snapshot, so they never disagree
+      expect(result.current).toEqual([3, 4])
+
+      act(() => nextFrame())
+      expect(result.current).toEqual([3, 4])
+    })
+  })
+})
@@ -0,0 +1,291 @@
+/**
+ * Tests for slices.
+ * Coverage: scoped set/get, action prefixing, persist, immer, devtools
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { createSlice, withSlices, persistSlices } from '../../src/middleware/slices'
+import { persist } from '../../src/middleware/persist'
+import { devtools } from '../../src/middleware/devtools'
+import { immer } from '../../src/middleware/immer'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+import { enableDevToolsMock, disableDevToolsMock } from '../setup'
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+interface CartSlice {
+  items: string[]
+  coupon: string | null
+  addItem: (item: string) => void
+  clear: () => void
+}
+
+interface UiSlice {
+  isOpen: boolean
+  toggle: () => void
+}
+
+const cartSlice = createSlice<CartSlice>(
+  (set) => ({
+    items: [],
+    coupon: null,
+    addItem: (item) =>
+      set((s) => ({ items: [...s.items, item] }), false, 'addItem'),
+    clear: () => set({ items: [] }),
+  }),
+  { partialize: (s) => ({ items: s.items }) }
+)
+
+const uiSlice = createSlice<UiSlice>(
+  (set, get) => ({
+    isOpen: false,
+    toggle: () => set({ isOpen: !get().isOpen }, false, 'toggle'),
+  }),
+  { persist: false }
+)
+
+const slices = { cart: cartSlice, ui: uiSlice }
+
+// ============================================================
+// BASIC FUNCTIONALITY
+// ============================================================
+
+describe('slices', () => {
+  describe('withSlices', () => {
+    it('mounts each slice under its key', () => {
+      const store = createStore(withSlices(slices))
+
+      expect(store.getState().cart.items).toEqual([])
+      expect(store.getState().ui.isOpen).toBe(false)
+      expect(typeof store.getState().cart.addItem).toBe('function')
+    })
+
+    it('scopes set to the slice subtree', () => {
+      const store = createStore(withSlices(slices))
+      const uiBefore = store.getState().ui
+
+      store.getState().cart.addItem('apple')
+
+      expect(store.getState().cart.items).toEqual(['apple'])
+      expect(store.getState().cart.coupon).toBeNull()
+      expect(store.getState().ui).toBe(uiBefore)
+    })
+
+    it('scopes get to the slice subtree', () => {
+      const store = createStore(withSlices(slices))
+
+      store.getState().ui.toggle()
+      expect(store.getState().ui.isOpen).toBe(true)
+
+      store.getState().ui.toggle()
+      expect(store.getState().ui.isOpen).toBe(false)
+    })
+
+    it('replaces only the slice subtree', () => {
+      const replacing = createSlice<{ a?: number; b?: number; reset: () => void }>(
+        (set) => ({
+          a: 1,
+          b: 2,
+          reset: () => set({ a: 0, reset: () => {} }, true),
+        })
+      )
+      const store = createStore(withSlices({ replacing, ui: uiSlice }))
+
+      store.getState().replacing.reset()
+
+      expect(store.getState().replacing).not.toHaveProperty('b')
+      expect(store.getState().replacing.a).toBe(0)
+      expect(store.getState().ui.isOpen).toBe(false)
+    })
+
+    it('passes the store api to slices', () => {
+      const reader = createSlice<{ readUi: () => boolean }>((_set, _get, api) => ({
+        readUi: () => (api.getState() as { ui: UiSlice }).ui.isOpen,
+      }))
+      const store = createStore(withSlices({ reader, ui: uiSlice }))
+
+      store.getState().ui.toggle()
+
+      expect(store.getState().reader.readUi()).toBe(true)
+    })
+  })
+
+  describe('actions', () => {
+    it('prefixes action names with the slice name', () => {
+      const store = createStore(withSlices(slices))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().cart.addItem('apple')
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        { type: 'cart/addItem', origin: 'user' }
+      )
+    })
+
+    it('reports unnamed updates as <slice>/anonymous', () => {
+      const store = createStore(withSlices(slices))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().cart.clear()
+
+      expect(listener.mock.calls[0]?.[2]).toMatchObject({
+        type: 'cart/anonymous',
+      })
+    })
+
+    it('keeps descriptor payload and origin', () => {
+      const tagged = createSlice<{ value: number; set: (v: number) => void }>(
+        (set) => ({
+          value: 0,
+          set: (value) =>
+            set({ value }, false, { type: 'set', payload: value, origin: 'sync' }),
+        })
+      )
+      const store = createStore(withSlices({ tagged }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().tagged.set(5)
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'tagged/set',
+        payload: 5,
+        origin: 'sync',
+      })
+    })
+  })
+
+  // ============================================================
+  // MIDDLEWARE COMPOSITION
+  // ============================================================
+
+  describe('with immer', () => {
+    it('lets slice updaters mutate their draft', () => {
+      const draftSlice = createSlice<CartSlice>((set) => ({
+        items: [],
+        coupon: null,
+        addItem: (item) =>
+          set((s) => {
+            s.items.push(item)
+          }, false, 'addItem'),
+        clear: () =>
+          set((s) => {
+            s.items = []
+          }),
+      }))
+      const store = createStore(immer(withSlices({ cart: draftSlice, ui: uiSlice })))
+      const before = store.getState().cart.items
+
+      store.getState().cart.addItem('apple')
+      store.getState().cart.addItem('pear')
+
+      expect(store.getState().cart.items).toEqual(['apple', 'pear'])
+      expect(before).toEqual([])
+    })
+
+    it('still accepts returned partials', () => {
+      const store = createStore(immer(withSlices(slices)))
+
+      store.getState().cart.addItem('apple')
+      store.getState().ui.toggle()
+
+      expect(store.getState().cart.items).toEqual(['apple'])
+      expect(store.getState().ui.isOpen).toBe(true)
+    })
+  })
+
+  describe('with persist', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const createMemoryStorage = () => {
+      const data = new Map<string, StorageValue<unknown>>()
+      const storage: PersistStorage<unknown> = {
+        getItem: (name) => data.get(name) ?? null,
+        setItem: (name, value) => {
+          data.set(name, value)
+        },
+        removeItem: (name) => {
+          data.delete(name)
+        },
+      }
+      return { data, storage }
+    }
+
+    it('applies per-slice partialize', async () => {
+      const { data, storage } = createMemoryStorage()
+      const store = createStore(
+        persist(withSlices(slices), {
+          name: 'app',
+          storage,
+          ...persistSlices(slices),
+        })
+      )
+      await vi.runAllTimersAsync()
+
+      store.getState().cart.addItem('apple')
+      store.getState().ui.toggle()
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(data.get('app')?.state).toEqual({ cart: { items: ['apple'] } })
+    })
+
+    it('merges persisted slices into their subtrees', async () => {
+      const { data, storage } = createMemoryStorage()
+      data.set('app', { state: { cart: { items: ['saved'] } }, version: 0 })
+
+      const store = createStore(
+        persist(withSlices(slices), {
+          name: 'app',
+          storage,
+          ...persistSlices(slices),
+        })
+      )
+      await vi.runAllTimersAsync()
+
+      expect(store.getState().cart.items).toEqual(['saved'])
+      expect(store.getState().cart.coupon).toBeNull()
+      expect(typeof store.getState().cart.addItem).toBe('function')
+      expect(store.getState().ui.isOpen).toBe(false)
+    })
+
+    it('ignores unknown or malformed persisted slices', () => {
+      const { merge } = persistSlices(slices)
+      const current = createStore(withSlices(slices)).getState()
+
+      expect(merge(null, current)).toBe(current)
+      expect(merge({ other: {}, cart: 'broken' }, current)).toEqual(current)
+    })
+  })
+
+  describe('with devtools', () => {
+    afterEach(() => {
+      disableDevToolsMock()
+    })
+
+    it('sends slice-prefixed action names', () => {
+      const mock = enableDevToolsMock()
+      const store = createStore(devtools(withSlices(slices)))
+
+      store.getState().cart.addItem('apple')
+      store.getState().ui.toggle()
+
+      const types = mock.__mockConnection.send.mock.calls.map(
+        ([action]: [{ type: string }]) => action.type
+      )
+      expect(types).toEqual(['cart/addItem', 'ui/toggle'])
+    })
+  })
+})
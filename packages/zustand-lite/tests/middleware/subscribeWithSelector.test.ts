@@ -145,6 +145,23 @@ describe('selector-based subscription', () => {
       expect(listener).toHaveBeenCalledWith(4, 2)
     })
 
+    it('passes the action behind the update to the listener', () => {
+      const store = createTestStore()
+      const listener = vi.fn()
+
+      store.subscribe((state) => state.count, listener)
+
+      store.setState({ count: 10 }, false, {
+        type: 'sync',
+        origin: 'rehydrate',
+      })
+
+      expect(listener).toHaveBeenCalledWith(10, 0, {
+        type: 'sync',
+        origin: 'rehydrate',
+      })
+    })
+
     it('works with object selectors (creates new reference each time)', () => {
       const store = createTestStore()
       const listener = vi.fn()
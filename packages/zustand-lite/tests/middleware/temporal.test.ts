@@ -0,0 +1,396 @@
+/**
+ * Tests for temporal middleware.
+ * Coverage: undo/redo, limit, partialize, grouping, pause/resume, origins, useStore
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { createStore } from '../../src/vanilla'
+import { create, useStore } from '../../src/react'
+import { temporal } from '../../src/middleware/temporal'
+import type { TemporalOptions } from '../../src/middleware/temporal'
+import { persist } from '../../src/middleware/persist'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface CartState {
+  items: string[]
+  open: boolean
+  add: (item: string) => void
+  remove: (item: string) => void
+  toggle: () => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+const createCartStore = <P = CartState>(options?: TemporalOptions<CartState, P>) =>
+  createStore<CartState>()(
+    temporal(
+      (set) => ({
+        items: [],
+        open: false,
+        add: (item) => set((s) => ({ items: [...s.items, item] }), false, 'cart/add'),
+        remove: (item) =>
+          set((s) => ({ items: s.items.filter((i) => i !== item) }), false, 'cart/remove'),
+        toggle: () => set((s) => ({ open: !s.open })),
+      }),
+      options
+    )
+  )
+
+// ============================================================
+// temporal MIDDLEWARE TESTS
+// ============================================================
+
+describe('temporal middleware', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('undo / redo', () => {
+    it('starts with an empty history', () => {
+      const store = createCartStore()
+
+      expect(store.temporal.getState()).toMatchObject({
+        pastStates: [],
+        futureStates: [],
+        canUndo: false,
+        canRedo: false,
+        isTracking: true,
+      })
+    })
+
+    it('undoes and redoes updates', () => {
+      const store = createCartStore()
+      store.getState().add('apple')
+      store.getState().add('pear')
+
+      store.temporal.undo()
+      expect(store.getState().items).toEqual(['apple'])
+      expect(store.temporal.getState()).toMatchObject({ canUndo: true, canRedo: true })
+
+      store.temporal.undo()
+      expect(store.getState().items).toEqual([])
+      expect(store.temporal.getState().canUndo).toBe(false)
+
+      store.temporal.redo()
+      store.temporal.redo()
+      expect(store.getState().items).toEqual(['apple', 'pear'])
+      expect(store.temporal.getState().canRedo).toBe(false)
+    })
+
+    it('moves several steps at once', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+      store.getState().add('b')
+      store.getState().add('c')
+
+      store.temporal.undo(2)
+      expect(store.getState().items).toEqual(['a'])
+      expect(store.temporal.getState().futureStates).toHaveLength(2)
+
+      store.temporal.redo(5)
+      expect(store.getState().items).toEqual(['a', 'b', 'c'])
+    })
+
+    it('ignores undo and redo without entries', () => {
+      const store = createCartStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.temporal.undo()
+      store.temporal.redo()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('drops the future on a new update', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+      store.getState().add('b')
+      store.temporal.undo()
+
+      store.getState().add('c')
+
+      expect(store.getState().items).toEqual(['a', 'c'])
+      expect(store.temporal.getState().canRedo).toBe(false)
+    })
+
+    it('keeps actions after undo', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+      store.temporal.undo()
+
+      store.getState().add('b')
+      expect(store.getState().items).toEqual(['b'])
+    })
+
+    it('sends undo and redo through setState with the temporal origin', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.temporal.undo()
+      store.temporal.redo()
+
+      expect(listener.mock.calls.map((call) => call[2] as unknown)).toEqual([
+        { type: 'temporal/undo', payload: 1, origin: 'temporal' },
+        { type: 'temporal/redo', payload: 1, origin: 'temporal' },
+      ])
+    })
+
+    it('exposes the actions in the history state too', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+
+      store.temporal.getState().undo()
+
+      expect(store.getState().items).toEqual([])
+    })
+  })
+
+  describe('clear', () => {
+    it('drops past and future entries', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+      store.getState().add('b')
+      store.temporal.undo()
+
+      store.temporal.clear()
+
+      expect(store.temporal.getState()).toMatchObject({
+        pastStates: [],
+        futureStates: [],
+        canUndo: false,
+        canRedo: false,
+      })
+      expect(store.getState().items).toEqual(['a'])
+    })
+  })
+
+  describe('limit', () => {
+    it('keeps only the most recent entries', () => {
+      const store = createCartStore({ limit: 2 })
+      store.getState().add('a')
+      store.getState().add('b')
+      store.getState().add('c')
+
+      expect(store.temporal.getState().pastStates).toHaveLength(2)
+
+      store.temporal.undo(10)
+      expect(store.getState().items).toEqual(['a'])
+    })
+  })
+
+  describe('partialize', () => {
+    it('tracks only the selected keys', () => {
+      const store = createCartStore({ partialize: (s) => ({ items: s.items }) })
+      store.getState().add('a')
+      store.getState().toggle()
+
+      expect(store.temporal.getState().pastStates).toEqual([{ items: [] }])
+
+      store.temporal.undo()
+      expect(store.getState()).toMatchObject({ items: [], open: true })
+    })
+
+    it('does not record updates to untracked keys', () => {
+      const store = createCartStore({ partialize: (s) => ({ items: s.items }) })
+
+      store.getState().toggle()
+
+      expect(store.temporal.getState().canUndo).toBe(false)
+    })
+
+    it('uses a custom equality', () => {
+      const store = createCartStore({
+        partialize: (s) => ({ items: s.items }),
+        equality: (a, b) => a.items.length === b.items.length,
+      })
+      store.getState().add('a')
+      store.setState({ items: ['b'] })
+
+      expect(store.temporal.getState().pastStates).toEqual([{ items: [] }])
+    })
+  })
+
+  describe('grouping', () => {
+    it('merges updates within the window into one entry', () => {
+      const store = createCartStore({ groupWithin: 100 })
+      store.getState().add('a')
+      vi.advanceTimersByTime(50)
+      store.getState().add('b')
+      vi.advanceTimersByTime(50)
+      store.getState().add('c')
+
+      expect(store.temporal.getState().pastStates).toHaveLength(1)
+
+      store.temporal.undo()
+      expect(store.getState().items).toEqual([])
+    })
+
+    it('starts a new entry after a pause', () => {
+      const store = createCartStore({ groupWithin: 100 })
+      store.getState().add('a')
+      store.getState().add('b')
+      vi.advanceTimersByTime(150)
+      store.getState().add('c')
+
+      store.temporal.undo()
+      expect(store.getState().items).toEqual(['a', 'b'])
+    })
+
+    it('does not group across undo', () => {
+      const store = createCartStore({ groupWithin: 100 })
+      store.getState().add('a')
+      vi.advanceTimersByTime(150)
+      store.getState().add('b')
+      store.temporal.undo()
+
+      store.getState().add('c')
+
+      expect(store.temporal.getState().pastStates).toEqual([
+        expect.objectContaining({ items: [] }),
+        expect.objectContaining({ items: ['a'] }),
+      ])
+    })
+
+    it('records a batch as one entry', () => {
+      const store = createCartStore()
+
+      store.batch(() => {
+        store.getState().add('a')
+        store.getState().add('b')
+      })
+      store.temporal.undo()
+
+      expect(store.getState().items).toEqual([])
+    })
+
+    it('records each update without a window', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+      store.getState().add('b')
+
+      expect(store.temporal.getState().pastStates).toHaveLength(2)
+    })
+  })
+
+  describe('pause / resume', () => {
+    it('does not record while paused', () => {
+      const store = createCartStore()
+      store.temporal.pause()
+      store.getState().add('a')
+
+      expect(store.temporal.getState()).toMatchObject({ isTracking: false, canUndo: false })
+
+      store.temporal.resume()
+      store.getState().add('b')
+      store.temporal.undo()
+
+      expect(store.getState().items).toEqual(['a'])
+    })
+  })
+
+  describe('update origins', () => {
+    it('clears the history on a full reset', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+
+      store.reset()
+
+      expect(store.temporal.getState().canUndo).toBe(false)
+    })
+
+    it('records a partial reset', () => {
+      const store = createCartStore()
+      store.getState().add('a')
+      store.setState({ open: true })
+
+      store.reset(['items'])
+      store.temporal.undo()
+
+      expect(store.getState().items).toEqual(['a'])
+    })
+
+    it('does not record devtools time travel', () => {
+      const store = createCartStore()
+
+      store.setState({ items: ['x'] }, false, { type: 'jump', origin: 'devtools' })
+
+      expect(store.temporal.getState().canUndo).toBe(false)
+    })
+
+    it('does not record rehydration', async () => {
+      const saved: StorageValue<unknown> = { state: { items: ['saved'] }, version: 0 }
+      const storage: PersistStorage<unknown> = {
+        getItem: () => saved,
+        setItem: () => {},
+        removeItem: () => {},
+      }
+      const store = createStore<CartState>()(
+        persist(
+          temporal((set) => ({
+            items: [],
+            open: false,
+            add: (item) => set((s) => ({ items: [...s.items, item] })),
+            remove: () => {},
+            toggle: () => {},
+          })),
+          { name: 'cart', storage }
+        )
+      )
+
+      await vi.runAllTimersAsync()
+
+      expect(store.getState().items).toEqual(['saved'])
+      expect(store.temporal.getState().canUndo).toBe(false)
+    })
+  })
+
+  describe('lifecycle', () => {
+    it('stops recording when the store is destroyed', () => {
+      const store = createCartStore()
+      const listener = vi.fn()
+      store.temporal.subscribe(listener)
+
+      store.destroy()
+      store.temporal.clear()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('useStore', () => {
+    it('renders history state', () => {
+      const useCart = create<CartState>()(
+        temporal((set) => ({
+          items: ['a'],
+          open: false,
+          add: (item) => set((s) => ({ items: [...s.items, item] })),
+          remove: (item) => set((s) => ({ items: s.items.filter((i) => i !== item) })),
+          toggle: () => {},
+        }))
+      )
+      const { result } = renderHook(() => useStore(useCart.temporal, (s) => s.canUndo))
+      expect(result.current).toBe(false)
+
+      act(() => useCart.getState().remove('a'))
+      expect(result.current).toBe(true)
+
+      act(() => useCart.temporal.undo())
+      expect(result.current).toBe(false)
+      expect(useCart.getState().items).toEqual(['a'])
+    })
+  })
+})
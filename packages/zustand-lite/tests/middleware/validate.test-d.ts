@@ -0,0 +1,75 @@
+/**
+ * Type tests for validate middleware.
+ * Coverage: state inference from the schema, explicit state types
+ */
+
+import { describe, it, expectTypeOf } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { validate } from '../../src/middleware/validate'
+import type { StandardSchemaV1, InferSchemaState } from '../../src/middleware/validate'
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+interface CartData {
+  items: { id: string; quantity: number }[]
+  note: string
+}
+
+const cartSchema: StandardSchemaV1<unknown, CartData> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => ({ value: value as CartData }),
+  },
+}
+
+// ============================================================
+// validate TYPE TESTS
+// ============================================================
+
+describe('validate types', () => {
+  it('infers the state from the schema output', () => {
+    const store = createStore(validate(() => ({ items: [], note: '' }), { schema: cartSchema }))
+
+    expectTypeOf(store.getState()).toEqualTypeOf<CartData>()
+  })
+
+  it('keeps an explicit state type', () => {
+    type CartState = InferSchemaState<typeof cartSchema> & {
+      setNote: (note: string) => void
+    }
+
+    const store = createStore<CartState>()(
+      validate(
+        (set) => ({ items: [], note: '', setNote: (note) => set({ note }) }),
+        { schema: cartSchema }
+      )
+    )
+
+    expectTypeOf(store.getState()).toEqualTypeOf<CartState>()
+    expectTypeOf(store.getState().items).toEqualTypeOf<CartData['items']>()
+  })
+
+  it('infers the state for validator functions from the initializer', () => {
+    const store = createStore(
+      validate(() => ({ count: 0 }), {
+        schema: (state) => (state.count >= 0 ? { value: state } : { issues: [] }),
+      })
+    )
+
+    expectTypeOf(store.getState()).toEqualTypeOf<{ count: number }>()
+  })
+
+  it('rejects schemas not matching the state', () => {
+    createStore<{ count: number }>()(
+      // @ts-expect-error - the schema output has no `count`
+      validate(() => ({ count: 0 }), { schema: cartSchema })
+    )
+    createStore<{ items: string[]; note: string }>()(
+      // @ts-expect-error - the schema output has other items
+      validate(() => ({ items: [], note: '' }), { schema: cartSchema })
+    )
+  })
+})
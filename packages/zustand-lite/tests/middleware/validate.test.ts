@@ -0,0 +1,394 @@
+/**
+ * Tests for validate middleware.
+ * Coverage: validator functions, Standard Schema, reject/coerce, onInvalid, paths, devtools, composition
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { validate } from '../../src/middleware/validate'
+import type {
+  StandardSchemaV1,
+  StandardSchemaIssue,
+  Validator,
+} from '../../src/middleware/validate'
+import { devtools } from '../../src/middleware/devtools'
+import { persist } from '../../src/middleware/persist'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+import { immer } from '../../src/middleware/immer'
+import { enableDevToolsMock, disableDevToolsMock } from '../setup'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface CartItem {
+  id: string
+  quantity: number
+}
+
+interface CartState {
+  items: CartItem[]
+  note: string
+  setQuantity: (id: string, quantity: number) => void
+  setNote: (note: string) => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+/**
+ * Minimal Standard Schema for the cart data: quantities must be
+ * positive integers; the note is trimmed in the output.
+ */
+const cartSchema: StandardSchemaV1<unknown, Pick<CartState, 'items' | 'note'>> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const state = value as CartState
+      const issues: StandardSchemaIssue[] = []
+      state.items.forEach((item, index) => {
+        if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+          issues.push({
+            message: 'Quantity must be a positive integer',
+            path: ['items', { key: index }, 'quantity'],
+          })
+        }
+      })
+      if (issues.length > 0) return { issues }
+      // Like most schema libraries, the output has only the described keys
+      return { value: { items: state.items, note: state.note.trim() } }
+    },
+  },
+}
+
+const cartCreator = (
+  set: (partial: Partial<CartState> | ((s: CartState) => Partial<CartState>), replace?: false, action?: string) => void
+) => ({
+  items: [{ id: 'a', quantity: 1 }],
+  note: '',
+  setQuantity: (id: string, quantity: number) =>
+    set(
+      (s) => ({ items: s.items.map((i) => (i.id === id ? { ...i, quantity } : i)) }),
+      false,
+      'cart/setQuantity'
+    ),
+  setNote: (note: string) => set({ note }, false, 'cart/setNote'),
+})
+
+const createCartStore = (options: Omit<Parameters<typeof validate>[1], 'schema'> = {}) =>
+  createStore<CartState>()(validate((set) => cartCreator(set), { schema: cartSchema, ...options }))
+
+// ============================================================
+// validate MIDDLEWARE TESTS
+// ============================================================
+
+describe('validate middleware', () => {
+  describe('reject mode', () => {
+    it('applies valid updates', () => {
+      const store = createCartStore()
+
+      store.getState().setQuantity('a', 3)
+
+      expect(store.getState().items).toEqual([{ id: 'a', quantity: 3 }])
+    })
+
+    it('throws on invalid updates and keeps the state', () => {
+      const store = createCartStore()
+      const before = store.getState()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      expect(() => store.getState().setQuantity('a', -1)).toThrow(
+        '[zustand-lite] Rejected invalid update (action "cart/setQuantity"): ' +
+          'state.items[0].quantity: Quantity must be a positive integer'
+      )
+      expect(store.getState()).toBe(before)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('validates external setState calls', () => {
+      const store = createCartStore()
+
+      expect(() => store.setState({ items: [{ id: 'b', quantity: 0 }] })).toThrow(
+        '[zustand-lite] Rejected invalid update: state.items[0].quantity'
+      )
+    })
+
+    it('validates the merged next state', () => {
+      const schema = vi.fn<Parameters<Validator<CartState>>, ReturnType<Validator<CartState>>>(
+        (state) => ({ value: state })
+      )
+      const store = createStore<CartState>()(validate((set) => cartCreator(set), { schema }))
+
+      store.getState().setNote('hi')
+
+      expect(schema).toHaveBeenLastCalledWith(
+        expect.objectContaining({ items: [{ id: 'a', quantity: 1 }], note: 'hi' })
+      )
+    })
+
+    it('stores the input unchanged', () => {
+      const store = createCartStore()
+
+      store.getState().setNote('  padded  ')
+
+      expect(store.getState().note).toBe('  padded  ')
+    })
+
+    it('validates the initial state', () => {
+      expect(() =>
+        createStore<CartState>()(
+          validate(
+            (set) => ({ ...cartCreator(set), items: [{ id: 'a', quantity: 0 }] }),
+            { schema: cartSchema }
+          )
+        )
+      ).toThrow('state.items[0].quantity')
+    })
+
+    it('validates reset and applyPatches', () => {
+      const store = createCartStore()
+
+      expect(() =>
+        store.applyPatches([{ op: 'replace', path: '/items/0/quantity', value: -5 }])
+      ).toThrow('state.items[0].quantity')
+      expect(store.getState().items[0]?.quantity).toBe(1)
+
+      store.getState().setQuantity('a', 2)
+      store.reset()
+      expect(store.getState().items[0]?.quantity).toBe(1)
+    })
+  })
+
+  describe('onInvalid', () => {
+    it('reports rejected updates instead of throwing', () => {
+      const onInvalid = vi.fn()
+      const store = createCartStore({ onInvalid })
+
+      store.getState().setQuantity('a', 1.5)
+
+      expect(store.getState().items[0]?.quantity).toBe(1)
+      expect(onInvalid).toHaveBeenCalledWith({
+        issues: [
+          {
+            message: 'Quantity must be a positive integer',
+            path: ['items', 0, 'quantity'],
+          },
+        ],
+        path: 'state.items[0].quantity',
+        state: expect.objectContaining({ items: [{ id: 'a', quantity: 1.5 }] }),
+        action: { type: 'cart/setQuantity', origin: 'user' },
+      })
+    })
+
+    it('reports anonymous updates without an action', () => {
+      const onInvalid = vi.fn()
+      const store = createCartStore({ onInvalid })
+
+      store.setState({ items: [{ id: 'a', quantity: -1 }] })
+
+      expect(onInvalid.mock.calls[0]?.[0]).toMatchObject({ action: undefined })
+    })
+
+    it('still throws on an invalid initial state', () => {
+      const onInvalid = vi.fn()
+
+      expect(() =>
+        createStore<CartState>()(
+          validate(
+            (set) => ({ ...cartCreator(set), items: [{ id: 'a', quantity: 0 }] }),
+            { schema: cartSchema, onInvalid }
+          )
+        )
+      ).toThrow('[zustand-lite] Rejected invalid initial state: state.items[0].quantity')
+      expect(onInvalid).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('coerce mode', () => {
+    it('stores the schema output', () => {
+      const store = createCartStore({ mode: 'coerce' })
+
+      store.getState().setNote('  padded  ')
+
+      expect(store.getState().note).toBe('padded')
+    })
+
+    it('keeps actions missing from the output', () => {
+      const store = createCartStore({ mode: 'coerce' })
+
+      store.getState().setNote(' y ')
+      expect(store.getState().note).toBe('y')
+
+      // reset replaces the state, so the output alone would drop the actions
+      store.reset()
+      expect(store.getState().note).toBe('')
+      expect(typeof store.getState().setQuantity).toBe('function')
+    })
+
+    it('still rejects invalid updates', () => {
+      const store = createCartStore({ mode: 'coerce' })
+
+      expect(() => store.getState().setQuantity('a', 0)).toThrow('state.items[0].quantity')
+    })
+
+    it('coerces the initial state', () => {
+      const store = createStore<CartState>()(
+        validate((set) => ({ ...cartCreator(set), note: ' start ' }), {
+          schema: cartSchema,
+          mode: 'coerce',
+        })
+      )
+
+      expect(store.getState().note).toBe('start')
+    })
+  })
+
+  describe('validator functions', () => {
+    type ThemeState = { theme: string; setTheme: (theme: string) => void }
+
+    const validateTheme: Validator<ThemeState> = (state) =>
+      ['light', 'dark'].includes(state.theme)
+        ? { value: state }
+        : { issues: [{ message: `Unknown theme "${state.theme}"`, path: ['theme'] }] }
+
+    it('rejects values the function reports', () => {
+      const store = createStore<ThemeState>()(
+        validate((set) => ({ theme: 'light', setTheme: (theme) => set({ theme }) }), {
+          schema: validateTheme,
+        })
+      )
+
+      store.getState().setTheme('dark')
+      expect(store.getState().theme).toBe('dark')
+
+      expect(() => store.getState().setTheme('purple')).toThrow(
+        'state.theme: Unknown theme "purple"'
+      )
+      expect(store.getState().theme).toBe('dark')
+    })
+
+    it('formats the root path for issues without a path', () => {
+      const onInvalid = vi.fn()
+      const store = createStore<{ n: number }>()(
+        validate(() => ({ n: 1 }), {
+          schema: (state) => (state.n < 10 ? { value: state } : { issues: [{ message: 'Too big' }] }),
+          onInvalid,
+        })
+      )
+
+      store.setState({ n: 20 })
+
+      expect(onInvalid.mock.calls[0]?.[0]).toMatchObject({ path: 'state', issues: [{ path: [] }] })
+    })
+
+    it('throws for asynchronous schemas', () => {
+      const asyncSchema: StandardSchemaV1<unknown, { n: number }> = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value) => Promise.resolve({ value: value as { n: number } }),
+        },
+      }
+
+      expect(() =>
+        createStore<{ n: number }>()(validate(() => ({ n: 1 }), { schema: asyncSchema }))
+      ).toThrow('asynchronous schemas are not supported')
+    })
+  })
+
+  describe('devtools', () => {
+    afterEach(() => {
+      disableDevToolsMock()
+    })
+
+    it('sends rejected updates to DevTools', () => {
+      const mock = enableDevToolsMock()
+      const store = createStore<CartState>()(
+        devtools(
+          validate((set) => cartCreator(set), {
+            schema: cartSchema,
+            onInvalid: () => {},
+          }),
+          { name: 'cart' }
+        )
+      )
+
+      store.getState().setQuantity('a', -1)
+
+      expect(mock.__mockConnection.send).toHaveBeenCalledWith(
+        {
+          type: 'cart/setQuantity/rejected',
+          payload: {
+            issues: [
+              {
+                message: 'Quantity must be a positive integer',
+                path: ['items', 0, 'quantity'],
+              },
+            ],
+          },
+        },
+        expect.objectContaining({ items: [{ id: 'a', quantity: 1 }] })
+      )
+    })
+  })
+
+  describe('composition', () => {
+    it('validates immer updates when placed outside immer', () => {
+      const store = createStore<CartState>()(
+        validate(
+          immer((set) => ({
+            items: [{ id: 'a', quantity: 1 }],
+            note: '',
+            setQuantity: (id, quantity) =>
+              set((draft) => {
+                const item = draft.items.find((i) => i.id === id)
+                if (item) item.quantity = quantity
+              }),
+            setNote: (note) => set({ note }),
+          })),
+          { schema: cartSchema }
+        )
+      )
+
+      store.getState().setQuantity('a', 2)
+      expect(store.getState().items[0]?.quantity).toBe(2)
+
+      expect(() => store.getState().setQuantity('a', -2)).toThrow('state.items[0].quantity')
+      expect(store.getState().items[0]?.quantity).toBe(2)
+    })
+
+    it('rejects invalid persisted state when placed outside persist', async () => {
+      vi.useFakeTimers()
+      const saved: StorageValue<unknown> = {
+        state: { items: [{ id: 'a', quantity: -3 }] },
+        version: 0,
+      }
+      const storage: PersistStorage<unknown> = {
+        getItem: () => saved,
+        setItem: () => {},
+        removeItem: () => {},
+      }
+      const onInvalid = vi.fn()
+
+      const store = createStore<CartState>()(
+        validate(
+          persist((set) => cartCreator(set), { name: 'cart', storage }),
+          { schema: cartSchema, onInvalid }
+        )
+      )
+      await vi.runAllTimersAsync()
+      vi.useRealTimers()
+
+      expect(store.getState().items).toEqual([{ id: 'a', quantity: 1 }])
+      expect(onInvalid).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: 'state.items[0].quantity',
+          action: { type: 'persist/rehydrate', origin: 'rehydrate' },
+        })
+      )
+    })
+  })
+})
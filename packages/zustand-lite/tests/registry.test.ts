@@ -0,0 +1,214 @@
+/**
+ * Tests for the global store registry.
+ * Coverage: registration, lookup, events, bulk operations
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  createStore,
+  registerStore,
+  listStores,
+  getStore,
+  onStoreCreated,
+  onStoreRemoved,
+  snapshotAll,
+  resetAll,
+  destroyAll,
+} from '../src/vanilla'
+
+const createCounter = (name?: string, tags?: string[]) =>
+  createStore(() => ({ count: 0 }), name === undefined ? {} : { name, tags })
+
+describe('store registry', () => {
+  afterEach(() => {
+    destroyAll()
+  })
+
+  // ============================================================
+  // registration
+  // ============================================================
+  describe('registration', () => {
+    it('registers stores created with a name', () => {
+      const store = createCounter('counter', ['ui'])
+
+      expect(listStores()).toEqual([
+        { name: 'counter', tags: ['ui'], store },
+      ])
+    })
+
+    it('leaves unnamed stores out', () => {
+      createCounter()
+
+      expect(listStores()).toEqual([])
+    })
+
+    it('registers existing stores with registerStore', () => {
+      const store = createCounter()
+      const unregister = registerStore(store, { name: 'manual' })
+
+      expect(getStore('manual')).toBe(store)
+
+      unregister()
+      expect(getStore('manual')).toBeUndefined()
+      expect(store.isDestroyed()).toBe(false)
+    })
+
+    it('unregisters stores when they are destroyed', () => {
+      const store = createCounter('counter')
+
+      store.destroy()
+
+      expect(listStores()).toEqual([])
+    })
+
+    it('ignores destroyed stores', () => {
+      const store = createCounter()
+      store.destroy()
+
+      registerStore(store, { name: 'dead' })
+
+      expect(getStore('dead')).toBeUndefined()
+    })
+  })
+
+  // ============================================================
+  // lookup
+  // ============================================================
+  describe('lookup', () => {
+    it('filters listStores by tag', () => {
+      const cart = createCounter('cart', ['shop', 'session'])
+      createCounter('theme', ['ui'])
+
+      expect(listStores({ tag: 'shop' }).map((e) => e.store)).toEqual([cart])
+    })
+
+    it('returns the most recent store for a repeated name', () => {
+      createCounter('panel')
+      const latest = createCounter('panel')
+
+      expect(getStore('panel')).toBe(latest)
+      expect(listStores()).toHaveLength(2)
+    })
+
+    it('notifies onStoreCreated listeners', () => {
+      const listener = vi.fn()
+      const unsubscribe = onStoreCreated(listener)
+
+      const store = createCounter('counter', ['ui'])
+      unsubscribe()
+      createCounter('ignored')
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({
+        name: 'counter',
+        tags: ['ui'],
+        store,
+      })
+    })
+
+    it('isolates throwing onStoreCreated listeners', () => {
+      const error = new Error('inspector failed')
+      const onError = vi.fn()
+      const after = vi.fn()
+      const unsubscribeThrowing = onStoreCreated(() => {
+        throw error
+      })
+      const unsubscribeAfter = onStoreCreated(after)
+
+      const store = createStore(() => ({ count: 0 }), { name: 'counter', onError })
+      unsubscribeThrowing()
+      unsubscribeAfter()
+
+      expect(getStore('counter')).toBe(store)
+      expect(after).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(error, {
+        state: { count: 0 },
+        previousState: { count: 0 },
+      })
+    })
+
+    it('notifies onStoreRemoved listeners once per removal', () => {
+      const listener = vi.fn()
+      const unsubscribe = onStoreRemoved(listener)
+
+      const destroyed = createCounter('destroyed')
+      const manual = createCounter()
+      const unregister = registerStore(manual, { name: 'manual' })
+      destroyed.destroy()
+      unregister()
+      unregister()
+      unsubscribe()
+
+      expect(listener.mock.calls.map(([entry]) => entry.name)).toEqual([
+        'destroyed',
+        'manual',
+      ])
+    })
+  })
+
+  // ============================================================
+  // bulk operations
+  // ============================================================
+  describe('bulk operations', () => {
+    it('snapshots registered stores by name', () => {
+      const cart = createCounter('cart')
+      createCounter('theme')
+      cart.setState({ count: 2 })
+
+      expect(snapshotAll()).toEqual({
+        cart: { count: 2 },
+        theme: { count: 0 },
+      })
+    })
+
+    it('resets registered stores', () => {
+      const cart = createCounter('cart', ['session'])
+      const theme = createCounter('theme')
+      cart.setState({ count: 2 })
+      theme.setState({ count: 3 })
+
+      resetAll({ tag: 'session' })
+
+      expect(cart.getState().count).toBe(0)
+      expect(theme.getState().count).toBe(3)
+
+      resetAll()
+      expect(theme.getState().count).toBe(0)
+    })
+
+    it('leaves unregistered stores alone', () => {
+      const unnamed = createCounter()
+      unnamed.setState({ count: 2 })
+
+      resetAll()
+
+      expect(unnamed.getState().count).toBe(2)
+    })
+
+    it('resets stores in one batch', () => {
+      const cart = createCounter('cart')
+      const theme = createCounter('theme')
+      cart.setState({ count: 2 })
+      theme.setState({ count: 3 })
+      const seen: Array<[number, number]> = []
+      cart.subscribe(() => {
+        seen.push([cart.getState().count, theme.getState().count])
+      })
+
+      resetAll()
+
+      expect(seen).toEqual([[0, 0]])
+    })
+
+    it('destroys registered stores', () => {
+      const cart = createCounter('cart', ['session'])
+      const theme = createCounter('theme')
+
+      destroyAll({ tag: 'session' })
+
+      expect(cart.isDestroyed()).toBe(true)
+      expect(theme.isDestroyed()).toBe(false)
+      expect(listStores().map((e) => e.name)).toEqual(['theme'])
+    })
+  })
+})
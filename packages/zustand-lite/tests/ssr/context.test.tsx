@@ -6,7 +6,8 @@
 import React from 'react'
 import { describe, it, expect, vi } from 'vitest'
 import { render, screen, act } from '@testing-library/react'
-import { createStore } from '../../src/vanilla'
+import { createStore, listStores, getStore } from '../../src/vanilla'
+import { create } from '../../src/react'
 import { createStoreContext } from '../../src/ssr/context'
 import { shallow } from '../../src/utils/shallow'
 
@@ -115,6 +116,143 @@ describe('createStoreContext', () => {
       expect(createStoreFn).toHaveBeenCalledTimes(1)
     })
 
+    it('destroys the store when the provider unmounts', async () => {
+      let capturedStore: ReturnType<typeof createTestStore> | undefined
+      const { StoreProvider, useStoreApi } = createStoreContext(createTestStore)
+
+      function TestComponent() {
+        capturedStore = useStoreApi()
+        return null
+      }
+
+      const { unmount } = render(
+        <StoreProvider>
+          <TestComponent />
+        </StoreProvider>
+      )
+
+      const cleanup = vi.fn()
+      capturedStore?.onDestroy(cleanup)
+
+      unmount()
+      await Promise.resolve()
+
+      expect(capturedStore?.isDestroyed()).toBe(true)
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('destroys stores created by create() through their bound hook', async () => {
+      const { StoreProvider, useStoreApi } = createStoreContext(() =>
+        create<TestState>()((set) => ({
+          count: 0,
+          name: 'test',
+          increment: () => set((s) => ({ count: s.count + 1 })),
+          setName: (name) => set({ name }),
+        }))
+      )
+      let capturedStore: ReturnType<typeof useStoreApi> | undefined
+
+      function TestComponent() {
+        capturedStore = useStoreApi()
+        return null
+      }
+
+      const { unmount } = render(
+        <StoreProvider>
+          <TestComponent />
+        </StoreProvider>
+      )
+      unmount()
+      await Promise.resolve()
+
+      expect(capturedStore?.isDestroyed()).toBe(true)
+    })
+
+    it('leaves shared stores alive when the provider unmounts', async () => {
+      const sharedStore = createTestStore()
+      const { StoreProvider, useStoreContext } = createStoreContext(() => sharedStore)
+
+      function TestComponent() {
+        const count = useStoreContext((s) => s.count)
+        return <div data-testid="count">{count}</div>
+      }
+
+      const { unmount } = render(
+        <StoreProvider>
+          <TestComponent />
+        </StoreProvider>
+      )
+      unmount()
+      await Promise.resolve()
+
+      expect(sharedStore.isDestroyed()).toBe(false)
+      sharedStore.getState().increment()
+      expect(sharedStore.getState().count).toBe(1)
+
+      render(
+        <StoreProvider>
+          <TestComponent />
+        </StoreProvider>
+      )
+      expect(screen.getByTestId('count').textContent).toBe('1')
+    })
+
+    it('keeps the store alive under StrictMode remounting', async () => {
+      let capturedStore: ReturnType<typeof createTestStore> | undefined
+      const { StoreProvider, useStoreApi } = createStoreContext(createTestStore)
+
+      function TestComponent() {
+        capturedStore = useStoreApi()
+        return null
+      }
+
+      render(
+        <React.StrictMode>
+          <StoreProvider>
+            <TestComponent />
+          </StoreProvider>
+        </React.StrictMode>
+      )
+      await Promise.resolve()
+
+      expect(capturedStore?.isDestroyed()).toBe(false)
+    })
+
+    it('registers each provider store while mounted', async () => {
+      const { StoreProvider, useStoreApi } = createStoreContext(createTestStore, {
+        name: 'context-counter',
+        tags: ['context'],
+      })
+      const stores: unknown[] = []
+
+      function GetStore() {
+        const store = useStoreApi()
+        if (!stores.includes(store)) stores.push(store)
+        return null
+      }
+
+      const first = render(
+        <StoreProvider>
+          <GetStore />
+        </StoreProvider>
+      )
+      const second = render(
+        <StoreProvider>
+          <GetStore />
+        </StoreProvider>
+      )
+
+      expect(listStores({ tag: 'context' }).map((e) => e.store)).toEqual(stores)
+      expect(getStore('context-counter')).toBe(stores[1])
+
+      second.unmount()
+      expect(listStores({ tag: 'context' }).map((e) => e.store)).toEqual([stores[0]])
+
+      first.unmount()
+      await Promise.resolve()
+      expect(listStores({ tag: 'context' })).toEqual([])
+    })
+
     it('different providers create different stores', () => {
       const { StoreProvider, useStoreApi } = createStoreContext(createTestStore)
 
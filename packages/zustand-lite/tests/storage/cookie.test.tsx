@@ -0,0 +1,287 @@
+/**
+ * Tests for cookie storage.
+ * Coverage: round trip, attributes, chunking, removal, server reader, StoreProvider
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderToString } from 'react-dom/server'
+import { create } from '../../src/react'
+import { persist } from '../../src/middleware/persist'
+import type { StorageValue } from '../../src/middleware/persist'
+import { createStoreContext } from '../../src/ssr/context'
+import {
+  createCookieStorage,
+  getCookieState,
+  parseCookieStorage,
+} from '../../src/storage/cookie'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface ThemeState {
+  theme: 'light' | 'dark'
+  setTheme: (theme: 'light' | 'dark') => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+/**
+ * Minimal browser cookie jar behind `document.cookie`: keeps name=value
+ * pairs, deletes on `Max-Age=0` and records every written string.
+ */
+const installCookieJar = () => {
+  const jar = new Map<string, string>()
+  const writes: string[] = []
+
+  Object.defineProperty(document, 'cookie', {
+    configurable: true,
+    get: () => Array.from(jar, ([name, value]) => `${name}=${value}`).join('; '),
+    set: (cookie: string) => {
+      writes.push(cookie)
+      const [pair = '', ...attributes] = cookie.split('; ')
+      const index = pair.indexOf('=')
+      const name = pair.slice(0, index)
+      if (attributes.includes('Max-Age=0')) jar.delete(name)
+      else jar.set(name, pair.slice(index + 1))
+    },
+  })
+
+  return writes
+}
+
+/** Restores happy-dom's own `document.cookie` */
+const removeCookieJar = () => {
+  delete (document as { cookie?: string }).cookie
+}
+
+const createThemeStore = (initialState?: Partial<ThemeState>) =>
+  create<ThemeState>()(
+    persist(
+      (set) => ({
+        theme: 'light',
+        ...initialState,
+        setTheme: (theme) => set({ theme }),
+      }),
+      {
+        name: 'theme',
+        storage: createCookieStorage(),
+        partialize: (s) => ({ theme: s.theme }),
+        skipHydration: true,
+        debounceMs: 0,
+      }
+    )
+  )
+
+// ============================================================
+// createCookieStorage TESTS
+// ============================================================
+
+describe('createCookieStorage', () => {
+  let writes: string[] = []
+
+  beforeEach(() => {
+    writes = installCookieJar()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    removeCookieJar()
+  })
+
+  describe('values', () => {
+    it('stores and reads values', () => {
+      const storage = createCookieStorage<StorageValue<unknown>>()
+
+      storage.setItem('theme', { state: { theme: 'dark' }, version: 1 })
+
+      expect(storage.getItem('theme')).toEqual({ state: { theme: 'dark' }, version: 1 })
+    })
+
+    it('encodes values so separators survive', () => {
+      const storage = createCookieStorage<StorageValue<unknown>>()
+      const state = { note: 'a; b=c, "d" ü' }
+
+      storage.setItem('notes', { state })
+
+      expect(storage.getItem('notes')).toEqual({ state })
+    })
+
+    it('returns null for missing and malformed values', () => {
+      const storage = createCookieStorage()
+      document.cookie = 'broken=%7Bnot-json; Path=/'
+
+      expect(storage.getItem('missing')).toBeNull()
+      expect(storage.getItem('broken')).toBeNull()
+    })
+
+    it('removes values', () => {
+      const storage = createCookieStorage<StorageValue<unknown>>()
+      storage.setItem('theme', { state: { theme: 'dark' } })
+
+      storage.removeItem('theme')
+
+      expect(storage.getItem('theme')).toBeNull()
+      expect(document.cookie).not.toContain('theme=')
+    })
+  })
+
+  describe('attributes', () => {
+    it('writes Path, Max-Age and SameSite by default', () => {
+      createCookieStorage().setItem('theme', { state: 1 })
+
+      expect(writes).toEqual([
+        `theme=${encodeURIComponent('{"state":1}')}; Path=/; Max-Age=31536000; SameSite=Lax`,
+      ])
+    })
+
+    it('writes the configured attributes', () => {
+      createCookieStorage({
+        path: '/app',
+        domain: 'example.com',
+        maxAge: 60,
+        sameSite: 'Strict',
+        secure: true,
+      }).setItem('theme', { state: 1 })
+
+      expect(writes[0]).toBe(
+        `theme=${encodeURIComponent('{"state":1}')}; Path=/app; Max-Age=60; SameSite=Strict; Domain=example.com; Secure`
+      )
+    })
+
+    it('always marks SameSite=None cookies as Secure', () => {
+      createCookieStorage({ sameSite: 'None', secure: false }).setItem('theme', { state: 1 })
+
+      expect(writes[0]).toMatch(/; SameSite=None; Secure$/)
+    })
+  })
+
+  describe('chunking', () => {
+    const longState = { text: 'é'.repeat(40) }
+
+    it('splits long values into several cookies', () => {
+      const storage = createCookieStorage<StorageValue<unknown>>({ chunkSize: 50 })
+
+      storage.setItem('notes', { state: longState })
+
+      expect(storage.getItem('notes')).toEqual({ state: longState })
+      expect(document.cookie).toMatch(/notes=chunks:\d+/)
+      for (const pair of document.cookie.split('; ')) {
+        expect(pair.slice(pair.indexOf('=') + 1).length).toBeLessThanOrEqual(50)
+      }
+    })
+
+    it('never splits an escape sequence', () => {
+      createCookieStorage({ chunkSize: 7 }).setItem('notes', { state: 'ééé' })
+
+      for (const write of writes) {
+        const value = write.slice(write.indexOf('=') + 1, write.indexOf(';'))
+        expect(() => decodeURIComponent(value)).not.toThrow()
+      }
+    })
+
+    it('removes stale chunks when the value shrinks', () => {
+      const storage = createCookieStorage<StorageValue<unknown>>({ chunkSize: 50 })
+      storage.setItem('notes', { state: longState })
+
+      storage.setItem('notes', { state: 'short' })
+
+      expect(storage.getItem('notes')).toEqual({ state: 'short' })
+      expect(document.cookie).not.toContain('notes.0')
+    })
+
+    it('removes every chunk', () => {
+      const storage = createCookieStorage<StorageValue<unknown>>({ chunkSize: 50 })
+      storage.setItem('notes', { state: longState })
+
+      storage.removeItem('notes')
+
+      expect(document.cookie).toBe('')
+    })
+
+    it('ignores a value with missing chunks', () => {
+      const storage = createCookieStorage<StorageValue<unknown>>({ chunkSize: 50 })
+      storage.setItem('notes', { state: longState })
+      document.cookie = 'notes.1=; Path=/; Max-Age=0'
+
+      expect(storage.getItem('notes')).toBeNull()
+    })
+  })
+
+  describe('without document', () => {
+    it('reads and writes nothing', () => {
+      vi.stubGlobal('document', undefined)
+      const storage = createCookieStorage<StorageValue<unknown>>()
+
+      storage.setItem('theme', { state: 1 })
+      storage.removeItem('theme')
+
+      expect(storage.getItem('theme')).toBeNull()
+    })
+  })
+})
+
+// ============================================================
+// SERVER READER TESTS
+// ============================================================
+
+describe('getCookieState', () => {
+  beforeEach(() => {
+    installCookieJar()
+  })
+
+  afterEach(() => {
+    removeCookieJar()
+  })
+
+  /** Cookie header a browser would send after the storage wrote `value` */
+  const headerFor = (value: StorageValue<unknown>, chunkSize?: number) => {
+    createCookieStorage<StorageValue<unknown>>({ chunkSize }).setItem('theme', value)
+    return `other=1; ${document.cookie}`
+  }
+
+  it('reads the persisted state from a Cookie header', () => {
+    const header = headerFor({ state: { theme: 'dark' }, version: 2 })
+
+    expect(getCookieState<ThemeState>(header, 'theme')).toEqual({ theme: 'dark' })
+    expect(parseCookieStorage(header, 'theme')).toEqual({ state: { theme: 'dark' }, version: 2 })
+  })
+
+  it('joins chunked values', () => {
+    const state = { theme: 'dark', note: 'x'.repeat(120) }
+
+    expect(getCookieState(headerFor({ state }, 40), 'theme')).toEqual(state)
+  })
+
+  it('returns undefined without a stored value', () => {
+    expect(getCookieState(null, 'theme')).toBeUndefined()
+    expect(getCookieState('', 'theme')).toBeUndefined()
+    expect(getCookieState('other=1', 'theme')).toBeUndefined()
+    expect(getCookieState('theme=%7Bbroken', 'theme')).toBeUndefined()
+  })
+
+  it('renders persisted state on the first server render', () => {
+    const { StoreProvider, useStoreContext } = createStoreContext<ThemeState>(createThemeStore)
+    const Theme = () => <span>{useStoreContext((s) => s.theme)}</span>
+    const header = headerFor({ state: { theme: 'dark' }, version: 0 })
+
+    const html = renderToString(
+      <StoreProvider initialState={getCookieState<ThemeState>(header, 'theme')}>
+        <Theme />
+      </StoreProvider>
+    )
+
+    expect(html).toBe('<span>dark</span>')
+  })
+
+  it('reads back what the client persisted', async () => {
+    const store = createThemeStore()
+    await store.persist.rehydrate()
+    store.getState().setTheme('dark')
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(getCookieState<ThemeState>(document.cookie, 'theme')).toEqual({ theme: 'dark' })
+  })
+})
@@ -0,0 +1,262 @@
+/**
+ * Tests for file storage.
+ * Coverage: files per store, atomic writes, locking, removal, watch mode, persist
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, readdir, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createStore } from '../../src/vanilla'
+import { persist } from '../../src/middleware/persist'
+import type { PersistStorage, StorageValue } from '../../src/middleware/persist'
+import { createFileStorage } from '../../src/storage/file'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface TodoState {
+  todos: string[]
+  add: (todo: string) => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+let dir = ''
+
+/**
+ * Polls until `check` stops throwing (filesystem events are not
+ * delivered at a fixed time).
+ */
+const eventually = async (check: () => void | Promise<void>, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  for (;;) {
+    try {
+      await check()
+      return
+    } catch (error) {
+      if (Date.now() > deadline) throw error
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+  }
+}
+
+const createTodoStore = (storage: PersistStorage<StorageValue<TodoState>>) =>
+  createStore<TodoState>()(
+    persist(
+      (set) => ({
+        todos: [],
+        add: (todo) => set((s) => ({ todos: [...s.todos, todo] })),
+      }),
+      {
+        name: 'todos',
+        storage,
+        debounceMs: 0,
+        skipHydration: true,
+      }
+    )
+  )
+
+// ============================================================
+// createFileStorage TESTS
+// ============================================================
+
+describe('createFileStorage', () => {
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zustand-lite-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('values', () => {
+    it('writes each store to its own JSON file', async () => {
+      const storage = createFileStorage<StorageValue<unknown>>(dir)
+
+      await storage.setItem('todos', { state: { todos: ['a'] }, version: 1 })
+      await storage.setItem('user/settings', { state: { theme: 'dark' } })
+
+      expect((await readdir(dir)).sort()).toEqual(['todos.json', 'user%2Fsettings.json'])
+      expect(JSON.parse(await readFile(join(dir, 'todos.json'), 'utf8'))).toEqual({
+        state: { todos: ['a'] },
+        version: 1,
+      })
+      expect(await storage.getItem('user/settings')).toEqual({ state: { theme: 'dark' } })
+    })
+
+    it('creates the directory on first write', async () => {
+      const nested = join(dir, 'state', 'cli')
+      const storage = createFileStorage<StorageValue<unknown>>(nested)
+
+      await storage.setItem('todos', { state: 1 })
+
+      expect(await readdir(nested)).toEqual(['todos.json'])
+    })
+
+    it('formats files with the configured indentation', async () => {
+      await createFileStorage(dir, { space: 0 }).setItem('todos', { state: 1 })
+
+      expect(await readFile(join(dir, 'todos.json'), 'utf8')).toBe('{"state":1}')
+    })
+
+    it('returns null for missing and malformed files', async () => {
+      const storage = createFileStorage(dir)
+      await writeFile(join(dir, 'broken.json'), '{"state":')
+
+      expect(await storage.getItem('missing')).toBeNull()
+      expect(await storage.getItem('broken')).toBeNull()
+      expect(await createFileStorage(join(dir, 'none')).getItem('todos')).toBeNull()
+    })
+
+    it('removes files', async () => {
+      const storage = createFileStorage<StorageValue<unknown>>(dir)
+      await storage.setItem('todos', { state: 1 })
+
+      await storage.removeItem('todos')
+      await storage.removeItem('missing')
+
+      expect(await readdir(dir)).toEqual([])
+      expect(await storage.getItem('todos')).toBeNull()
+    })
+  })
+
+  describe('atomic writes', () => {
+    it('leaves no temporary or lock files behind', async () => {
+      const storage = createFileStorage<StorageValue<unknown>>(dir)
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, index) => storage.setItem('todos', { state: index }))
+      )
+
+      expect(await readdir(dir)).toEqual(['todos.json'])
+    })
+
+    it('keeps the file valid under concurrent writers', async () => {
+      const writers = [
+        createFileStorage<StorageValue<unknown>>(dir),
+        createFileStorage<StorageValue<unknown>>(dir),
+      ]
+      const big = (index: number) => ({
+        state: { index, items: Array.from({ length: 500 }, () => index) },
+      })
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, index) => writers[index % 2]!.setItem('todos', big(index)))
+      )
+
+      const stored = JSON.parse(await readFile(join(dir, 'todos.json'), 'utf8'))
+      expect(stored.state.items.every((item: number) => item === stored.state.index)).toBe(true)
+    })
+  })
+
+  describe('locking', () => {
+    it('waits for a lock held by another process', async () => {
+      const storage = createFileStorage<StorageValue<unknown>>(dir)
+      const lockPath = join(dir, 'todos.json.lock')
+      await writeFile(lockPath, '')
+
+      const write = storage.setItem('todos', { state: 1 })
+      await new Promise((resolve) => setTimeout(resolve, 60))
+      expect(await storage.getItem('todos')).toBeNull()
+
+      await rm(lockPath)
+      await write
+
+      expect(await storage.getItem('todos')).toEqual({ state: 1 })
+    })
+
+    it('gives up after the lock timeout', async () => {
+      const storage = createFileStorage<StorageValue<unknown>>(dir, { lockTimeout: 50 })
+      await writeFile(join(dir, 'todos.json.lock'), '')
+
+      await storage.setItem('todos', { state: 1 })
+
+      expect(await storage.getItem('todos')).toBeNull()
+    })
+
+    it('breaks stale locks', async () => {
+      const storage = createFileStorage<StorageValue<unknown>>(dir, { staleLockMs: 1000 })
+      const lockPath = join(dir, 'todos.json.lock')
+      await writeFile(lockPath, '')
+      const past = new Date(Date.now() - 5000)
+      await utimes(lockPath, past, past)
+
+      await storage.setItem('todos', { state: 1 })
+
+      expect(await storage.getItem('todos')).toEqual({ state: 1 })
+      expect(await readdir(dir)).toEqual(['todos.json'])
+    })
+  })
+
+  describe('watch mode', () => {
+    it('does not watch by default', () => {
+      expect(createFileStorage(dir).subscribe).toBeUndefined()
+    })
+
+    it('rehydrates when another process changes the file', async () => {
+      const store = createTodoStore(createFileStorage(dir, { watch: true }))
+      await store.persist.rehydrate()
+      // Let the watcher start
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      await createFileStorage(dir).setItem('todos', {
+        state: { todos: ['from cli'] },
+        version: 0,
+      })
+
+      await eventually(() => expect(store.getState().todos).toEqual(['from cli']))
+      store.destroy()
+    })
+
+    it('ignores its own writes', async () => {
+      const storage = createFileStorage<StorageValue<TodoState>>(dir, { watch: true })
+      const store = createTodoStore(storage)
+      await store.persist.rehydrate()
+      const getItem = vi.spyOn(storage, 'getItem')
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      store.getState().add('local')
+      await eventually(async () => {
+        const stored = JSON.parse(await readFile(join(dir, 'todos.json'), 'utf8'))
+        expect(stored.state.todos).toEqual(['local'])
+      })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(getItem).not.toHaveBeenCalled()
+      store.destroy()
+    })
+
+    it('stops reporting changes after unsubscribing', async () => {
+      const storage = createFileStorage(dir, { watch: true })
+      const callback = vi.fn()
+      const unsubscribe = storage.subscribe!('todos', callback)
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      unsubscribe()
+      await createFileStorage(dir).setItem('todos', { state: 1 })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(callback).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('with persist', () => {
+    it('restores a vanilla store in a new process', async () => {
+      const first = createTodoStore(createFileStorage(dir))
+      await first.persist.rehydrate()
+      first.getState().add('write docs')
+      await eventually(async () => {
+        expect(await readdir(dir)).toEqual(['todos.json'])
+      })
+
+      const second = createTodoStore(createFileStorage(dir))
+      await second.persist.rehydrate()
+
+      expect(second.getState().todos).toEqual(['write docs'])
+    })
+  })
+})
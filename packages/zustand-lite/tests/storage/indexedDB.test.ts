@@ -0,0 +1,338 @@
+/**
+ * Tests for IndexedDB storage.
+ * Coverage: structured clone, actions, connection reuse, versioned upgrades, fallback, errors, persist
+ */
+
+import 'fake-indexeddb/auto'
+import { Blob as NodeBlob } from 'node:buffer'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { persist, createJSONStorage } from '../../src/middleware/persist'
+import type { StorageValue } from '../../src/middleware/persist'
+import { createIndexedDBStorage } from '../../src/storage/indexedDB'
+import { createMockStorage } from '../setup'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface BoardState {
+  cards: Map<string, { title: string; tags: Set<string> }>
+  updatedAt: Date
+  addCard: (id: string, title: string) => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+/** Unique database name per test, so tests never share a connection */
+let dbCount = 0
+const nextDbName = () => `board-db-${++dbCount}`
+
+/**
+ * Reads the object store names and version of a database.
+ */
+const describeDatabase = (dbName: string) =>
+  new Promise<{ version: number; stores: string[] }>((resolve, reject) => {
+    const request = indexedDB.open(dbName)
+    request.onsuccess = () => {
+      const db = request.result
+      const result = { version: db.version, stores: Array.from(db.objectStoreNames) }
+      db.close()
+      resolve(result)
+    }
+    request.onerror = () => reject(request.error)
+  })
+
+const boardCreator = (
+  set: (partial: (s: BoardState) => Partial<BoardState>) => void
+): BoardState => ({
+  cards: new Map(),
+  updatedAt: new Date(0),
+  addCard: (id, title) =>
+    set((s) => ({
+      cards: new Map(s.cards).set(id, { title, tags: new Set(['new']) }),
+      updatedAt: new Date(1_700_000_000_000),
+    })),
+})
+
+// ============================================================
+// createIndexedDBStorage TESTS
+// ============================================================
+
+describe('createIndexedDBStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('values', () => {
+    it('keeps Date, Map and Set values', async () => {
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName: nextDbName() })
+      const state = {
+        updatedAt: new Date(1_700_000_000_000),
+        cards: new Map([['a', { tags: new Set(['x', 'y']) }]]),
+      }
+
+      await storage.setItem('board', { state, version: 1 })
+      const stored = await storage.getItem('board')
+
+      expect(stored).toEqual({ state, version: 1 })
+      expect((stored?.state as typeof state).updatedAt).toBeInstanceOf(Date)
+      expect((stored?.state as typeof state).cards).toBeInstanceOf(Map)
+    })
+
+    it('keeps Blob values', async () => {
+      // happy-dom's Blob is not cloneable by the in-process IndexedDB
+      const storage = createIndexedDBStorage<StorageValue<{ file: Blob }>>({
+        dbName: nextDbName(),
+      })
+
+      await storage.setItem('upload', { state: { file: new NodeBlob(['hello']) as Blob } })
+      const stored = await storage.getItem('upload')
+
+      expect(await stored?.state.file.text()).toBe('hello')
+    })
+
+    it('drops actions', async () => {
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName: nextDbName() })
+
+      await storage.setItem('counter', {
+        state: { count: 1, nested: { label: 'a', format: () => 'a' }, increment: () => {} },
+      })
+
+      expect(await storage.getItem('counter')).toEqual({
+        state: { count: 1, nested: { label: 'a' } },
+      })
+    })
+
+    it('returns null for missing keys', async () => {
+      const storage = createIndexedDBStorage({ dbName: nextDbName() })
+
+      expect(await storage.getItem('missing')).toBeNull()
+    })
+
+    it('removes values', async () => {
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName: nextDbName() })
+      await storage.setItem('counter', { state: { count: 1 } })
+
+      await storage.removeItem('counter')
+
+      expect(await storage.getItem('counter')).toBeNull()
+    })
+  })
+
+  describe('connections', () => {
+    it('shares one connection between storages on the same database', async () => {
+      const open = vi.spyOn(indexedDB, 'open')
+      const dbName = nextDbName()
+      const first = createIndexedDBStorage<StorageValue<unknown>>({ dbName })
+      const second = createIndexedDBStorage<StorageValue<unknown>>({ dbName })
+
+      await Promise.all([
+        first.setItem('a', { state: 1 }),
+        second.setItem('b', { state: 2 }),
+        first.getItem('a'),
+      ])
+      await first.getItem('b')
+
+      expect(open).toHaveBeenCalledTimes(1)
+      expect(await second.getItem('a')).toEqual({ state: 1 })
+    })
+
+    it('creates an object store per storeName in one database', async () => {
+      const dbName = nextDbName()
+      const boards = createIndexedDBStorage<StorageValue<unknown>>({ dbName, storeName: 'boards' })
+      const users = createIndexedDBStorage<StorageValue<unknown>>({ dbName, storeName: 'users' })
+
+      await boards.setItem('current', { state: 'board' })
+      await users.setItem('current', { state: 'user' })
+
+      expect(await boards.getItem('current')).toEqual({ state: 'board' })
+      expect(await users.getItem('current')).toEqual({ state: 'user' })
+      expect((await describeDatabase(dbName)).stores).toEqual(['boards', 'users'])
+    })
+
+    it('reconnects when another connection upgrades the database', async () => {
+      const dbName = nextDbName()
+      const first = createIndexedDBStorage<StorageValue<unknown>>({ dbName })
+      await first.setItem('a', { state: 1 })
+
+      const second = createIndexedDBStorage<StorageValue<unknown>>({ dbName, version: 5 })
+      await second.setItem('b', { state: 2 })
+
+      expect(await first.getItem('b')).toEqual({ state: 2 })
+      expect((await describeDatabase(dbName)).version).toBe(5)
+    })
+  })
+
+  describe('upgrades', () => {
+    it('runs the upgrade callback when the version increases', async () => {
+      const dbName = nextDbName()
+      await createIndexedDBStorage({ dbName, version: 1 }).getItem('board')
+      const upgrade = vi.fn((db: IDBDatabase) => {
+        db.createObjectStore('archive')
+      })
+
+      await createIndexedDBStorage({ dbName, version: 2, upgrade }).getItem('board')
+
+      expect(upgrade).toHaveBeenCalledTimes(1)
+      expect(upgrade).toHaveBeenCalledWith(
+        expect.anything(),
+        1,
+        2,
+        expect.objectContaining({ mode: 'versionchange' })
+      )
+      expect(await describeDatabase(dbName)).toEqual({ version: 2, stores: ['archive', 'state'] })
+    })
+
+    it('keeps values across upgrades', async () => {
+      const dbName = nextDbName()
+      await createIndexedDBStorage<StorageValue<unknown>>({ dbName }).setItem('board', {
+        state: { title: 'Roadmap' },
+      })
+
+      const upgraded = createIndexedDBStorage<StorageValue<unknown>>({ dbName, version: 4 })
+
+      expect(await upgraded.getItem('board')).toEqual({ state: { title: 'Roadmap' } })
+    })
+  })
+
+  describe('fallback', () => {
+    it('stores nothing without IndexedDB', async () => {
+      vi.stubGlobal('indexedDB', undefined)
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName: nextDbName() })
+
+      await storage.setItem('board', { state: 1 })
+
+      expect(await storage.getItem('board')).toBeNull()
+    })
+
+    it('uses the fallback storage without IndexedDB', async () => {
+      vi.stubGlobal('indexedDB', undefined)
+      const local = createMockStorage()
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({
+        dbName: nextDbName(),
+        fallback: createJSONStorage(() => local),
+      })
+
+      await storage.setItem('board', { state: { title: 'Roadmap' } })
+
+      expect(local.getItem('board')).toBe('{"state":{"title":"Roadmap"}}')
+      expect(await storage.getItem('board')).toEqual({ state: { title: 'Roadmap' } })
+      await storage.removeItem('board')
+      expect(local.getItem('board')).toBeNull()
+    })
+
+    it('uses the fallback storage when the database cannot be opened', async () => {
+      vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+        throw new DOMException('The operation is insecure.', 'SecurityError')
+      })
+      const local = createMockStorage()
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({
+        dbName: nextDbName(),
+        fallback: createJSONStorage(() => local),
+      })
+
+      await storage.setItem('board', { state: 1 })
+
+      expect(await storage.getItem('board')).toEqual({ state: 1 })
+    })
+    it('retries the connection after a failed open', async () => {
+      const open = vi.spyOn(indexedDB, 'open').mockImplementationOnce(() => {
+        throw new DOMException('The operation is insecure.', 'SecurityError')
+      })
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName: nextDbName() })
+
+      expect(await storage.getItem('board')).toBeNull()
+      await storage.setItem('board', { state: 1 })
+
+      expect(await storage.getItem('board')).toEqual({ state: 1 })
+      expect(open).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('errors', () => {
+    it('reconnects after the browser closes the connection', async () => {
+      const dbName = nextDbName()
+      const open = vi.spyOn(indexedDB, 'open')
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName })
+      await storage.setItem('board', { state: 1 })
+      const db = (open.mock.results[0]?.value as IDBOpenDBRequest).result
+
+      // As when the user clears site data
+      db.close()
+      db.onclose?.(new Event('close'))
+
+      expect(await storage.getItem('board')).toEqual({ state: 1 })
+      expect(open).toHaveBeenCalledTimes(2)
+    })
+
+    it('rejects with the error of an aborted transaction', async () => {
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName: nextDbName() })
+      await storage.getItem('board')
+      const quotaError = new DOMException('Quota exceeded', 'QuotaExceededError')
+      vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (
+        this: IDBObjectStore
+      ) {
+        const { transaction } = this
+        Object.defineProperty(transaction, 'error', { value: quotaError })
+        const request = this.get('board')
+        queueMicrotask(() => transaction.abort())
+        return request
+      })
+
+      await expect(storage.setItem('board', { state: 1 })).rejects.toBe(quotaError)
+    })
+
+    it('reports failed writes through the store onError', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+      const onError = vi.fn()
+      const writeError = new DOMException('Quota exceeded', 'QuotaExceededError')
+      const storage = createIndexedDBStorage<StorageValue<unknown>>({ dbName: nextDbName() })
+      vi.spyOn(storage, 'setItem').mockRejectedValue(writeError)
+      const store = createStore<BoardState>()(
+        persist((set) => boardCreator(set), { name: 'board', storage, debounceMs: 0 }),
+        { onError }
+      )
+      await store.persist.rehydrate()
+
+      store.getState().addCard('a', 'Roadmap')
+      await vi.runAllTimersAsync()
+      vi.useRealTimers()
+
+      expect(onError.mock.calls[0]?.[0]).toBe(writeError)
+    })
+  })
+
+  describe('with persist', () => {
+    it('persists and rehydrates rich state', async () => {
+      const dbName = nextDbName()
+      const createBoardStore = () =>
+        createStore<BoardState>()(
+          persist((set) => boardCreator(set), {
+            name: 'board',
+            storage: createIndexedDBStorage({ dbName }),
+            debounceMs: 0,
+          })
+        )
+
+      const first = createBoardStore()
+      await first.persist.rehydrate()
+      first.getState().addCard('a', 'Roadmap')
+      await first.persist.flush()
+      // Let the write transaction finish
+      await createIndexedDBStorage({ dbName }).getItem('board')
+
+      const second = createBoardStore()
+      await second.persist.rehydrate()
+
+      const card = second.getState().cards.get('a')
+      expect(card?.title).toBe('Roadmap')
+      expect(card?.tags).toEqual(new Set(['new']))
+      expect(second.getState().updatedAt).toEqual(new Date(1_700_000_000_000))
+      expect(typeof second.getState().addCard).toBe('function')
+    })
+  })
+})
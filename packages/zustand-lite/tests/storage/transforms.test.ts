@@ -0,0 +1,262 @@
+/**
+ * Tests for the built-in persist transforms.
+ * Coverage: compression, encryption, wrong keys, codecs, combining with persist
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { createStore } from '../../src/vanilla'
+import { persist, taggedCodec } from '../../src/middleware/persist'
+import type { PersistStorage, PersistTransform, StorageValue } from '../../src/middleware/persist'
+import { compressTransform, encryptTransform } from '../../src/storage/transforms'
+
+// ============================================================
+// TEST TYPES
+// ============================================================
+
+interface NotesState {
+  notes: string[]
+  add: (note: string) => void
+}
+
+// ============================================================
+// TEST SETUP
+// ============================================================
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+
+const roundTrip = async (transform: PersistTransform<unknown, string>, value: unknown) =>
+  transform.decode(await transform.encode(value))
+
+const createMemoryStorage = () => {
+  const data = new Map<string, StorageValue<unknown>>()
+  const storage: PersistStorage<StorageValue<unknown>> = {
+    getItem: (name) => data.get(name) ?? null,
+    setItem: (name, value) => {
+      data.set(name, value)
+    },
+    removeItem: (name) => {
+      data.delete(name)
+    },
+  }
+  return { storage, data }
+}
+
+const createNotesStore = (
+  storage: PersistStorage<StorageValue<unknown>>,
+  transforms: PersistTransform[],
+  onRehydrated?: (state: unknown, error?: unknown) => void
+) =>
+  createStore<NotesState>()(
+    persist(
+      (set) => ({
+        notes: [],
+        add: (note) => set((s) => ({ notes: [...s.notes, note] })),
+      }),
+      {
+        name: 'notes',
+        storage: storage as PersistStorage<StorageValue<NotesState>>,
+        version: 3,
+        skipHydration: true,
+        transforms,
+        onRehydrateStorage: () => onRehydrated,
+      }
+    )
+  )
+
+// ============================================================
+// compressTransform TESTS
+// ============================================================
+
+describe('compressTransform', () => {
+  it('round-trips the state', async () => {
+    const state = { notes: ['a', 'b'], nested: { flag: true, count: 2 } }
+
+    expect(await roundTrip(compressTransform(), state)).toEqual(state)
+  })
+
+  it('shrinks repetitive states', async () => {
+    const state = { notes: Array.from({ length: 200 }, (_, index) => `note number ${index}`) }
+
+    const encoded = await compressTransform().encode(state)
+
+    expect(typeof encoded).toBe('string')
+    expect(encoded.length).toBeLessThan(JSON.stringify(state).length / 3)
+  })
+
+  it('serializes with the given codec', async () => {
+    const state = { tags: new Set(['a']), at: new Date(0) }
+
+    expect(await roundTrip(compressTransform({ codec: taggedCodec }), state)).toEqual(state)
+  })
+
+  it('rejects values it did not write', async () => {
+    await expect(compressTransform().decode('bm90IGRlZmxhdGU=')).rejects.toThrow()
+  })
+})
+
+// ============================================================
+// encryptTransform TESTS
+// ============================================================
+
+describe('encryptTransform', () => {
+  it('round-trips the state', async () => {
+    const state = { notes: ['secret'] }
+
+    expect(await roundTrip(encryptTransform({ key: await generateKey() }), state)).toEqual(state)
+  })
+
+  it('writes values that do not reveal the state', async () => {
+    const transform = encryptTransform({ key: await generateKey() })
+
+    const first = await transform.encode({ notes: ['secret'] })
+    const second = await transform.encode({ notes: ['secret'] })
+
+    expect(atob(first)).not.toContain('secret')
+    // A fresh IV per write
+    expect(first).not.toBe(second)
+  })
+
+  it('resolves the key lazily on every call', async () => {
+    const key = await generateKey()
+    const getKey = vi.fn(async () => key)
+    const transform = encryptTransform({ key: getKey })
+
+    await roundTrip(transform, { notes: [] })
+
+    expect(getKey).toHaveBeenCalledTimes(2)
+  })
+
+  it('fails with a wrong key', async () => {
+    const encoded = await encryptTransform({ key: await generateKey() }).encode({ notes: [] })
+
+    await expect(encryptTransform({ key: await generateKey() }).decode(encoded)).rejects.toThrow(
+      /could not be decrypted/
+    )
+  })
+
+  it('fails on a tampered value', async () => {
+    const transform = encryptTransform({ key: await generateKey() })
+    const bytes = Uint8Array.from(atob(await transform.encode({ notes: [] })), (char) =>
+      char.charCodeAt(0)
+    )
+    bytes[bytes.length - 1]! ^= 1
+
+    await expect(transform.decode(btoa(String.fromCharCode(...bytes)))).rejects.toThrow(
+      /could not be decrypted/
+    )
+  })
+
+  it('serializes with the given codec', async () => {
+    const state = { byId: new Map([[1, 'one']]) }
+    const transform = encryptTransform({ key: await generateKey(), codec: taggedCodec })
+
+    expect(await roundTrip(transform, state)).toEqual(state)
+  })
+})
+
+// ============================================================
+// WITH persist TESTS
+// ============================================================
+
+describe('with persist', () => {
+  it('stores compressed and encrypted state, keeping the version readable', async () => {
+    const key = await generateKey()
+    const { storage, data } = createMemoryStorage()
+    const transforms = [compressTransform(), encryptTransform({ key })]
+
+    const first = createNotesStore(storage, transforms)
+    await first.persist.rehydrate()
+    first.getState().add('buy milk')
+    await first.persist.flush()
+
+    const stored = data.get('notes')!
+    expect(stored.version).toBe(3)
+    expect(typeof stored.state).toBe('string')
+    expect(JSON.stringify(stored)).not.toContain('buy milk')
+
+    const second = createNotesStore(storage, transforms)
+    await second.persist.rehydrate()
+    expect(second.getState().notes).toEqual(['buy milk'])
+  })
+
+  it('reports a wrong key to onRehydrateStorage', async () => {
+    const { storage } = createMemoryStorage()
+    const writer = createNotesStore(storage, [encryptTransform({ key: await generateKey() })])
+    await writer.persist.rehydrate()
+    writer.getState().add('private')
+    await writer.persist.flush()
+
+    const onRehydrated = vi.fn()
+    const reader = createNotesStore(
+      storage,
+      [encryptTransform({ key: await generateKey() })],
+      onRehydrated
+    )
+    await reader.persist.rehydrate()
+
+    expect(onRehydrated).toHaveBeenCalledWith(undefined, expect.any(Error))
+    expect((onRehydrated.mock.calls[0]![1] as Error).message).toMatch(/could not be decrypted/)
+    expect(reader.getState().notes).toEqual([])
+  })
+
+  it('does not overwrite a value it could not decode', async () => {
+    const rightKey = await generateKey()
+    let key = await generateKey()
+    const { storage, data } = createMemoryStorage()
+    const writer = createNotesStore(storage, [encryptTransform({ key: rightKey })])
+    await writer.persist.rehydrate()
+    writer.getState().add('private')
+    await writer.persist.flush()
+    const stored = data.get('notes')
+
+    const reader = createNotesStore(storage, [encryptTransform({ key: () => key })])
+    await reader.persist.rehydrate()
+    reader.getState().add('draft')
+    await reader.persist.flush()
+
+    expect(data.get('notes')).toBe(stored)
+
+    // Writes resume once the stored value was read back
+    key = rightKey
+    await reader.persist.rehydrate()
+    reader.getState().add('draft')
+    await reader.persist.flush()
+
+    const check = createNotesStore(storage, [encryptTransform({ key: rightKey })])
+    await check.persist.rehydrate()
+    expect(check.getState().notes).toEqual(['private', 'draft'])
+  })
+
+  it('reports encode failures through onError', async () => {
+    const error = new Error('encode failed')
+    const onError = vi.fn()
+    const { storage, data } = createMemoryStorage()
+    const failing: PersistTransform = {
+      encode: () => Promise.reject(error),
+      decode: (value) => value,
+    }
+    const store = createStore<NotesState>()(
+      persist(
+        (set) => ({
+          notes: [],
+          add: (note) => set((s) => ({ notes: [...s.notes, note] })),
+        }),
+        {
+          name: 'notes',
+          storage: storage as PersistStorage<StorageValue<NotesState>>,
+          skipHydration: true,
+          transforms: [failing],
+        }
+      ),
+      { onError }
+    )
+    await store.persist.rehydrate()
+
+    store.getState().add('lost')
+    await store.persist.flush()
+
+    expect(data.has('notes')).toBe(false)
+    expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ state: store.getState() }))
+  })
+})
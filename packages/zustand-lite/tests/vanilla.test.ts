@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { createStore } from '../src/vanilla'
+import { createStore, batch, resetAllStores } from '../src/vanilla'
 
 describe('vanilla store', () => {
   // ============================================================
@@ -584,10 +584,13 @@ describe('vanilla store', () => {
       store.subscribe(errorListener)
       store.subscribe(listener2)
 
-      expect(() => store.setState({ count: 1 })).toThrow('Listener error')
-      // Due to forEach, error stops iteration
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(() => store.setState({ count: 1 })).not.toThrow()
       expect(listener1).toHaveBeenCalled()
-      // listener2 may or may not be called depending on Set iteration order
+      expect(listener2).toHaveBeenCalled()
+      expect(consoleError).toHaveBeenCalled()
+      consoleError.mockRestore()
     })
 
     it('handles subscribe with same function multiple times', () => {
@@ -641,29 +644,137 @@ describe('vanilla store', () => {
       expect(listener2).not.toHaveBeenCalled()
     })
 
-    it('allows subscribe after destroy', () => {
-      const store = createStore(() => ({ count: 0 }))
+    it('ignores subscribe after destroy', () => {
+      const store = createStore(() => ({ count: 0 }), { strict: true })
       const listener = vi.fn()
 
       store.subscribe(listener)
       store.destroy()
 
       const newListener = vi.fn()
-      store.subscribe(newListener)
-
-      store.setState({ count: 1 })
+      const unsubscribe = store.subscribe(newListener)
 
+      expect(() => store.setState({ count: 1 })).toThrow()
+      expect(() => unsubscribe()).not.toThrow()
       expect(listener).not.toHaveBeenCalled()
-      expect(newListener).toHaveBeenCalledTimes(1)
+      expect(newListener).not.toHaveBeenCalled()
     })
 
-    it('allows setState after destroy', () => {
+    it('ignores setState after destroy with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
       const store = createStore(() => ({ count: 0 }))
       store.destroy()
 
       store.setState({ count: 5 })
 
-      expect(store.getState()).toEqual({ count: 5 })
+      expect(store.getState()).toEqual({ count: 0 })
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('destroyed store')
+      )
+      warn.mockRestore()
+    })
+
+    it('throws on setState after destroy in strict mode', () => {
+      const store = createStore(() => ({ count: 0 }), { strict: true })
+      store.destroy()
+
+      expect(() => store.setState({ count: 5 })).toThrow(
+        'Cannot update a destroyed store'
+      )
+      expect(store.getState()).toEqual({ count: 0 })
+    })
+
+    it('accepts options in the curried form', () => {
+      const store = createStore<{ count: number }>()(() => ({ count: 0 }), {
+        strict: true,
+      })
+      store.destroy()
+
+      expect(() => store.setState({ count: 1 })).toThrow()
+    })
+
+    it('reports whether the store is destroyed', () => {
+      const store = createStore(() => ({ count: 0 }))
+
+      expect(store.isDestroyed()).toBe(false)
+      store.destroy()
+      expect(store.isDestroyed()).toBe(true)
+    })
+
+    it('runs onDestroy callbacks in reverse registration order', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const order: string[] = []
+
+      store.onDestroy(() => order.push('first'))
+      store.onDestroy(() => order.push('second'))
+      store.onDestroy(() => order.push('third'))
+
+      store.destroy()
+
+      expect(order).toEqual(['third', 'second', 'first'])
+    })
+
+    it('runs onDestroy callbacks only once', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const cleanup = vi.fn()
+      store.onDestroy(cleanup)
+
+      store.destroy()
+      store.destroy()
+
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('lets middleware register cleanup from the initializer', () => {
+      const cleanup = vi.fn()
+      const store = createStore((_set, _get, api) => {
+        api.onDestroy(cleanup)
+        return { count: 0 }
+      })
+
+      store.destroy()
+
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('unregisters onDestroy callbacks', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const cleanup = vi.fn()
+      const unregister = store.onDestroy(cleanup)
+
+      unregister()
+      unregister()
+      store.destroy()
+
+      expect(cleanup).not.toHaveBeenCalled()
+    })
+
+    it('runs onDestroy immediately when already destroyed', () => {
+      const store = createStore(() => ({ count: 0 }))
+      store.destroy()
+
+      const cleanup = vi.fn()
+      const unregister = store.onDestroy(cleanup)
+
+      expect(cleanup).toHaveBeenCalledTimes(1)
+      expect(() => unregister()).not.toThrow()
+    })
+
+    it('runs every cleanup and rethrows the first error', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const cleanup = vi.fn()
+
+      store.onDestroy(cleanup)
+      store.onDestroy(() => {
+        throw new Error('first failure')
+      })
+      store.onDestroy(() => {
+        throw new Error('second failure')
+      })
+
+      expect(() => store.destroy()).toThrow('second failure')
+      expect(cleanup).toHaveBeenCalledTimes(1)
+      expect(store.isDestroyed()).toBe(true)
     })
 
     it('can be called multiple times', () => {
@@ -747,6 +858,1194 @@ describe('vanilla store', () => {
     })
   })
 
+  // ============================================================
+  // listener errors
+  // ============================================================
+  describe('listener errors', () => {
+    it('routes listener errors to onError', () => {
+      const onError = vi.fn()
+      const error = new Error('analytics failed')
+      const throwing = vi.fn(() => {
+        throw error
+      })
+      const store = createStore(() => ({ count: 0 }), { onError })
+      store.subscribe(throwing)
+
+      store.setState({ count: 1 }, false, 'increment')
+
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(error, {
+        state: { count: 1 },
+        previousState: { count: 0 },
+        action: { type: 'increment', origin: 'user' },
+        listener: throwing,
+      })
+    })
+
+    it('notifies every listener after one throws', () => {
+      const onError = vi.fn()
+      const store = createStore(() => ({ count: 0 }), { onError })
+      const before = vi.fn()
+      const after = vi.fn()
+
+      store.subscribe(before)
+      store.subscribe(() => {
+        throw new Error('first')
+      })
+      store.subscribe(() => {
+        throw new Error('second')
+      })
+      store.subscribe(after)
+
+      store.setState({ count: 1 })
+
+      expect(before).toHaveBeenCalledTimes(1)
+      expect(after).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledTimes(2)
+    })
+
+    it('commits state before errors surface', () => {
+      let stateSeenByHandler: unknown
+      const store = createStore(() => ({ count: 0 }), {
+        onError: () => {
+          stateSeenByHandler = store.getState()
+        },
+      })
+      store.subscribe(() => {
+        throw new Error('boom')
+      })
+
+      store.setState({ count: 1 })
+
+      expect(stateSeenByHandler).toEqual({ count: 1 })
+      expect(store.getState()).toEqual({ count: 1 })
+    })
+
+    it('isolates listener errors in batched notifications', () => {
+      const onError = vi.fn()
+      const store = createStore(() => ({ count: 0 }), { onError })
+      const listener = vi.fn()
+
+      store.subscribe(() => {
+        throw new Error('boom')
+      })
+      store.subscribe(listener)
+
+      batch(() => {
+        store.setState({ count: 1 })
+        store.setState({ count: 2 })
+      })
+
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ count: 2 }, { count: 0 })
+    })
+
+    it('passes errors reported by middleware to onError', () => {
+      const onError = vi.fn()
+      const store = createStore(() => ({ count: 0 }), { onError })
+      const error = new Error('sink failed')
+
+      store.reportError(error)
+      store.reportError(error, { action: { type: 'log', origin: 'user' } })
+
+      expect(onError).toHaveBeenNthCalledWith(1, error, {
+        state: { count: 0 },
+        previousState: { count: 0 },
+      })
+      expect(onError).toHaveBeenNthCalledWith(2, error, {
+        state: { count: 0 },
+        previousState: { count: 0 },
+        action: { type: 'log', origin: 'user' },
+      })
+    })
+
+    it('uses reportError by default when available', () => {
+      const reportErrorMock = vi.fn()
+      vi.stubGlobal('reportError', reportErrorMock)
+      const error = new Error('boom')
+      const store = createStore(() => ({ count: 0 }))
+      store.subscribe(() => {
+        throw error
+      })
+
+      store.setState({ count: 1 })
+
+      expect(reportErrorMock).toHaveBeenCalledWith(error)
+      vi.unstubAllGlobals()
+    })
+
+    it('falls back to console.error in development', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const error = new Error('boom')
+      const store = createStore(() => ({ count: 0 }))
+      store.subscribe(() => {
+        throw error
+      })
+
+      store.setState({ count: 1 })
+
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringContaining('listener threw'),
+        error
+      )
+      consoleError.mockRestore()
+    })
+
+    it('stays silent in production without reportError', () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const store = createStore(() => ({ count: 0 }))
+      store.subscribe(() => {
+        throw new Error('boom')
+      })
+
+      expect(() => store.setState({ count: 1 })).not.toThrow()
+      expect(consoleError).not.toHaveBeenCalled()
+      consoleError.mockRestore()
+      vi.unstubAllEnvs()
+    })
+  })
+
+  // ============================================================
+  // re-entrant setState
+  // ============================================================
+  describe('re-entrant setState', () => {
+    it('delivers every transition to every listener in order', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const seenByFirst: Array<[number, number]> = []
+      const seenBySecond: Array<[number, number]> = []
+
+      store.subscribe((state, prev) => {
+        seenByFirst.push([prev.count, state.count])
+        if (state.count === 1) {
+          store.setState({ count: 2 })
+        }
+      })
+      store.subscribe((state, prev) => {
+        seenBySecond.push([prev.count, state.count])
+      })
+
+      store.setState({ count: 1 })
+
+      expect(seenByFirst).toEqual([
+        [0, 1],
+        [1, 2],
+      ])
+      expect(seenBySecond).toEqual([
+        [0, 1],
+        [1, 2],
+      ])
+    })
+
+    it('lets the current pass finish before the nested update', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const log: string[] = []
+
+      store.subscribe((state) => {
+        log.push(`a:${state.count}`)
+        if (state.count < 3) {
+          store.setState({ count: state.count + 1 })
+        }
+      })
+      store.subscribe((state) => {
+        log.push(`b:${state.count}`)
+      })
+
+      store.setState({ count: 1 })
+
+      expect(log).toEqual(['a:1', 'b:1', 'a:2', 'b:2', 'a:3', 'b:3'])
+      expect(store.getState().count).toBe(3)
+    })
+
+    it('keeps getState current while older transitions are delivered', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const observed: number[] = []
+
+      store.subscribe((state) => {
+        if (state.count === 1) {
+          store.setState({ count: 2 })
+        }
+      })
+      store.subscribe(() => {
+        observed.push(store.getState().count)
+      })
+
+      store.setState({ count: 1 })
+
+      expect(observed).toEqual([2, 2])
+    })
+
+    it('merges nested updates in coalesced mode', () => {
+      const store = createStore(() => ({ count: 0 }), {
+        notificationMode: 'coalesced',
+      })
+      const seen: Array<[number, number]> = []
+
+      store.subscribe((state) => {
+        if (state.count === 1) {
+          store.setState({ count: 2 })
+          store.setState({ count: 3 })
+        }
+      })
+      store.subscribe((state, prev) => {
+        seen.push([prev.count, state.count])
+      })
+
+      store.setState({ count: 1 })
+
+      expect(seen).toEqual([
+        [0, 1],
+        [1, 3],
+      ])
+    })
+
+    it('combines the actions of coalesced updates', () => {
+      const store = createStore(() => ({ count: 0 }), {
+        notificationMode: 'coalesced',
+      })
+      const actions: unknown[] = []
+
+      store.subscribe((state) => {
+        if (state.count === 1) {
+          store.setState({ count: 2 }, false, 'second')
+          store.setState({ count: 3 }, false, 'third')
+        }
+      })
+      store.subscribe((_state, _prev, action) => {
+        actions.push(action?.type)
+      })
+
+      store.setState({ count: 1 }, false, 'first')
+
+      expect(actions).toEqual(['first', 'batch'])
+    })
+
+    it('delivers each transition separately in sequential mode', () => {
+      const store = createStore(() => ({ count: 0 }), {
+        notificationMode: 'sequential',
+      })
+      const seen: Array<[number, number]> = []
+
+      store.subscribe((state) => {
+        if (state.count === 1) {
+          store.setState({ count: 2 })
+          store.setState({ count: 3 })
+        }
+      })
+      store.subscribe((state, prev) => {
+        seen.push([prev.count, state.count])
+      })
+
+      store.setState({ count: 1 })
+
+      expect(seen).toEqual([
+        [0, 1],
+        [1, 2],
+        [2, 3],
+      ])
+    })
+
+    it('recovers when the error handler throws mid-pass', () => {
+      const store = createStore(() => ({ count: 0 }), {
+        onError: (error) => {
+          throw error
+        },
+      })
+      const listener = vi.fn()
+      let shouldThrow = true
+
+      store.subscribe((state) => {
+        if (state.count === 1) {
+          store.setState({ count: 2 })
+        }
+        if (shouldThrow) {
+          shouldThrow = false
+          throw new Error('boom')
+        }
+      })
+      store.subscribe(listener)
+
+      expect(() => store.setState({ count: 1 })).toThrow('boom')
+
+      store.setState({ count: 5 })
+
+      expect(listener).toHaveBeenLastCalledWith({ count: 5 }, { count: 2 })
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  // ============================================================
+  // actions
+  // ============================================================
+  describe('actions', () => {
+    it('passes a named action to listeners with user origin', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.setState({ count: 1 }, false, 'increment')
+
+      expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 }, {
+        type: 'increment',
+        origin: 'user',
+      })
+    })
+
+    it('passes an action descriptor through unchanged', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.setState({ count: 5 }, true, {
+        type: 'load',
+        payload: { source: 'server' },
+        origin: 'rehydrate',
+      })
+
+      expect(listener).toHaveBeenCalledWith({ count: 5 }, { count: 0 }, {
+        type: 'load',
+        payload: { source: 'server' },
+        origin: 'rehydrate',
+      })
+    })
+
+    it('calls listeners with two arguments for anonymous updates', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.setState({ count: 1 })
+
+      expect(listener.mock.calls[0]).toHaveLength(2)
+    })
+
+    it('lets actions inside the initializer be named', () => {
+      const store = createStore<{ count: number; increment: () => void }>()(
+        (set) => ({
+          count: 0,
+          increment: () =>
+            set((s) => ({ count: s.count + 1 }), false, 'counter/increment'),
+        })
+      )
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.getState().increment()
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'counter/increment',
+        origin: 'user',
+      })
+    })
+
+    it('keeps the action of a single-update batch', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ count: 1 }, false, 'increment')
+      })
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'increment',
+        origin: 'user',
+      })
+    })
+
+    it('reports a multi-update batch as a batch action', () => {
+      const store = createStore(() => ({ count: 0, open: false }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ count: 1 }, false, 'addItem')
+        store.setState({ open: true })
+        store.setState({ count: 2 }, false, { type: 'addItem', payload: 2 })
+      })
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'batch',
+        payload: [
+          { type: 'addItem', origin: 'user' },
+          { type: 'addItem', payload: 2, origin: 'user' },
+        ],
+        origin: 'user',
+      })
+    })
+
+    it('keeps a shared origin for batched actions', () => {
+      const store = createStore(() => ({ a: 0, b: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ a: 1 }, false, { type: 'a', origin: 'rehydrate' })
+        store.setState({ b: 1 }, false, { type: 'b', origin: 'rehydrate' })
+      })
+
+      expect(listener.mock.calls[0]?.[2]).toMatchObject({
+        type: 'batch',
+        origin: 'rehydrate',
+      })
+    })
+
+    it('falls back to user origin for mixed batches', () => {
+      const store = createStore(() => ({ a: 0, b: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ a: 1 }, false, { type: 'a', origin: 'rehydrate' })
+        store.setState({ b: 1 }, false, 'b')
+      })
+
+      expect(listener.mock.calls[0]?.[2]).toMatchObject({ origin: 'user' })
+    })
+
+    it('counts anonymous updates as user updates when mixed with named ones', () => {
+      const store = createStore(() => ({ a: 0, b: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ a: 1 }, false, { type: 'a', origin: 'rehydrate' })
+        store.setState({ b: 1 })
+      })
+
+      expect(listener.mock.calls[0]?.[2]).toEqual({
+        type: 'batch',
+        payload: [{ type: 'a', origin: 'rehydrate' }],
+        origin: 'user',
+      })
+    })
+
+    it('counts anonymous updates as user updates when coalescing', () => {
+      const store = createStore(() => ({ a: 0, b: 0 }), { notificationMode: 'coalesced' })
+      const actions: unknown[] = []
+      store.subscribe((state, _previousState, action) => {
+        actions.push(action)
+        if (state.a === 1 && state.b === 0) {
+          store.setState({ b: 1 }, false, { type: 'b', origin: 'rehydrate' })
+          store.setState({ b: 2 })
+        }
+      })
+
+      store.setState({ a: 1 })
+
+      expect(actions[1]).toMatchObject({ type: 'batch', origin: 'user' })
+    })
+
+    it('reports an all-anonymous batch without an action', () => {
+      const store = createStore(() => ({ a: 0, b: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ a: 1 })
+        store.setState({ b: 1 })
+      })
+
+      expect(listener.mock.calls[0]).toHaveLength(2)
+    })
+  })
+
+  // ============================================================
+  // batch
+  // ============================================================
+  describe('batch', () => {
+    it('notifies once per store-level batch', () => {
+      const store = createStore(() => ({ count: 0, open: false }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ count: 1 })
+        store.setState({ open: true })
+        store.setState((s) => ({ count: s.count + 1 }))
+      })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(
+        { count: 2, open: true },
+        { count: 0, open: false }
+      )
+    })
+
+    it('updates state immediately inside the batch', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const seen: number[] = []
+
+      store.batch(() => {
+        store.setState({ count: 1 })
+        seen.push(store.getState().count)
+        store.setState({ count: 2 })
+        seen.push(store.getState().count)
+      })
+
+      expect(seen).toEqual([1, 2])
+    })
+
+    it('defers notification until the outermost batch exits', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState({ count: 1 })
+        store.batch(() => {
+          store.setState({ count: 2 })
+        })
+        expect(listener).not.toHaveBeenCalled()
+        store.setState({ count: 3 })
+      })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ count: 3 }, { count: 0 })
+    })
+
+    it('returns the callback result', () => {
+      const store = createStore(() => ({ count: 0 }))
+
+      expect(store.batch(() => 42)).toBe(42)
+      expect(batch(() => 'global')).toBe('global')
+    })
+
+    it('does not notify when nothing changed', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        store.setState((s) => s)
+      })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('still notifies when the callback throws', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      expect(() =>
+        store.batch(() => {
+          store.setState({ count: 1 })
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+
+      expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 })
+    })
+
+    it('store-level batch does not defer other stores', () => {
+      const storeA = createStore(() => ({ a: 0 }))
+      const storeB = createStore(() => ({ b: 0 }))
+      const listenerB = vi.fn()
+      storeB.subscribe(listenerB)
+
+      storeA.batch(() => {
+        storeB.setState({ b: 1 })
+        expect(listenerB).toHaveBeenCalledTimes(1)
+      })
+    })
+
+    it('global batch spans multiple stores', () => {
+      const storeA = createStore(() => ({ a: 0 }))
+      const storeB = createStore(() => ({ b: 0 }))
+      const listenerA = vi.fn()
+      const listenerB = vi.fn()
+      storeA.subscribe(listenerA)
+      storeB.subscribe(listenerB)
+
+      batch(() => {
+        storeA.setState({ a: 1 })
+        storeB.setState({ b: 1 })
+        storeA.setState({ a: 2 })
+        expect(listenerA).not.toHaveBeenCalled()
+        expect(listenerB).not.toHaveBeenCalled()
+      })
+
+      expect(listenerA).toHaveBeenCalledTimes(1)
+      expect(listenerA).toHaveBeenCalledWith({ a: 2 }, { a: 0 })
+      expect(listenerB).toHaveBeenCalledTimes(1)
+      expect(listenerB).toHaveBeenCalledWith({ b: 1 }, { b: 0 })
+    })
+
+    it('waits for an enclosing store batch when a global batch ends', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      store.batch(() => {
+        batch(() => {
+          store.setState({ count: 1 })
+        })
+        expect(listener).not.toHaveBeenCalled()
+      })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('notifies immediately for updates made by listeners after the batch', () => {
+      const store = createStore(() => ({ count: 0, doubled: 0 }))
+      store.subscribe((state) => {
+        if (state.doubled !== state.count * 2) {
+          store.setState({ doubled: state.count * 2 })
+        }
+      })
+
+      batch(() => {
+        store.setState({ count: 2 })
+      })
+
+      expect(store.getState()).toEqual({ count: 2, doubled: 4 })
+    })
+
+    it('drops the pending notification when destroyed mid-batch', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      batch(() => {
+        store.setState({ count: 1 })
+        store.destroy()
+      })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  // ============================================================
+  // getters
+  // ============================================================
+  describe('getters', () => {
+    const createGetterStore = () =>
+      createStore<{ items: number[]; open: boolean; readonly count: number }>()(
+        () => ({
+          items: [],
+          open: false,
+          get count() {
+            return this.items.length
+          },
+        })
+      )
+
+    it('keeps getters across merges', () => {
+      const store = createGetterStore()
+
+      store.setState({ items: [1, 2] })
+      store.setState({ open: true })
+
+      expect(store.getState().count).toBe(2)
+      expect(
+        Object.getOwnPropertyDescriptor(store.getState(), 'count')?.get
+      ).toBeTypeOf('function')
+    })
+
+    it('keeps getters on replace', () => {
+      const store = createGetterStore()
+
+      store.setState({ items: [1], open: false, count: 0 }, true)
+
+      expect(store.getState().count).toBe(1)
+    })
+
+    it('ignores values written to getter keys', () => {
+      const store = createGetterStore()
+
+      store.setState({ items: [1], count: 100 })
+
+      expect(store.getState().count).toBe(1)
+    })
+
+    it('picks up getters added by an update', () => {
+      const store = createStore<{ value: number; double?: number }>(() => ({
+        value: 2,
+      }))
+
+      store.setState({
+        get double() {
+          return (this as { value: number }).value * 2
+        },
+      })
+      store.setState({ value: 5 })
+
+      expect(store.getState().double).toBe(10)
+    })
+  })
+
+  // ============================================================
+  // reset
+  // ============================================================
+  describe('reset', () => {
+    const createCartStore = () =>
+      createStore<{
+        items: string[]
+        open: boolean
+        addItem: (item: string) => void
+      }>()((set) => ({
+        items: [],
+        open: false,
+        addItem: (item) => set((s) => ({ items: [...s.items, item] })),
+      }))
+
+    it('restores the initial state', () => {
+      const store = createCartStore()
+      store.getState().addItem('apple')
+      store.setState({ open: true })
+
+      store.reset()
+
+      expect(store.getState().items).toEqual([])
+      expect(store.getState().open).toBe(false)
+    })
+
+    it('restores only the given keys', () => {
+      const store = createCartStore()
+      store.getState().addItem('apple')
+      store.setState({ open: true })
+
+      store.reset(['items'])
+
+      expect(store.getState().items).toEqual([])
+      expect(store.getState().open).toBe(true)
+    })
+
+    it('keeps current actions', () => {
+      const store = createCartStore()
+      const replacement = vi.fn()
+      store.setState({ addItem: replacement })
+
+      store.reset()
+      store.reset(['addItem'])
+
+      expect(store.getState().addItem).toBe(replacement)
+    })
+
+    it('removes keys added after creation', () => {
+      const store = createStore<{ count: number; extra?: string }>(() => ({
+        count: 0,
+      }))
+      store.setState({ count: 1, extra: 'x' })
+
+      store.reset()
+
+      expect(store.getState()).toEqual({ count: 0 })
+    })
+
+    it('restores primitive state', () => {
+      const store = createStore(() => 5)
+      store.setState(10)
+
+      store.reset()
+
+      expect(store.getState()).toBe(5)
+    })
+
+    it('notifies listeners with the reset action', () => {
+      const store = createCartStore()
+      const listener = vi.fn()
+      store.getState().addItem('apple')
+      store.subscribe(listener)
+
+      store.reset(['items'])
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ items: [] }),
+        expect.objectContaining({ items: ['apple'] }),
+        { type: 'reset', payload: ['items'], origin: 'reset' }
+      )
+    })
+
+    it('goes through api.setState', () => {
+      const store = createCartStore()
+      const originalSetState = store.setState
+      const seen = vi.fn()
+      store.setState = (...args) => {
+        seen(args[2])
+        originalSetState(...args)
+      }
+
+      store.reset()
+
+      expect(seen).toHaveBeenCalledWith({
+        type: 'reset',
+        payload: undefined,
+        origin: 'reset',
+      })
+    })
+  })
+
+  // ============================================================
+  // resetAllStores
+  // ============================================================
+  describe('resetAllStores', () => {
+    it('resets every live store', () => {
+      const a = createStore(() => ({ count: 0 }))
+      const b = createStore(() => ({ name: 'initial' }))
+      a.setState({ count: 3 })
+      b.setState({ name: 'changed' })
+
+      resetAllStores()
+
+      expect(a.getState().count).toBe(0)
+      expect(b.getState().name).toBe('initial')
+    })
+
+    it('resets unnamed stores as well as named ones', () => {
+      const unnamed = createStore(() => ({ count: 0 }))
+      const named = createStore(() => ({ count: 0 }), { name: 'reset-all-named' })
+      unnamed.setState({ count: 5 })
+      named.setState({ count: 5 })
+
+      resetAllStores()
+
+      expect(unnamed.getState().count).toBe(0)
+      expect(named.getState().count).toBe(0)
+      named.destroy()
+    })
+
+    it('resets all stores inside one batch', () => {
+      const a = createStore(() => ({ count: 0 }))
+      const b = createStore(() => ({ count: 0 }))
+      a.setState({ count: 1 })
+      b.setState({ count: 1 })
+
+      const seen: number[][] = []
+      a.subscribe(() => {
+        seen.push([a.getState().count, b.getState().count])
+      })
+
+      resetAllStores()
+
+      expect(seen).toEqual([[0, 0]])
+    })
+
+    it('skips destroyed stores', () => {
+      const store = createStore(() => ({ count: 0 }))
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      store.destroy()
+
+      resetAllStores()
+
+      expect(warn).not.toHaveBeenCalled()
+      warn.mockRestore()
+    })
+  })
+
+  // ============================================================
+  // freeze
+  // ============================================================
+  describe('freeze', () => {
+    const createFrozenStore = () =>
+      createStore(
+        () => ({
+          items: [{ id: 1, tags: ['a'] }],
+          meta: { count: 0 },
+        }),
+        { freeze: true }
+      )
+
+    it('throws with the path on nested mutation', () => {
+      const store = createFrozenStore()
+
+      expect(() => {
+        store.getState().items.push({ id: 2, tags: [] })
+      }).toThrow(TypeError)
+      expect(() => {
+        store.getState().items[0]!.tags[0] = 'b'
+      }).toThrow('"state.items[0].tags[0]"')
+      expect(store.getState().items).toHaveLength(1)
+      expect(store.getState().items[0]!.tags).toEqual(['a'])
+    })
+
+    it('throws on top-level writes and deletes', () => {
+      const store = createFrozenStore()
+      const state = store.getState() as Record<string, unknown>
+
+      expect(() => {
+        state['meta'] = {}
+      }).toThrow('"state.meta"')
+      expect(() => {
+        delete state['items']
+      }).toThrow("'items'")
+    })
+
+    it('freezes state set by later updates', () => {
+      const store = createFrozenStore()
+
+      store.setState({ meta: { count: 1 } })
+
+      expect(Object.isFrozen(store.getState().meta)).toBe(true)
+      expect(() => {
+        store.getState().meta.count++
+      }).toThrow('"state.meta.count"')
+    })
+
+    it('freezes the objects passed to setState in place', () => {
+      const store = createFrozenStore()
+      const meta = { count: 1 }
+
+      store.setState({ meta })
+
+      expect(store.getState().meta).toBe(meta)
+      expect(Object.isFrozen(meta)).toBe(true)
+    })
+
+    it('freezes the children of pre-frozen objects', () => {
+      const store = createFrozenStore()
+      const meta = Object.freeze({ count: 1, history: [0] })
+
+      store.setState(Object.freeze({ meta }))
+
+      expect(Object.isFrozen(store.getState().meta.history)).toBe(true)
+      expect(() => {
+        store.getState().meta.history[0] = 2
+      }).toThrow('"state.meta.history[0]"')
+      expect(() => {
+        store.getState().meta.count = 2
+      }).toThrow('"state.meta.count"')
+    })
+
+    it('freezes the children of a pre-frozen initial state', () => {
+      const store = createStore(() => Object.freeze({ meta: { count: 0 } }), {
+        freeze: true,
+      })
+
+      expect(Object.isFrozen(store.getState().meta)).toBe(true)
+      expect(() => {
+        store.getState().meta.count = 1
+      }).toThrow('"state.meta.count"')
+    })
+
+    it('keeps frozen state cloneable', () => {
+      const store = createFrozenStore()
+
+      const copy = structuredClone(store.getState())
+
+      expect(copy).toEqual(store.getState())
+      expect(Object.isFrozen(copy)).toBe(false)
+    })
+
+    it('keeps references of unchanged branches', () => {
+      const store = createFrozenStore()
+      const { items } = store.getState()
+
+      store.setState({ meta: { count: 1 } })
+
+      expect(store.getState().items).toBe(items)
+    })
+
+    it('passes frozen state to listeners', () => {
+      const store = createFrozenStore()
+      const listener = vi.fn((state: { meta: { count: number } }) => {
+        expect(Object.isFrozen(state.meta)).toBe(true)
+      })
+      store.subscribe(listener)
+
+      store.setState({ meta: { count: 1 } })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps getters working', () => {
+      const store = createStore(
+        () => ({
+          items: [1, 2],
+          get total() {
+            return this.items.reduce((sum, n) => sum + n, 0)
+          },
+        }),
+        { freeze: true }
+      )
+
+      store.setState({ items: [1, 2, 3] })
+
+      expect(store.getState().total).toBe(6)
+    })
+
+    it('leaves non-plain objects alone', () => {
+      const store = createStore(() => ({ tags: new Set<string>() }), {
+        freeze: true,
+      })
+
+      store.getState().tags.add('a')
+
+      expect(store.getState().tags.has('a')).toBe(true)
+    })
+
+    it('is a no-op in production', () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      try {
+        const store = createFrozenStore()
+
+        store.getState().items.push({ id: 2, tags: [] })
+
+        expect(store.getState().items).toHaveLength(2)
+      } finally {
+        vi.unstubAllEnvs()
+      }
+    })
+
+    it('is off by default', () => {
+      const store = createStore(() => ({ items: [1] }))
+
+      expect(Object.isFrozen(store.getState().items)).toBe(false)
+    })
+  })
+
+  // ============================================================
+  // applyPatches
+  // ============================================================
+  describe('applyPatches', () => {
+    const createTodoStore = () =>
+      createStore<{
+        todos: Array<{ title: string; done: boolean }>
+        filter: string
+        toggle: (index: number) => void
+      }>()((set) => ({
+        todos: [{ title: 'a', done: false }],
+        filter: 'all',
+        toggle: (index) =>
+          set((s) => ({
+            todos: s.todos.map((t, i) => (i === index ? { ...t, done: !t.done } : t)),
+          })),
+      }))
+
+    it('applies add, replace and remove operations', () => {
+      const store = createTodoStore()
+
+      store.applyPatches([
+        { op: 'add', path: '/todos/-', value: { title: 'b', done: false } },
+        { op: 'replace', path: '/todos/0/done', value: true },
+        { op: 'replace', path: '/filter', value: 'done' },
+      ])
+
+      expect(store.getState().todos).toEqual([
+        { title: 'a', done: true },
+        { title: 'b', done: false },
+      ])
+      expect(store.getState().filter).toBe('done')
+
+      store.applyPatches([{ op: 'remove', path: '/todos/0' }])
+      expect(store.getState().todos).toEqual([{ title: 'b', done: false }])
+    })
+
+    it('applies move, copy and test operations', () => {
+      const store = createStore<{ list: number[]; other?: number[] }>()(() => ({
+        list: [1, 2, 3],
+      }))
+
+      store.applyPatches([
+        { op: 'test', path: '/list/0', value: 1 },
+        { op: 'move', from: '/list/0', path: '/list/-' },
+        { op: 'copy', from: '/list', path: '/other' },
+      ])
+
+      expect(store.getState()).toEqual({ list: [2, 3, 1], other: [2, 3, 1] })
+    })
+
+    it('does not mutate the previous state and keeps untouched branches', () => {
+      const store = createStore<{ a: { n: number }; b: { n: number } }>()(() => ({
+        a: { n: 1 },
+        b: { n: 1 },
+      }))
+      const before = store.getState()
+
+      store.applyPatches([{ op: 'replace', path: '/a/n', value: 2 }])
+
+      expect(before.a.n).toBe(1)
+      expect(store.getState().a.n).toBe(2)
+      expect(store.getState().b).toBe(before.b)
+    })
+
+    it('unescapes ~0 and ~1 in paths', () => {
+      const store = createStore<Record<string, number>>()(() => ({
+        'a/b': 1,
+        'c~d': 1,
+      }))
+
+      store.applyPatches([
+        { op: 'replace', path: '/a~1b', value: 2 },
+        { op: 'replace', path: '/c~0d', value: 3 },
+      ])
+
+      expect(store.getState()).toEqual({ 'a/b': 2, 'c~d': 3 })
+    })
+
+    it('keeps actions and getters', () => {
+      const store = createStore<{ count: number; readonly double: number; inc: () => void }>()(
+        (set, get) => ({
+          count: 1,
+          get double() {
+            return get().count * 2
+          },
+          inc: () => set((s) => ({ count: s.count + 1 })),
+        })
+      )
+
+      store.applyPatches([{ op: 'replace', path: '/count', value: 5 }])
+      expect(store.getState().double).toBe(10)
+
+      store.getState().inc()
+      expect(store.getState().count).toBe(6)
+    })
+
+    it('applies nothing when an operation fails', () => {
+      const store = createTodoStore()
+      const before = store.getState()
+      const listener = vi.fn()
+      store.subscribe(listener)
+
+      expect(() =>
+        store.applyPatches([
+          { op: 'replace', path: '/filter', value: 'done' },
+          { op: 'test', path: '/todos/0/done', value: true },
+        ])
+      ).toThrow('[zustand-lite] Cannot apply JSON Patch "test" at "/todos/0/done": test failed')
+
+      expect(store.getState()).toBe(before)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('rejects invalid paths', () => {
+      const store = createTodoStore()
+
+      expect(() =>
+        store.applyPatches([{ op: 'remove', path: '/missing' }])
+      ).toThrow('path does not exist')
+      expect(() =>
+        store.applyPatches([{ op: 'add', path: '/todos/5', value: {} }])
+      ).toThrow('index 5 is out of bounds')
+      expect(() =>
+        store.applyPatches([{ op: 'replace', path: 'filter', value: '' }])
+      ).toThrow('invalid JSON Pointer')
+    })
+
+    it('notifies listeners with a patch action', () => {
+      const store = createTodoStore()
+      const listener = vi.fn()
+      store.subscribe(listener)
+      const operations = [{ op: 'replace', path: '/filter', value: 'done' }] as const
+
+      store.applyPatches(operations)
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: 'done' }),
+        expect.objectContaining({ filter: 'all' }),
+        { type: 'applyPatches', payload: operations, origin: 'patch' }
+      )
+
+      store.applyPatches([{ op: 'replace', path: '/filter', value: 'all' }], 'sync/remote')
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.anything(),
+        { type: 'sync/remote', origin: 'user' }
+      )
+    })
+  })
+
   // ============================================================
   // Integration scenarios
   // ============================================================
@@ -10,8 +10,20 @@ export default defineConfig({
     'middleware/devtools': 'src/middleware/devtools.ts',
     'middleware/immer': 'src/middleware/immer.ts',
     'middleware/combine': 'src/middleware/combine.ts',
+    'middleware/computed': 'src/middleware/computed.ts',
+    'middleware/slices': 'src/middleware/slices.ts',
+    'middleware/asyncAction': 'src/middleware/asyncAction.ts',
+    'middleware/patches': 'src/middleware/patches.ts',
+    'middleware/temporal': 'src/middleware/temporal.ts',
+    'middleware/validate': 'src/middleware/validate.ts',
+    'middleware/logger': 'src/middleware/logger.ts',
+    'middleware/scheduler': 'src/middleware/scheduler.ts',
+    'middleware/redux': 'src/middleware/redux.ts',
+    'middleware/broadcast': 'src/middleware/broadcast.ts',
     'middleware/subscribeWithSelector': 'src/middleware/subscribeWithSelector.ts',
     'ssr/index': 'src/ssr/index.ts',
+    'storage/index': 'src/storage/index.ts',
+    'storage/file': 'src/storage/file.ts',
     'utils/shallow': 'src/utils/shallow.ts',
   },
   format: ['cjs', 'esm'],